@@ -0,0 +1,48 @@
+// Bearer-token auth for the admin routes. Tokens come from ADMIN_TOKENS as
+// comma-separated user:token pairs; the user name is what the audit log
+// records as the actor of a change.
+import crypto from 'crypto';
+import { HttpError } from './errors.js';
+
+export function parseAdminTokens(value) {
+  const tokens = new Map();
+  for (const pair of String(value || '').split(',')) {
+    const index = pair.indexOf(':');
+    if (index <= 0) continue;
+    const user = pair.slice(0, index).trim();
+    const token = pair.slice(index + 1).trim();
+    if (user && token) tokens.set(token, user);
+  }
+  return tokens;
+}
+
+// Constant-time comparison so response timing doesn't leak token prefixes
+function findUser(tokens, candidate) {
+  const given = Buffer.from(candidate);
+  let user = null;
+  for (const [token, name] of tokens) {
+    const expected = Buffer.from(token);
+    if (expected.length === given.length && crypto.timingSafeEqual(expected, given)) user = name;
+  }
+  return user;
+}
+
+// Middleware: 503 when no tokens are configured, 401 without a valid token.
+// Sets req.adminUser for the handlers.
+export function requireAdmin(tokens) {
+  return (req, res, next) => {
+    if (tokens.size === 0) {
+      return next(new HttpError(503, 'Admin API is disabled: set ADMIN_TOKENS to enable it'));
+    }
+
+    const match = /^Bearer\s+(.+)$/i.exec(req.get('Authorization') || '');
+    const user = match && findUser(tokens, match[1].trim());
+    if (!user) {
+      res.setHeader('WWW-Authenticate', 'Bearer realm="admin"');
+      return next(new HttpError(401, 'Missing or invalid admin token'));
+    }
+
+    req.adminUser = user;
+    next();
+  };
+}
@@ -0,0 +1,85 @@
+// Threshold alerts: conditions that users set on one company's metric series
+// and that are checked again against every new snapshot. A rule looks at the
+// company's latest reported period:
+//   below        the value is under the threshold (PAT_MARGIN below 15)
+//   above        the value is over the threshold
+//   outside_top  the company ranks below the top <threshold> companies by the
+//                metric in that fiscal year (EBITDA outside the top 3); as in
+//                /rankings, the top is the lowest values for metrics where
+//                lower is better
+// A rule alerts once per period: when its condition starts to hold, or holds
+// for a newer period than the one it last alerted for.
+import { rankSeries } from './rankings.js';
+import { periodLabel } from './periods.js';
+
+export const ALERT_CONDITIONS = ['below', 'above', 'outside_top'];
+// 'disabled' when no webhook is configured
+export const ALERT_DELIVERIES = ['pending', 'delivered', 'failed', 'disabled'];
+export const MAX_ALERT_RULE_NAME = 120;
+export const MAX_RANK_THRESHOLD = 50;
+export const DEFAULT_ALERT_LIMIT = 50;
+export const MAX_ALERT_LIMIT = 500;
+export const DEFAULT_WEBHOOK_TIMEOUT_MS = 5000;
+
+const formatValue = (value) => value.toLocaleString('en-US', { maximumFractionDigits: 2 });
+
+// Name given to a rule created without one, e.g. 'TCS PAT_MARGIN below 15'
+export function describeRule({ ticker, metric, condition, threshold }) {
+  return condition === 'outside_top'
+    ? `${ticker} ${metric} outside the top ${threshold}`
+    : `${ticker} ${metric} ${condition} ${formatValue(threshold)}`;
+}
+
+// `series` is the rule company's findSeries() result (null without data) and
+// `peers()` every company's series for the metric, only read by outside_top,
+// which ranks them in `order` ('desc' puts the highest value first).
+// Returns null when there's no value to judge, else
+// { holds, year, quarter, value, rank, message }.
+export function evaluateRule(rule, series, peers, { order = 'desc' } = {}) {
+  const latest = series?.points.filter(p => p.value !== null).pop();
+  if (!latest) return null;
+
+  const period = { year: latest.year, quarter: latest.quarter ?? null };
+  const label = `${rule.ticker} ${rule.metric} ${periodLabel(period)}`;
+
+  if (rule.condition === 'outside_top') {
+    const { rows } = rankSeries(peers(), { year: latest.year, order });
+    const rank = rows.find(row => row.company.ticker === rule.ticker)?.rank ?? null;
+    return {
+      holds: rank !== null && rank > rule.threshold,
+      ...period,
+      value: latest.value,
+      rank,
+      message: `${label} ranks #${rank} of ${rows.length}, outside the top ${rule.threshold}`
+    };
+  }
+
+  return {
+    holds: rule.condition === 'below' ? latest.value < rule.threshold : latest.value > rule.threshold,
+    ...period,
+    value: latest.value,
+    rank: null,
+    message: `${label} is ${formatValue(latest.value)}, ${rule.condition} ${formatValue(rule.threshold)}`
+  };
+}
+
+// POSTs one alert to the webhook. Resolves with the outcome instead of
+// throwing, so an unreachable endpoint never fails a reload; there are no
+// retries, the alert history keeps the failure.
+export async function deliverAlert(url, alert, { timeoutMs = DEFAULT_WEBHOOK_TIMEOUT_MS } = {}) {
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ event: 'alert.triggered', alert }),
+      signal: AbortSignal.timeout(timeoutMs)
+    });
+    return response.ok
+      ? { delivery: 'delivered', error: null }
+      : { delivery: 'failed', error: `Webhook answered HTTP ${response.status}` };
+  } catch (error) {
+    // fetch() reports refused connections and DNS failures in `cause`
+    const reason = error.name === 'TimeoutError' ? `No answer within ${timeoutMs} ms` : error.cause?.message || error.message;
+    return { delivery: 'failed', error: reason };
+  }
+}
@@ -0,0 +1,43 @@
+// API keys for partner tools. Only a SHA-256 hash of each key is stored, in a
+// JSON file managed with `npm run api-key`; the key itself is shown once, when
+// it is created. Requests present it in the X-API-Key header.
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+
+export const API_KEY_HEADER = 'X-API-Key';
+const KEY_PREFIX = 'tk_';
+
+export function hashApiKey(key) {
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+export function generateApiKey() {
+  return `${KEY_PREFIX}${crypto.randomBytes(24).toString('base64url')}`;
+}
+
+export function readKeyFile(file) {
+  if (!fs.existsSync(file)) return { keys: [] };
+  const data = JSON.parse(fs.readFileSync(file, 'utf8'));
+  return { keys: data.keys || [] };
+}
+
+// Written via a temp file renamed into place, like the user store
+export function writeKeyFile(file, data) {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(`${file}.tmp`, `${JSON.stringify(data, null, 2)}\n`);
+  fs.renameSync(`${file}.tmp`, file);
+}
+
+// Loads the key file into a lookup from a presented key to its entry
+// ({ id, name, rateLimit }); rateLimit is null when the key uses the default
+export function loadApiKeys(file) {
+  const byHash = new Map();
+  for (const key of readKeyFile(file).keys) {
+    byHash.set(key.hash, { id: key.id, name: key.name, rateLimit: key.rateLimit ?? null });
+  }
+  return {
+    size: byHash.size,
+    find: (presented) => byHash.get(hashApiKey(presented)) || null
+  };
+}
@@ -0,0 +1,91 @@
+// Compares the old per-request path (re-parse everything, then linearly
+// filter the records) with lookups against a prebuilt dataStore snapshot,
+// on a synthetic Nifty 500-sized universe.
+//
+//   npm run bench
+import { buildSnapshot, parseRecords } from '../dataStore.js';
+
+const COMPANIES = 500;
+const METRICS = ['SALES', 'EBITDA', 'PAT'];
+const FIRST_YEAR = 1996;
+const LAST_YEAR = 2024;
+const LOOKUPS = 2000;
+// The linear path re-parses the whole universe per lookup, so it only gets a sample
+const LINEAR_LOOKUPS = 100;
+// The indexed path has to beat the linear one by at least this factor
+const MIN_SPEEDUP = 10;
+
+function syntheticUniverse() {
+  const data = [];
+  for (let i = 0; i < COMPANIES; i++) {
+    const financials = {};
+    for (const metric of METRICS) {
+      financials[metric] = {};
+      for (let year = FIRST_YEAR; year <= LAST_YEAR; year++) {
+        financials[metric][year] = (i + 1) * 1000 + (year - FIRST_YEAR) * 37.5;
+      }
+    }
+    data.push({
+      Ticker: `CO${i}`,
+      ISIN: `INE${String(i).padStart(8, '0')}1`,
+      'Company name': `Company ${i} Ltd.`,
+      Financials: financials
+    });
+  }
+  return data;
+}
+
+function time(label, fn) {
+  const started = process.hrtime.bigint();
+  const result = fn();
+  const ms = Number(process.hrtime.bigint() - started) / 1e6;
+  console.log(`${label.padEnd(28)} ${ms.toFixed(1).padStart(9)} ms`);
+  return { ms, result };
+}
+
+const raw = syntheticUniverse();
+const queries = Array.from({ length: LOOKUPS }, (_, i) => ({
+  company: `Company ${(i * 7919) % COMPANIES} Ltd.`,
+  metric: METRICS[i % METRICS.length].toLowerCase()
+}));
+
+console.log(`${COMPANIES} companies, ${METRICS.length} metrics, ${LAST_YEAR - FIRST_YEAR + 1} years\n`);
+
+const linear = time(`parse + filter x${LINEAR_LOOKUPS}`, () => {
+  let found = 0;
+  for (const { company, metric } of queries.slice(0, LINEAR_LOOKUPS)) {
+    const { records } = parseRecords(raw);
+    found += records
+      .filter(r => r.company.toLowerCase() === company.toLowerCase() && r.field === metric)
+      .map(r => ({ year: r.year, value: r.value }))
+      .sort((a, b) => a.year - b.year).length;
+  }
+  return found;
+});
+
+const build = time('build snapshot (once)', () => buildSnapshot(raw));
+const snapshot = build.result;
+
+const lookup = ({ company, metric }) => {
+  const info = snapshot.findByName(company);
+  return snapshot.getSeries(info.ticker, metric).length;
+};
+
+const sample = queries.slice(0, LINEAR_LOOKUPS).reduce((sum, q) => sum + lookup(q), 0);
+if (linear.result !== sample) {
+  console.error(`\nResult mismatch: linear found ${linear.result} points, indexed ${sample}`);
+  process.exit(1);
+}
+
+const indexed = time(`indexed lookups x${LOOKUPS}`, () => queries.reduce((sum, q) => sum + lookup(q), 0));
+
+const linearPerLookup = linear.ms / LINEAR_LOOKUPS;
+const indexedPerLookup = indexed.ms / LOOKUPS;
+const speedup = linearPerLookup / Math.max(indexedPerLookup, 1e-6);
+console.log(`\nPer lookup: ${linearPerLookup.toFixed(3)} ms linear vs ${indexedPerLookup.toFixed(4)} ms indexed`);
+console.log(`Speedup: ${speedup.toFixed(0)}x (snapshot build costs ~${(build.ms / linearPerLookup).toFixed(1)} linear lookups)`);
+
+if (speedup < MIN_SPEEDUP) {
+  console.error(`Expected at least ${MIN_SPEEDUP}x`);
+  process.exit(1);
+}
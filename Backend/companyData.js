@@ -7,6 +7,7 @@ export const companyData =
       "Ticker": "INFY",
       "ISIN": "INE009A01021",
       "Company name": "Infosys Ltd.",
+      "Industry": "it_services",
       "Financials": {
         "SALES": {
           "2024": 1536700.0,
@@ -92,6 +93,7 @@ export const companyData =
       "Ticker": "WIPRO",
       "ISIN": "INE075A01022",
       "Company name": "Wipro Ltd.",
+      "Industry": "it_services",
       "Financials": {
         "SALES": {
           "2024": 890884.0,
@@ -180,6 +182,7 @@ export const companyData =
       "Ticker": "HCLTECH",
       "ISIN": "INE860A01027",
       "Company name": "HCL Technologies Ltd.",
+      "Industry": "it_services",
       "Financials": {
         "SALES": {
           "2024": 1170550.0,
@@ -268,6 +271,7 @@ export const companyData =
       "Ticker": "TCS",
       "ISIN": "INE467B01029",
       "Company name": "Tata Consultancy Services Ltd.",
+      "Industry": "it_services",
       "Financials": {
         "SALES": {
           "2024": 2553240.0,
@@ -353,6 +357,7 @@ export const companyData =
       "Ticker": "TECHM",
       "ISIN": "INE669C01036",
       "Company name": "Tech Mahindra Ltd.",
+      "Industry": "it_services",
       "Financials": {
         "SALES": {
           "2024": 529883.0,
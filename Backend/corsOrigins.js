@@ -0,0 +1,30 @@
+// Browser origins allowed to call the API. CORS_ORIGINS is a comma-separated
+// list of origins such as https://app.example.com; '*' allows any origin and
+// https://*.example.com any subdomain of example.com. Requests without an
+// Origin header (curl, partner servers) aren't affected either way.
+export const DEFAULT_CORS_ORIGINS = 'http://localhost:5173,http://127.0.0.1:5173';
+
+export function parseOrigins(value) {
+  return String(value || '')
+    .split(',')
+    .map(origin => origin.trim().replace(/\/+$/, ''))
+    .filter(Boolean);
+}
+
+// The `origin` option for the cors middleware
+export function originChecker(allowed) {
+  if (allowed.includes('*')) return true;
+  const exact = new Set(allowed.filter(origin => !origin.includes('*')));
+  const suffixes = allowed
+    .filter(origin => origin.includes('://*.'))
+    .map(origin => {
+      const [scheme, host] = origin.split('://*.');
+      return { scheme: `${scheme}://`, host: `.${host}` };
+    });
+
+  return (origin, callback) => {
+    const ok = !origin || exact.has(origin) ||
+      suffixes.some(({ scheme, host }) => origin.startsWith(scheme) && origin.endsWith(host));
+    callback(null, ok);
+  };
+}
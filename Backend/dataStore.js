@@ -0,0 +1,153 @@
+// In-memory data store: parses the raw company entries once into an
+// immutable, indexed snapshot. Reloading builds a complete new snapshot and
+// swaps it in with a single assignment, so requests never observe a
+// half-built index.
+import crypto from 'crypto';
+import { parsePeriodKey, rollUpAnnual, trailingTwelveMonths } from './periods.js';
+import { lookupMetric } from './metricCatalog.js';
+import { classify } from './sectors.js';
+
+// Flattens companyData-shaped entries into { company, ticker, field, year,
+// quarter, value } records; quarter is null for annual values
+export function parseRecords(rawData) {
+  const companies = [];
+  const metrics = new Set();
+  const records = [];
+
+  for (const entry of rawData) {
+    const ticker = entry.Ticker || '';
+    const companyName = entry['Company name'] || '';
+
+    if (!ticker || !companyName) continue;
+
+    companies.push({ name: companyName, ticker, isin: entry.ISIN || '', ...classify(entry.Industry) });
+
+    const financials = entry.Financials || {};
+
+    for (const [metric, years] of Object.entries(financials)) {
+      if (!years || typeof years !== 'object') continue;
+
+      metrics.add(metric);
+
+      for (const [key, value] of Object.entries(years)) {
+        if (typeof value !== 'number') continue;
+
+        const period = parsePeriodKey(key);
+        if (!period) continue;
+
+        records.push({
+          company: companyName,
+          ticker: ticker,
+          field: metric.toLowerCase(),
+          year: period.year,
+          quarter: period.quarter,
+          value: value
+        });
+      }
+    }
+  }
+
+  return { companies, metrics: Array.from(metrics).sort(), records };
+}
+
+export function buildSnapshot(rawData, version = 1) {
+  const { companies, metrics, records } = parseRecords(rawData);
+
+  const byName = new Map();
+  const byTicker = new Map();
+  const byIsin = new Map();
+  for (const company of companies) {
+    byName.set(company.name.toLowerCase(), company);
+    byTicker.set(company.ticker.toUpperCase(), company);
+    if (company.isin) byIsin.set(company.isin.toUpperCase(), company);
+  }
+
+  // ticker -> field -> { annual, quarterly, ttm } points, sorted by period.
+  // Annual includes fiscal years rolled up from four reported quarters.
+  const series = new Map();
+  for (const r of records) {
+    let fields = series.get(r.ticker);
+    if (!fields) {
+      fields = new Map();
+      series.set(r.ticker, fields);
+    }
+    let periods = fields.get(r.field);
+    if (!periods) {
+      periods = { annual: [], quarterly: [] };
+      fields.set(r.field, periods);
+    }
+    if (r.quarter) {
+      periods.quarterly.push({ year: r.year, quarter: r.quarter, value: r.value });
+    } else {
+      periods.annual.push({ year: r.year, value: r.value });
+    }
+  }
+  for (const fields of series.values()) {
+    for (const [field, periods] of fields) {
+      periods.quarterly.sort((a, b) => a.year - b.year || a.quarter - b.quarter);
+      const { aggregation } = lookupMetric(field);
+      const annual = rollUpAnnual(periods.annual, periods.quarterly, aggregation);
+      const ttm = trailingTwelveMonths(periods.quarterly, aggregation);
+      fields.set(field, {
+        annual: annual.length ? Object.freeze(annual) : null,
+        quarterly: periods.quarterly.length ? Object.freeze(periods.quarterly) : null,
+        ttm: ttm.length ? Object.freeze(ttm) : null
+      });
+    }
+  }
+
+  const companyNames = companies.map(c => c.name).sort();
+
+  return Object.freeze({
+    version,
+    // Identifies the data itself, unlike `version`, which restarts with the
+    // process; HTTP caching keys on it
+    hash: crypto.createHash('sha1').update(JSON.stringify(rawData)).digest('hex').slice(0, 16),
+    builtAt: new Date().toISOString(),
+    records,
+    companies: companyNames,
+    companyInfo: companyNames.map(name => byName.get(name.toLowerCase())),
+    metrics,
+
+    findByName(name) {
+      return byName.get(String(name || '').trim().toLowerCase()) || null;
+    },
+
+    findByTicker(ticker) {
+      return byTicker.get(String(ticker || '').trim().toUpperCase()) || null;
+    },
+
+    findByIsin(isin) {
+      return byIsin.get(String(isin || '').trim().toUpperCase()) || null;
+    },
+
+    // Points for one company/metric and period type ('annual', 'quarterly'
+    // or 'ttm'), or null when the company lacks them
+    getSeries(ticker, metric, period = 'annual') {
+      return series.get(ticker)?.get(String(metric).toLowerCase())?.[period] || null;
+    }
+  });
+}
+
+export function createDataStore(loadRawData) {
+  let snapshot = null;
+  let version = 0;
+
+  return {
+    reload() {
+      const next = buildSnapshot(loadRawData(), version + 1);
+      version = next.version;
+      snapshot = next;
+      return snapshot;
+    },
+
+    current() {
+      return snapshot || this.reload();
+    },
+
+    // The loaded snapshot, or null before the first successful load
+    peek() {
+      return snapshot;
+    }
+  };
+}
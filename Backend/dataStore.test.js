@@ -0,0 +1,27 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildSnapshot } from './dataStore.js';
+
+// The seed data only has P&L items, so balance-sheet and cash-flow metrics
+// are tried on a workbook-shaped company of their own
+const company = {
+  'Company name': 'Example Ltd.',
+  Ticker: 'EXMPL',
+  ISIN: 'INE000000000',
+  Financials: {
+    TOTAL_ASSETS: { '2024Q1': 100, '2024Q2': 110, '2024Q3': 120, '2024Q4': 130 },
+    OPERATING_CASH_FLOW: { '2024Q1': 10, '2024Q2': 20, '2024Q3': 30, '2024Q4': 40 }
+  }
+};
+
+test('a balance-sheet item rolls up to its Q4 balance', () => {
+  const snapshot = buildSnapshot([company]);
+  assert.deepEqual(snapshot.getSeries('EXMPL', 'TOTAL_ASSETS', 'annual'), [{ year: 2024, value: 130, source: 'quarters' }]);
+  assert.deepEqual(snapshot.getSeries('EXMPL', 'TOTAL_ASSETS', 'ttm').map(p => p.value), [100, 110, 120, 130]);
+});
+
+test('a cash-flow item rolls up to the sum of its quarters', () => {
+  const snapshot = buildSnapshot([company]);
+  assert.deepEqual(snapshot.getSeries('EXMPL', 'OPERATING_CASH_FLOW', 'annual'), [{ year: 2024, value: 100, source: 'quarters' }]);
+  assert.deepEqual(snapshot.getSeries('EXMPL', 'OPERATING_CASH_FLOW', 'ttm').map(p => p.value), [100]);
+});
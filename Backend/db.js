@@ -0,0 +1,669 @@
+// Embedded SQLite database (via sql.js, so no native build is needed) holding
+// companies, metrics, yearly and quarterly values, chart annotations, and
+// alert rules with the alerts they raised. The
+// database runs in memory and is written back to its file after every change;
+// the write goes to a temp file first and is renamed into place so a crash
+// never leaves half a database.
+import fs from 'fs';
+import path from 'path';
+import initSqlJs from 'sql.js';
+import { companyData } from './companyData.js';
+import { parsePeriodKey, periodKey } from './periods.js';
+
+// financial_values.quarter is 0 for annual values so it can be part of the
+// primary key; the repository API uses null like the rest of the server
+const ANNUAL = 0;
+
+// Events behind discontinuities in the embedded data
+const SEED_ANNOTATIONS = [
+  {
+    ticker: 'TECHM',
+    year: 2013,
+    kind: 'merger',
+    title: 'Mahindra Satyam merger',
+    description: 'Mahindra Satyam (formerly Satyam Computer Services) merged into Tech Mahindra; figures from FY13 include the combined business.'
+  }
+];
+
+// Applied in order; each runs once and is recorded in schema_migrations
+const MIGRATIONS = [
+  {
+    version: 1,
+    name: 'create_schema',
+    up(db) {
+      db.run(`
+        CREATE TABLE companies (
+          id INTEGER PRIMARY KEY,
+          ticker TEXT NOT NULL UNIQUE,
+          isin TEXT NOT NULL DEFAULT '',
+          name TEXT NOT NULL
+        );
+        CREATE TABLE metrics (
+          id INTEGER PRIMARY KEY,
+          key TEXT NOT NULL UNIQUE
+        );
+        CREATE TABLE financial_values (
+          company_id INTEGER NOT NULL REFERENCES companies(id),
+          metric_id INTEGER NOT NULL REFERENCES metrics(id),
+          year INTEGER NOT NULL,
+          value REAL NOT NULL,
+          PRIMARY KEY (company_id, metric_id, year)
+        );
+        CREATE TABLE audit_log (
+          id INTEGER PRIMARY KEY,
+          at TEXT NOT NULL,
+          actor TEXT NOT NULL,
+          action TEXT NOT NULL,
+          entity TEXT NOT NULL,
+          ticker TEXT NOT NULL,
+          metric TEXT,
+          year INTEGER,
+          old_value TEXT,
+          new_value TEXT
+        );
+        CREATE INDEX audit_log_ticker ON audit_log (ticker, id);
+      `);
+    }
+  },
+  {
+    version: 2,
+    name: 'seed_company_data',
+    up(db) {
+      for (const entry of companyData) {
+        insertCompanyRow(db, {
+          ticker: entry.Ticker,
+          isin: entry.ISIN,
+          name: entry['Company name'],
+          financials: entry.Financials
+        });
+      }
+    }
+  },
+  {
+    version: 3,
+    name: 'add_quarters',
+    up(db) {
+      db.run(`
+        CREATE TABLE financial_values_new (
+          company_id INTEGER NOT NULL REFERENCES companies(id),
+          metric_id INTEGER NOT NULL REFERENCES metrics(id),
+          year INTEGER NOT NULL,
+          quarter INTEGER NOT NULL DEFAULT ${ANNUAL},
+          value REAL NOT NULL,
+          PRIMARY KEY (company_id, metric_id, year, quarter)
+        );
+        INSERT INTO financial_values_new (company_id, metric_id, year, value)
+          SELECT company_id, metric_id, year, value FROM financial_values;
+        DROP TABLE financial_values;
+        ALTER TABLE financial_values_new RENAME TO financial_values;
+        ALTER TABLE audit_log ADD COLUMN quarter INTEGER;
+      `);
+    }
+  },
+  {
+    version: 4,
+    name: 'add_industry',
+    up(db) {
+      db.run('ALTER TABLE companies ADD COLUMN industry TEXT');
+      for (const entry of companyData) {
+        if (entry.Industry) db.run('UPDATE companies SET industry = ? WHERE ticker = ?', [entry.Industry, entry.Ticker]);
+      }
+    }
+  },
+  {
+    version: 5,
+    name: 'create_annotations',
+    up(db) {
+      db.run(`
+        CREATE TABLE annotations (
+          id INTEGER PRIMARY KEY,
+          ticker TEXT NOT NULL,
+          year INTEGER NOT NULL,
+          quarter INTEGER,
+          kind TEXT NOT NULL,
+          title TEXT NOT NULL,
+          description TEXT NOT NULL DEFAULT '',
+          author TEXT,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        );
+        CREATE INDEX annotations_ticker ON annotations (ticker, year);
+      `);
+      const now = new Date().toISOString();
+      for (const a of SEED_ANNOTATIONS) {
+        db.run(`INSERT INTO annotations (ticker, year, kind, title, description, created_at, updated_at)
+                VALUES (?, ?, ?, ?, ?, ?, ?)`, [a.ticker, a.year, a.kind, a.title, a.description, now, now]);
+      }
+    }
+  },
+  {
+    version: 6,
+    name: 'create_alerts',
+    up(db) {
+      // triggered_period is the period key a rule last alerted for while its
+      // condition still holds. Alerts copy what they report so the history
+      // outlives the rule.
+      db.run(`
+        CREATE TABLE alert_rules (
+          id INTEGER PRIMARY KEY,
+          name TEXT NOT NULL,
+          ticker TEXT NOT NULL,
+          metric TEXT NOT NULL,
+          period TEXT NOT NULL,
+          condition TEXT NOT NULL,
+          threshold REAL NOT NULL,
+          author TEXT,
+          triggered_period TEXT,
+          created_at TEXT NOT NULL
+        );
+        CREATE TABLE alerts (
+          id INTEGER PRIMARY KEY,
+          rule_id INTEGER NOT NULL,
+          rule_name TEXT NOT NULL,
+          ticker TEXT NOT NULL,
+          metric TEXT NOT NULL,
+          year INTEGER NOT NULL,
+          quarter INTEGER,
+          value REAL NOT NULL,
+          rank INTEGER,
+          message TEXT NOT NULL,
+          triggered_at TEXT NOT NULL,
+          delivery TEXT NOT NULL,
+          delivery_error TEXT
+        );
+        CREATE INDEX alerts_rule ON alerts (rule_id, id);
+        CREATE INDEX alerts_ticker ON alerts (ticker, id);
+      `);
+    }
+  }
+];
+
+// Corporate events explain breaks in a series; notes are free text
+export const ANNOTATION_KINDS = ['merger', 'split', 'accounting_change', 'event', 'note'];
+export const MAX_ANNOTATION_TITLE = 120;
+export const MAX_ANNOTATION_DESCRIPTION = 2000;
+
+export const DEFAULT_AUDIT_LIMIT = 100;
+export const MAX_AUDIT_LIMIT = 1000;
+
+function all(db, sql, params = []) {
+  const stmt = db.prepare(sql);
+  try {
+    stmt.bind(params);
+    const rows = [];
+    while (stmt.step()) rows.push(stmt.getAsObject());
+    return rows;
+  } finally {
+    stmt.free();
+  }
+}
+
+function get(db, sql, params = []) {
+  return all(db, sql, params)[0] || null;
+}
+
+function inTransaction(db, fn) {
+  db.run('BEGIN');
+  try {
+    const result = fn();
+    db.run('COMMIT');
+    return result;
+  } catch (error) {
+    db.run('ROLLBACK');
+    throw error;
+  }
+}
+
+function metricId(db, key) {
+  db.run('INSERT OR IGNORE INTO metrics (key) VALUES (?)', [key]);
+  return get(db, 'SELECT id FROM metrics WHERE key = ?', [key]).id;
+}
+
+// Inserts a company and its values; returns the inserted values so callers
+// can audit them. Runs before migrations 3 and 4 when seeding, so the quarter
+// and industry columns are only named when there is a value to store.
+function insertCompanyRow(db, { ticker, isin, name, industry = null, financials = {} }) {
+  if (industry) {
+    db.run('INSERT INTO companies (ticker, isin, name, industry) VALUES (?, ?, ?, ?)', [ticker, isin || '', name, industry]);
+  } else {
+    db.run('INSERT INTO companies (ticker, isin, name) VALUES (?, ?, ?)', [ticker, isin || '', name]);
+  }
+  const companyId = get(db, 'SELECT last_insert_rowid() AS id').id;
+  const values = [];
+  for (const [metric, years] of Object.entries(financials)) {
+    const id = metricId(db, metric.toUpperCase());
+    for (const [key, value] of Object.entries(years || {})) {
+      const period = parsePeriodKey(key);
+      if (!period || typeof value !== 'number' || !Number.isFinite(value)) continue;
+      if (period.quarter) {
+        db.run('INSERT INTO financial_values (company_id, metric_id, year, quarter, value) VALUES (?, ?, ?, ?, ?)',
+          [companyId, id, period.year, period.quarter, value]);
+      } else {
+        db.run('INSERT INTO financial_values (company_id, metric_id, year, value) VALUES (?, ?, ?, ?)',
+          [companyId, id, period.year, value]);
+      }
+      values.push({ metric: metric.toUpperCase(), ...period, value });
+    }
+  }
+  return values;
+}
+
+function migrate(db) {
+  db.run('CREATE TABLE IF NOT EXISTS schema_migrations (version INTEGER PRIMARY KEY, name TEXT NOT NULL, applied_at TEXT NOT NULL)');
+  const applied = new Set(all(db, 'SELECT version FROM schema_migrations').map(r => r.version));
+  const ran = [];
+  for (const migration of MIGRATIONS) {
+    if (applied.has(migration.version)) continue;
+    inTransaction(db, () => {
+      migration.up(db);
+      db.run('INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)',
+        [migration.version, migration.name, new Date().toISOString()]);
+    });
+    ran.push(migration.name);
+  }
+  return ran;
+}
+
+function toAnnotation(row) {
+  return {
+    id: row.id,
+    ticker: row.ticker,
+    year: row.year,
+    quarter: row.quarter ?? null,
+    kind: row.kind,
+    title: row.title,
+    description: row.description,
+    author: row.author ?? null,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+function toAlertRule(row) {
+  return {
+    id: row.id,
+    name: row.name,
+    ticker: row.ticker,
+    metric: row.metric,
+    period: row.period,
+    condition: row.condition,
+    threshold: row.threshold,
+    author: row.author ?? null,
+    triggeredPeriod: row.triggered_period ?? null,
+    createdAt: row.created_at
+  };
+}
+
+function toAlert(row) {
+  return {
+    id: row.id,
+    ruleId: row.rule_id,
+    ruleName: row.rule_name,
+    ticker: row.ticker,
+    metric: row.metric,
+    year: row.year,
+    quarter: row.quarter ?? null,
+    value: row.value,
+    rank: row.rank ?? null,
+    message: row.message,
+    triggeredAt: row.triggered_at,
+    delivery: row.delivery,
+    deliveryError: row.delivery_error ?? null
+  };
+}
+
+function toAuditEntry(row) {
+  return {
+    id: row.id,
+    at: row.at,
+    actor: row.actor,
+    action: row.action,
+    entity: row.entity,
+    ticker: row.ticker,
+    metric: row.metric,
+    year: row.year,
+    quarter: row.quarter ?? null,
+    oldValue: row.old_value === null ? null : JSON.parse(row.old_value),
+    newValue: row.new_value === null ? null : JSON.parse(row.new_value)
+  };
+}
+
+// Opens (or creates) the database file and applies pending migrations.
+// Returns the repository used by the server; tickers and metric keys are
+// matched case-insensitively and stored upper-case.
+export async function openDatabase(file) {
+  const SQL = await initSqlJs();
+  const db = fs.existsSync(file) ? new SQL.Database(fs.readFileSync(file)) : new SQL.Database();
+  const migrations = migrate(db);
+
+  function save() {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    const tmp = `${file}.tmp`;
+    fs.writeFileSync(tmp, Buffer.from(db.export()));
+    fs.renameSync(tmp, file);
+  }
+  if (migrations.length > 0 || !fs.existsSync(file)) save();
+
+  function audit(actor, action, entity, { ticker, metric = null, year = null, quarter = null, oldValue = null, newValue = null }) {
+    db.run(
+      `INSERT INTO audit_log (at, actor, action, entity, ticker, metric, year, quarter, old_value, new_value)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [new Date().toISOString(), actor, action, entity, ticker, metric, year, quarter,
+        oldValue === null ? null : JSON.stringify(oldValue),
+        newValue === null ? null : JSON.stringify(newValue)]
+    );
+  }
+
+  // Runs a change and the audit rows describing it atomically, then persists
+  function change(fn) {
+    const result = inTransaction(db, fn);
+    save();
+    return result;
+  }
+
+  // Audit rows for a company inserted by insertCompanyRow and its values
+  function auditInserted(actor, { ticker, name, isin, industry }, values) {
+    audit(actor, 'create', 'company', { ticker, newValue: { name, isin, industry } });
+    for (const v of values) {
+      audit(actor, 'create', 'value', { ticker, metric: v.metric, year: v.year, quarter: v.quarter, newValue: v.value });
+    }
+  }
+
+  // Upserts one value and audits it; `previous` is the value it replaces (or null)
+  function writeValue(row, key, { year, quarter }, value, previous, actor) {
+    db.run(`INSERT INTO financial_values (company_id, metric_id, year, quarter, value) VALUES (?, ?, ?, ?, ?)
+            ON CONFLICT (company_id, metric_id, year, quarter) DO UPDATE SET value = excluded.value`,
+    [row.id, metricId(db, key), year, quarter || ANNUAL, value]);
+    audit(actor, previous === null ? 'create' : 'update', 'value', {
+      ticker: row.ticker, metric: key, year, quarter, oldValue: previous, newValue: value
+    });
+  }
+
+  const companyRow = (ticker) =>
+    get(db, 'SELECT id, ticker, isin, name, industry FROM companies WHERE ticker = ?', [String(ticker).toUpperCase()]);
+  const toCompany = (row) => ({ name: row.name, ticker: row.ticker, isin: row.isin, industry: row.industry ?? null });
+
+  return {
+    file,
+    migrations,
+
+    // All companies in the companyData shape the rest of the server consumes
+    readCompanyData() {
+      const entries = new Map();
+      for (const c of all(db, 'SELECT id, ticker, isin, name, industry FROM companies ORDER BY name')) {
+        entries.set(c.id, {
+          Ticker: c.ticker,
+          ISIN: c.isin,
+          'Company name': c.name,
+          ...(c.industry ? { Industry: c.industry } : {}),
+          Financials: {}
+        });
+      }
+      const values = all(db, `
+        SELECT v.company_id, m.key, v.year, v.quarter, v.value
+        FROM financial_values v JOIN metrics m ON m.id = v.metric_id
+        ORDER BY v.year, v.quarter`);
+      for (const v of values) {
+        const financials = entries.get(v.company_id).Financials;
+        (financials[v.key] ||= {})[periodKey(v)] = v.value;
+      }
+      return Array.from(entries.values());
+    },
+
+    getCompany(ticker) {
+      const row = companyRow(ticker);
+      return row ? toCompany(row) : null;
+    },
+
+    findCompanyByName(name) {
+      const row = get(db, 'SELECT ticker, isin, name, industry FROM companies WHERE lower(name) = lower(?)', [String(name).trim()]);
+      return row ? toCompany(row) : null;
+    },
+
+    // `period` is { year, quarter } with quarter null for the annual value
+    getValue(ticker, metric, { year, quarter = null }) {
+      const row = get(db, `
+        SELECT v.value FROM financial_values v
+        JOIN companies c ON c.id = v.company_id
+        JOIN metrics m ON m.id = v.metric_id
+        WHERE c.ticker = ? AND m.key = ? AND v.year = ? AND v.quarter = ?`,
+      [String(ticker).toUpperCase(), String(metric).toUpperCase(), year, quarter || ANNUAL]);
+      return row ? row.value : null;
+    },
+
+    createCompany({ ticker, isin = '', name, industry = null, financials = {} }, actor) {
+      const upper = ticker.toUpperCase();
+      return change(() => {
+        const values = insertCompanyRow(db, { ticker: upper, isin, name, industry, financials });
+        auditInserted(actor, { ticker: upper, name, isin, industry }, values);
+        return { company: { name, ticker: upper, isin, industry }, values: values.length };
+      });
+    },
+
+    // `changes.industry` may be null to clear the classification
+    updateCompany(ticker, changes, actor) {
+      const row = companyRow(ticker);
+      const next = {
+        name: changes.name ?? row.name,
+        isin: changes.isin ?? row.isin,
+        industry: changes.industry !== undefined ? changes.industry : row.industry ?? null
+      };
+      return change(() => {
+        db.run('UPDATE companies SET name = ?, isin = ?, industry = ? WHERE id = ?', [next.name, next.isin, next.industry, row.id]);
+        audit(actor, 'update', 'company', {
+          ticker: row.ticker,
+          oldValue: { name: row.name, isin: row.isin, industry: row.industry ?? null },
+          newValue: next
+        });
+        return { name: next.name, ticker: row.ticker, isin: next.isin, industry: next.industry };
+      });
+    },
+
+    // Removes the company and all of its values; the audit row keeps a copy
+    deleteCompany(ticker, actor) {
+      const row = companyRow(ticker);
+      const entry = this.readCompanyData().find(c => c.Ticker === row.ticker);
+      return change(() => {
+        db.run('DELETE FROM financial_values WHERE company_id = ?', [row.id]);
+        db.run('DELETE FROM companies WHERE id = ?', [row.id]);
+        audit(actor, 'delete', 'company', {
+          ticker: row.ticker,
+          oldValue: { name: row.name, isin: row.isin, industry: row.industry ?? null, financials: entry.Financials }
+        });
+      });
+    },
+
+    // Creates or corrects one year's (or quarter's) value; returns the
+    // previous value (or null)
+    setValue(ticker, metric, { year, quarter = null }, value, actor) {
+      const row = companyRow(ticker);
+      const key = metric.toUpperCase();
+      const previous = this.getValue(row.ticker, key, { year, quarter });
+      return change(() => {
+        writeValue(row, key, { year, quarter }, value, previous, actor);
+        return previous;
+      });
+    },
+
+    // Writes parsed workbook entries (the companyData shape) in one
+    // transaction. New companies are created; existing ones get the values
+    // that differ, an ISIN when they had none and the workbook's industry.
+    // Unchanged values write no audit rows. Returns what was written.
+    importCompanyData(entries, actor) {
+      return change(() => {
+        const result = { companies: 0, values: 0 };
+        for (const entry of entries) {
+          const ticker = entry.Ticker.toUpperCase();
+          const industry = entry.Industry || null;
+          const row = companyRow(ticker);
+          if (!row) {
+            const company = { ticker, isin: entry.ISIN || '', name: entry['Company name'], industry };
+            const values = insertCompanyRow(db, { ...company, financials: entry.Financials });
+            auditInserted(actor, company, values);
+            result.companies += 1;
+            result.values += values.length;
+            continue;
+          }
+
+          const next = { name: row.name, isin: row.isin || entry.ISIN || '', industry: industry ?? row.industry ?? null };
+          if (next.isin !== row.isin || next.industry !== (row.industry ?? null)) {
+            db.run('UPDATE companies SET isin = ?, industry = ? WHERE id = ?', [next.isin, next.industry, row.id]);
+            audit(actor, 'update', 'company', {
+              ticker: row.ticker,
+              oldValue: { name: row.name, isin: row.isin, industry: row.industry ?? null },
+              newValue: next
+            });
+          }
+          for (const [metric, years] of Object.entries(entry.Financials || {})) {
+            const key = metric.toUpperCase();
+            for (const [periodText, value] of Object.entries(years || {})) {
+              const period = parsePeriodKey(periodText);
+              if (!period || typeof value !== 'number' || !Number.isFinite(value)) continue;
+              const previous = this.getValue(row.ticker, key, period);
+              if (previous === value) continue;
+              writeValue(row, key, period, value, previous, actor);
+              result.values += 1;
+            }
+          }
+        }
+        return result;
+      });
+    },
+
+    deleteValue(ticker, metric, { year, quarter = null }, actor) {
+      const row = companyRow(ticker);
+      const key = metric.toUpperCase();
+      const previous = this.getValue(row.ticker, key, { year, quarter });
+      return change(() => {
+        db.run(`DELETE FROM financial_values
+                WHERE company_id = ? AND year = ? AND quarter = ?
+                  AND metric_id = (SELECT id FROM metrics WHERE key = ?)`,
+        [row.id, year, quarter || ANNUAL, key]);
+        audit(actor, 'delete', 'value', { ticker: row.ticker, metric: key, year, quarter, oldValue: previous });
+        return previous;
+      });
+    },
+
+    // Annotations for the given tickers (all when empty), in period order
+    listAnnotations({ tickers = [], kind = null } = {}) {
+      const where = [];
+      const params = [];
+      if (tickers.length > 0) {
+        where.push(`ticker IN (${tickers.map(() => '?').join(', ')})`);
+        params.push(...tickers.map(t => t.toUpperCase()));
+      }
+      if (kind) {
+        where.push('kind = ?');
+        params.push(kind);
+      }
+      const rows = all(db, `SELECT * FROM annotations ${where.length ? `WHERE ${where.join(' AND ')}` : ''}
+                            ORDER BY ticker, year, coalesce(quarter, 0), id`, params);
+      return rows.map(toAnnotation);
+    },
+
+    getAnnotation(id) {
+      const row = get(db, 'SELECT * FROM annotations WHERE id = ?', [id]);
+      return row ? toAnnotation(row) : null;
+    },
+
+    createAnnotation({ ticker, year, quarter = null, kind, title, description = '', author = null }) {
+      const now = new Date().toISOString();
+      return change(() => {
+        db.run(`INSERT INTO annotations (ticker, year, quarter, kind, title, description, author, created_at, updated_at)
+                VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [ticker.toUpperCase(), year, quarter, kind, title, description, author, now, now]);
+        return this.getAnnotation(get(db, 'SELECT last_insert_rowid() AS id').id);
+      });
+    },
+
+    // `changes` replaces the given fields; quarter and author may be null
+    updateAnnotation(id, changes) {
+      const next = { ...this.getAnnotation(id) };
+      for (const field of ['ticker', 'year', 'quarter', 'kind', 'title', 'description', 'author']) {
+        if (changes[field] !== undefined) next[field] = changes[field];
+      }
+      return change(() => {
+        db.run(`UPDATE annotations SET ticker = ?, year = ?, quarter = ?, kind = ?, title = ?, description = ?, author = ?,
+                updated_at = ? WHERE id = ?`,
+        [next.ticker.toUpperCase(), next.year, next.quarter, next.kind, next.title, next.description, next.author,
+          new Date().toISOString(), id]);
+        return this.getAnnotation(id);
+      });
+    },
+
+    deleteAnnotation(id) {
+      change(() => db.run('DELETE FROM annotations WHERE id = ?', [id]));
+    },
+
+    listAlertRules() {
+      return all(db, 'SELECT * FROM alert_rules ORDER BY id').map(toAlertRule);
+    },
+
+    getAlertRule(id) {
+      const row = get(db, 'SELECT * FROM alert_rules WHERE id = ?', [id]);
+      return row ? toAlertRule(row) : null;
+    },
+
+    createAlertRule({ name, ticker, metric, period, condition, threshold, author = null }) {
+      return change(() => {
+        db.run(`INSERT INTO alert_rules (name, ticker, metric, period, condition, threshold, author, created_at)
+                VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+        [name, ticker.toUpperCase(), metric.toUpperCase(), period, condition, threshold, author, new Date().toISOString()]);
+        return this.getAlertRule(get(db, 'SELECT last_insert_rowid() AS id').id);
+      });
+    },
+
+    // Alerts the rule raised stay in the history
+    deleteAlertRule(id) {
+      change(() => db.run('DELETE FROM alert_rules WHERE id = ?', [id]));
+    },
+
+    // Records the alert `rule` raised for `result` (see evaluateRule in
+    // alerts.js) and marks the rule as triggered for `periodKey`
+    recordAlert(rule, result, periodKey, delivery) {
+      return change(() => {
+        db.run(`INSERT INTO alerts (rule_id, rule_name, ticker, metric, year, quarter, value, rank, message, triggered_at, delivery)
+                VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [rule.id, rule.name, rule.ticker, rule.metric, result.year, result.quarter, result.value, result.rank,
+          result.message, new Date().toISOString(), delivery]);
+        const id = get(db, 'SELECT last_insert_rowid() AS id').id;
+        db.run('UPDATE alert_rules SET triggered_period = ? WHERE id = ?', [periodKey, rule.id]);
+        return toAlert(get(db, 'SELECT * FROM alerts WHERE id = ?', [id]));
+      });
+    },
+
+    // The condition no longer holds, so the next breach alerts again
+    clearAlertRule(id) {
+      change(() => db.run('UPDATE alert_rules SET triggered_period = NULL WHERE id = ?', [id]));
+    },
+
+    setAlertDelivery(id, delivery, error = null) {
+      change(() => db.run('UPDATE alerts SET delivery = ?, delivery_error = ? WHERE id = ?', [delivery, error, id]));
+    },
+
+    // Newest first
+    listAlerts({ ruleId = null, ticker = null, limit }) {
+      const where = [];
+      const params = [];
+      if (ruleId !== null) {
+        where.push('rule_id = ?');
+        params.push(ruleId);
+      }
+      if (ticker) {
+        where.push('ticker = ?');
+        params.push(ticker.toUpperCase());
+      }
+      const rows = all(db, `SELECT * FROM alerts ${where.length ? `WHERE ${where.join(' AND ')}` : ''}
+                            ORDER BY id DESC LIMIT ?`, [...params, limit]);
+      return rows.map(toAlert);
+    },
+
+    // Newest first
+    listAudit({ ticker = null, limit = DEFAULT_AUDIT_LIMIT } = {}) {
+      const rows = ticker
+        ? all(db, 'SELECT * FROM audit_log WHERE ticker = ? ORDER BY id DESC LIMIT ?', [ticker.toUpperCase(), limit])
+        : all(db, 'SELECT * FROM audit_log ORDER BY id DESC LIMIT ?', [limit]);
+      return rows.map(toAuditEntry);
+    }
+  };
+}
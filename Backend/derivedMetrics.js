@@ -0,0 +1,123 @@
+// Derived metrics computed on the fly from the stored base series.
+// Keys follow the base metric naming: EBITDA_MARGIN, PAT_MARGIN,
+// <BASE>_YOY and <BASE>_CAGR_<n>Y (e.g. SALES_CAGR_5Y).
+import { lookupMetric } from './metricCatalog.js';
+
+const RATIO_METRICS = {
+  EBITDA_MARGIN: { name: 'EBITDA Margin', numerator: 'EBITDA', denominator: 'SALES' },
+  PAT_MARGIN: { name: 'PAT Margin', numerator: 'PAT', denominator: 'SALES' }
+};
+
+// CAGR windows advertised in /api/metrics; any 1-20 year window can be requested
+export const LISTED_CAGR_WINDOWS = [3, 5];
+export const MAX_CAGR_WINDOW = 20;
+
+const YOY_PATTERN = /^([A-Z0-9]+(?:_[A-Z0-9]+)*?)_YOY$/;
+const CAGR_PATTERN = /^([A-Z0-9]+(?:_[A-Z0-9]+)*?)_CAGR_(\d{1,2})Y$/;
+
+const PERCENT_DECIMALS = 4;
+
+function round(value) {
+  const factor = 10 ** PERCENT_DECIMALS;
+  return Math.round(value * factor) / factor;
+}
+
+const baseName = (metric) => lookupMetric(metric).name;
+
+// Returns the definition for a derived metric key, or null for base metrics
+export function resolveDerivedMetric(key) {
+  const upper = String(key || '').trim().toUpperCase();
+
+  if (RATIO_METRICS[upper]) {
+    const { name, numerator, denominator } = RATIO_METRICS[upper];
+    return {
+      key: upper,
+      name,
+      type: 'ratio',
+      unit: '%',
+      inputs: [numerator, denominator],
+      formula: `${numerator} / ${denominator} × 100`
+    };
+  }
+
+  const cagr = CAGR_PATTERN.exec(upper);
+  if (cagr) {
+    const base = cagr[1];
+    const window = parseInt(cagr[2], 10);
+    if (window < 1 || window > MAX_CAGR_WINDOW || RATIO_METRICS[base]) return null;
+    return {
+      key: upper,
+      name: `${baseName(base)} ${window}Y CAGR`,
+      type: 'cagr',
+      unit: '%',
+      inputs: [base],
+      window,
+      formula: `((${base}[t] / ${base}[t-${window}]) ^ (1/${window}) - 1) × 100`
+    };
+  }
+
+  const yoy = YOY_PATTERN.exec(upper);
+  if (yoy && !RATIO_METRICS[yoy[1]]) {
+    const base = yoy[1];
+    return {
+      key: upper,
+      name: `${baseName(base)} YoY Growth`,
+      type: 'yoy',
+      unit: '%',
+      inputs: [base],
+      formula: `(${base}[t] - ${base}[t-1]) / |${base}[t-1]| × 100`
+    };
+  }
+
+  return null;
+}
+
+// Derived metrics that can be computed from the given base metric keys
+export function listDerivedMetrics(baseMetrics) {
+  const available = new Set(baseMetrics.map(m => m.toUpperCase()));
+  const keys = [];
+
+  for (const [key, { numerator, denominator }] of Object.entries(RATIO_METRICS)) {
+    if (available.has(numerator) && available.has(denominator)) keys.push(key);
+  }
+  for (const base of Array.from(available).sort()) {
+    keys.push(`${base}_YOY`);
+    for (const window of LISTED_CAGR_WINDOWS) keys.push(`${base}_CAGR_${window}Y`);
+  }
+
+  return keys.map(resolveDerivedMetric);
+}
+
+// `inputs` maps each upper-case input metric to a Map of year -> value for
+// one company. Years where an input is missing come back with value null.
+export function computeDerivedSeries(definition, inputs) {
+  const series = definition.inputs.map(metric => inputs[metric] || new Map());
+
+  if (definition.type === 'ratio') {
+    const [numerator, denominator] = series;
+    const years = Array.from(new Set([...numerator.keys(), ...denominator.keys()])).sort((a, b) => a - b);
+    return years.map(year => {
+      const n = numerator.get(year);
+      const d = denominator.get(year);
+      const value = n === undefined || d === undefined || d === 0 ? null : round((n / d) * 100);
+      return { year, value };
+    });
+  }
+
+  const [base] = series;
+  const years = Array.from(base.keys()).sort((a, b) => a - b);
+  const lag = definition.type === 'cagr' ? definition.window : 1;
+
+  return years.map(year => {
+    const current = base.get(year);
+    const previous = base.get(year - lag);
+    if (previous === undefined || previous === 0) return { year, value: null };
+
+    if (definition.type === 'yoy') {
+      return { year, value: round(((current - previous) / Math.abs(previous)) * 100) };
+    }
+    // A CAGR is undefined when either end of the window is zero or negative
+    if (current <= 0 || previous < 0) return { year, value: null };
+    return { year, value: round((Math.pow(current / previous, 1 / lag) - 1) * 100) };
+  });
+}
@@ -0,0 +1,35 @@
+// Errors that routes and middleware throw (or pass to next()) to answer with
+// a non-2xx status. The error middleware in server.js renders every failure
+// in one envelope:
+//   { success: false, code, message, requestId, error, ...fields }
+// where `error` repeats the message for clients written before `code` and
+// `message` existed.
+
+export const ERROR_CODES = {
+  400: 'BAD_REQUEST',
+  401: 'UNAUTHORIZED',
+  404: 'NOT_FOUND',
+  409: 'CONFLICT',
+  413: 'PAYLOAD_TOO_LARGE',
+  422: 'UNPROCESSABLE',
+  429: 'RATE_LIMITED',
+  500: 'INTERNAL',
+  503: 'UNAVAILABLE'
+};
+
+// `fields` are extra envelope properties such as validation details; `code`
+// overrides the default for the status
+export class HttpError extends Error {
+  constructor(status, message, { code = ERROR_CODES[status] || 'ERROR', ...fields } = {}) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+    this.code = code;
+    this.fields = fields;
+  }
+}
+
+export const badRequest = (message, fields) => new HttpError(400, message, fields);
+export const notFound = (message, fields) => new HttpError(404, message, fields);
+export const conflict = (message, fields) => new HttpError(409, message, fields);
+export const unprocessable = (message, fields) => new HttpError(422, message, fields);
@@ -0,0 +1,64 @@
+// Series export to CSV/XLSX using the xlsx library
+import XLSX from 'xlsx';
+import { periodLabel } from './periods.js';
+
+export const EXPORT_FORMATS = {
+  csv: {
+    contentType: 'text/csv; charset=utf-8',
+    extension: 'csv'
+  },
+  xlsx: {
+    contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    extension: 'xlsx'
+  }
+};
+
+// Excel rejects sheet names longer than 31 characters or containing []:*?/\
+function toSheetName(name) {
+  return String(name || 'Data').replace(/[[\]:*?/\\]/g, ' ').slice(0, 31).trim() || 'Data';
+}
+
+function toFileSlug(value) {
+  return String(value || '').replace(/[^A-Za-z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'export';
+}
+
+// `series` is a list of { company, ticker, points } as returned by findSeries()
+export function buildExport({ metric, period = 'annual', unit = null, series }, format) {
+  const spec = EXPORT_FORMATS[format];
+  if (!spec) {
+    throw new Error(`Unsupported export format '${format}'`);
+  }
+
+  const quarterly = period !== 'annual';
+  const rows = series.flatMap(({ company, ticker, points }) => points.map(p => ({
+    Company: company,
+    Ticker: ticker,
+    Metric: metric.toUpperCase(),
+    Period: periodLabel(p),
+    Year: p.year,
+    ...(quarterly ? { Quarter: p.quarter } : {}),
+    Value: p.value,
+    Unit: unit?.label ?? ''
+  })));
+  const tickers = series.map(s => s.ticker || s.company);
+  const name = `${metric.toUpperCase()}${quarterly ? ` ${period.toUpperCase()}` : ''}`;
+
+  const sheet = XLSX.utils.json_to_sheet(rows, {
+    header: ['Company', 'Ticker', 'Metric', 'Period', 'Year', ...(quarterly ? ['Quarter'] : []), 'Value', 'Unit']
+  });
+
+  let body;
+  if (format === 'csv') {
+    body = Buffer.from(XLSX.utils.sheet_to_csv(sheet), 'utf-8');
+  } else {
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, sheet, toSheetName(`${tickers.join(' ')} ${name}`));
+    body = XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' });
+  }
+
+  return {
+    body,
+    contentType: spec.contentType,
+    filename: `${toFileSlug(tickers.join('_'))}_${toFileSlug(name)}.${spec.extension}`
+  };
+}
@@ -0,0 +1,141 @@
+// Projections past the last reported year for one series. Each method
+// returns point forecasts with a 95% band:
+//   linear  least-squares trend; band from the regression's prediction interval
+//   cagr    compound growth over the last CAGR_WINDOW years; band from the
+//           spread of yearly log growth, widening with sqrt(horizon)
+//   holt    Holt's linear exponential smoothing, alpha/beta picked by grid
+//           search on one-step errors; band from those errors
+// Bands use the normal approximation, which is loose for short histories.
+
+export const FORECAST_METHODS = ['linear', 'cagr', 'holt'];
+export const DEFAULT_HORIZON = 3;
+export const MAX_HORIZON = 10;
+export const MIN_HISTORY = 3;
+export const CONFIDENCE = 0.95;
+
+const Z = 1.96;
+const CAGR_WINDOW = 5;
+const SMOOTHING_GRID = [0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.7, 0.8, 0.9];
+const DECIMALS = 4;
+
+// Thrown when the series can't be projected with the chosen method
+export class ForecastError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'ForecastError';
+  }
+}
+
+function round(value) {
+  const factor = 10 ** DECIMALS;
+  return Math.round(value * factor) / factor;
+}
+
+const mean = (values) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+function linear(points, horizon) {
+  const n = points.length;
+  const xMean = mean(points.map(p => p.year));
+  const yMean = mean(points.map(p => p.value));
+  const sxx = points.reduce((sum, p) => sum + (p.year - xMean) ** 2, 0);
+  const slope = points.reduce((sum, p) => sum + (p.year - xMean) * (p.value - yMean), 0) / sxx;
+  const intercept = yMean - slope * xMean;
+  const residuals = points.map(p => p.value - (intercept + slope * p.year));
+  const s = Math.sqrt(residuals.reduce((sum, r) => sum + r * r, 0) / (n - 2 || 1));
+
+  const last = points[n - 1].year;
+  const forecast = Array.from({ length: horizon }, (_, i) => {
+    const year = last + i + 1;
+    const value = intercept + slope * year;
+    const margin = Z * s * Math.sqrt(1 + 1 / n + (year - xMean) ** 2 / sxx);
+    return { year, value, lower: value - margin, upper: value + margin };
+  });
+  return { forecast, params: { slope: round(slope), intercept: round(intercept) } };
+}
+
+function cagr(points, horizon) {
+  const recent = points.slice(-(CAGR_WINDOW + 1));
+  if (recent.some(p => p.value <= 0)) {
+    throw new ForecastError('CAGR extrapolation needs positive values over the last years');
+  }
+  const first = recent[0];
+  const last = recent[recent.length - 1];
+  const growth = (last.value / first.value) ** (1 / (last.year - first.year)) - 1;
+  const logGrowth = recent.slice(1).map((p, i) => Math.log(p.value / recent[i].value) / (p.year - recent[i].year));
+  const sigma = logGrowth.length > 1
+    ? Math.sqrt(logGrowth.reduce((sum, g) => sum + (g - mean(logGrowth)) ** 2, 0) / (logGrowth.length - 1))
+    : 0;
+
+  const forecast = Array.from({ length: horizon }, (_, i) => {
+    const h = i + 1;
+    const value = last.value * (1 + growth) ** h;
+    const spread = Math.exp(Z * sigma * Math.sqrt(h));
+    return { year: last.year + h, value, lower: value / spread, upper: value * spread };
+  });
+  return { forecast, params: { growth: round(growth * 100), window: last.year - first.year } };
+}
+
+// One pass of Holt's method; returns the final level/trend and the one-step errors
+function smooth(values, alpha, beta) {
+  let level = values[0];
+  let trend = values[1] - values[0];
+  const errors = [];
+  for (let i = 1; i < values.length; i++) {
+    const predicted = level + trend;
+    errors.push(values[i] - predicted);
+    const previousLevel = level;
+    level = alpha * values[i] + (1 - alpha) * predicted;
+    trend = beta * (level - previousLevel) + (1 - beta) * trend;
+  }
+  return { level, trend, errors };
+}
+
+function holt(points, horizon) {
+  const values = points.map(p => p.value);
+  let best = null;
+  for (const alpha of SMOOTHING_GRID) {
+    for (const beta of SMOOTHING_GRID) {
+      const fit = smooth(values, alpha, beta);
+      const sse = fit.errors.reduce((sum, e) => sum + e * e, 0);
+      if (!best || sse < best.sse) best = { alpha, beta, sse, ...fit };
+    }
+  }
+  const sigma = Math.sqrt(best.sse / best.errors.length);
+
+  const last = points[points.length - 1].year;
+  const forecast = Array.from({ length: horizon }, (_, i) => {
+    const h = i + 1;
+    const value = best.level + h * best.trend;
+    let variance = 1;
+    for (let j = 1; j < h; j++) variance += (best.alpha * (1 + j * best.beta)) ** 2;
+    const margin = Z * sigma * Math.sqrt(variance);
+    return { year: last + h, value, lower: value - margin, upper: value + margin };
+  });
+  return { forecast, params: { alpha: best.alpha, beta: best.beta } };
+}
+
+const METHODS = { linear, cagr, holt };
+
+// `points` are annual { year, value } points sorted by year; null values are
+// skipped. Throws ForecastError when there is too little history.
+export function forecastSeries(points, { method = 'linear', horizon = DEFAULT_HORIZON } = {}) {
+  const history = points.filter(p => p.value !== null);
+  if (history.length < MIN_HISTORY) {
+    throw new ForecastError(`At least ${MIN_HISTORY} reported years are needed to forecast (found ${history.length})`);
+  }
+
+  const { forecast, params } = METHODS[method](history, horizon);
+  return {
+    method,
+    horizon,
+    confidence: CONFIDENCE,
+    lastReportedYear: history[history.length - 1].year,
+    params,
+    points: forecast.map(p => ({
+      year: p.year,
+      value: round(p.value),
+      lower: round(Math.min(p.lower, p.value)),
+      upper: round(Math.max(p.upper, p.value))
+    }))
+  };
+}
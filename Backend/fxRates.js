@@ -0,0 +1,32 @@
+// Yearly average INR per USD, by fiscal year (April-March, named after the
+// year it ends in). Averages of the RBI reference rate, rounded to two
+// decimals. Add a year here before loading data for it, otherwise its USD
+// values come back as null.
+export const INR_PER_USD = {
+  2000: 43.33,
+  2001: 45.68,
+  2002: 47.69,
+  2003: 48.40,
+  2004: 45.95,
+  2005: 44.93,
+  2006: 44.27,
+  2007: 45.25,
+  2008: 40.24,
+  2009: 45.92,
+  2010: 47.42,
+  2011: 45.58,
+  2012: 47.92,
+  2013: 54.41,
+  2014: 60.50,
+  2015: 61.15,
+  2016: 65.46,
+  2017: 67.07,
+  2018: 64.45,
+  2019: 69.92,
+  2020: 70.88,
+  2021: 74.20,
+  2022: 74.51,
+  2023: 80.36,
+  2024: 82.78,
+  2025: 84.57
+};
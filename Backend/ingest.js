@@ -0,0 +1,234 @@
+// Workbook ingestion: turns .xlsx/.xls/.csv sheets laid out as
+// Ticker | ISIN | Company name | Field | 2024 | 2023 | ... into entries shaped
+// like the ones in companyData.js, with a per-row validation report. Period
+// columns may also be fiscal labels (FY24) or quarters (2024Q1, Q1 FY24).
+// An optional Industry column classifies the company (see sectors.js).
+import XLSX from 'xlsx';
+import fs from 'fs';
+import path from 'path';
+import { parsePeriodKey, periodKey } from './periods.js';
+import { resolveIndustry } from './sectors.js';
+
+export const SUPPORTED_EXTENSIONS = ['.xlsx', '.xls', '.csv'];
+
+const HEADER_ALIASES = {
+  ticker: ['ticker', 'symbol'],
+  isin: ['isin'],
+  company: ['company name', 'company', 'name'],
+  metric: ['field', 'metric'],
+  industry: ['industry']
+};
+
+const ISIN_PATTERN = /^[A-Z]{2}[A-Z0-9]{9}[0-9]$/;
+const HEADER_SEARCH_ROWS = 10;
+
+function normalizeHeader(value) {
+  return String(value ?? '').trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+function isBlank(value) {
+  return value === null || value === undefined || String(value).trim() === '';
+}
+
+function findHeaderRow(rows) {
+  const limit = Math.min(rows.length, HEADER_SEARCH_ROWS);
+  for (let i = 0; i < limit; i++) {
+    const headers = (rows[i] || []).map(normalizeHeader);
+    const columns = {};
+    for (const [key, aliases] of Object.entries(HEADER_ALIASES)) {
+      const index = headers.findIndex(h => aliases.includes(h));
+      if (index !== -1) columns[key] = index;
+    }
+    const yearColumns = [];
+    headers.forEach((h, index) => {
+      const period = parsePeriodKey(h);
+      if (period) yearColumns.push({ index, year: periodKey(period) });
+    });
+    if (columns.ticker !== undefined && columns.company !== undefined &&
+        columns.metric !== undefined && yearColumns.length > 0) {
+      return { rowIndex: i, columns, yearColumns };
+    }
+  }
+  return null;
+}
+
+function parseNumber(value) {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : NaN;
+  const cleaned = String(value).trim().replace(/,/g, '');
+  if (!/^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/.test(cleaned)) return NaN;
+  return Number(cleaned);
+}
+
+function parseSheet(sheet, sheetName, report, companies) {
+  const rows = XLSX.utils.sheet_to_json(sheet, { header: 1, raw: true, defval: null, blankrows: true });
+  const header = findHeaderRow(rows);
+
+  if (!header) {
+    report.errors.push({
+      sheet: sheetName,
+      row: null,
+      message: 'No header row found (expected Ticker, Company name, Field/Metric and at least one year or quarter column)'
+    });
+    return;
+  }
+
+  const { rowIndex, columns, yearColumns } = header;
+  const seen = new Set();
+
+  for (let i = rowIndex + 1; i < rows.length; i++) {
+    const row = rows[i] || [];
+    // Spreadsheet row numbers are 1-based
+    const rowNumber = i + 1;
+
+    if (row.every(isBlank)) continue;
+    report.rowsRead++;
+
+    const rowErrors = [];
+    const ticker = String(row[columns.ticker] ?? '').trim().toUpperCase();
+    const companyName = String(row[columns.company] ?? '').trim();
+    const metric = String(row[columns.metric] ?? '').trim().toUpperCase();
+    const isin = columns.isin !== undefined ? String(row[columns.isin] ?? '').trim().toUpperCase() : '';
+    const industryText = columns.industry !== undefined ? String(row[columns.industry] ?? '').trim() : '';
+    const industry = resolveIndustry(industryText);
+
+    if (!ticker) rowErrors.push({ column: 'Ticker', message: 'Ticker is required' });
+    if (!companyName) rowErrors.push({ column: 'Company name', message: 'Company name is required' });
+    if (!metric) rowErrors.push({ column: 'Field', message: 'Metric name is required' });
+    if (isin && !ISIN_PATTERN.test(isin)) {
+      rowErrors.push({ column: 'ISIN', message: `'${isin}' is not a valid ISIN` });
+    }
+    if (industryText && !industry) {
+      rowErrors.push({ column: 'Industry', message: `'${industryText}' is not a known industry` });
+    }
+
+    const years = {};
+    for (const { index, year } of yearColumns) {
+      const raw = row[index];
+      if (isBlank(raw)) continue;
+      const value = parseNumber(raw);
+      if (Number.isNaN(value)) {
+        rowErrors.push({ column: String(year), message: `'${raw}' is not a number` });
+        continue;
+      }
+      years[year] = value;
+    }
+
+    if (rowErrors.length === 0 && Object.keys(years).length === 0) {
+      rowErrors.push({ column: null, message: 'Row has no yearly or quarterly values' });
+    }
+
+    const key = `${ticker}|${metric}`;
+    if (rowErrors.length === 0 && seen.has(key)) {
+      rowErrors.push({ column: 'Field', message: `Duplicate row for ${ticker} ${metric}` });
+    }
+
+    const existing = companies.get(ticker);
+    if (rowErrors.length === 0 && existing) {
+      if (existing['Company name'] !== companyName) {
+        rowErrors.push({
+          column: 'Company name',
+          message: `Ticker ${ticker} is already named '${existing['Company name']}'`
+        });
+      } else if (isin && existing.ISIN && existing.ISIN !== isin) {
+        rowErrors.push({ column: 'ISIN', message: `Ticker ${ticker} already has ISIN ${existing.ISIN}` });
+      } else if (industry && existing.Industry && existing.Industry !== industry) {
+        rowErrors.push({ column: 'Industry', message: `Ticker ${ticker} is already classified as ${existing.Industry}` });
+      }
+    }
+
+    if (rowErrors.length > 0) {
+      for (const err of rowErrors) {
+        report.errors.push({ sheet: sheetName, row: rowNumber, ...err });
+      }
+      report.rowsRejected++;
+      continue;
+    }
+
+    seen.add(key);
+    const company = existing || { Ticker: ticker, ISIN: isin, 'Company name': companyName, Financials: {} };
+    if (!company.ISIN && isin) company.ISIN = isin;
+    if (industry) company.Industry = industry;
+    company.Financials[metric] = { ...(company.Financials[metric] || {}), ...years };
+    companies.set(ticker, company);
+    report.rowsAccepted++;
+  }
+}
+
+export function parseWorkbook(buffer, filename = 'upload') {
+  const report = {
+    file: filename,
+    sheets: [],
+    rowsRead: 0,
+    rowsAccepted: 0,
+    rowsRejected: 0,
+    errors: []
+  };
+  const companies = new Map();
+
+  const ext = path.extname(filename).toLowerCase();
+  if (!SUPPORTED_EXTENSIONS.includes(ext)) {
+    report.errors.push({
+      row: null,
+      message: `Unsupported file type '${ext || filename}'. Expected one of ${SUPPORTED_EXTENSIONS.join(', ')}`
+    });
+    return { companies: [], report };
+  }
+
+  let workbook;
+  try {
+    workbook = XLSX.read(buffer, { type: 'buffer', raw: ext === '.csv' });
+  } catch (error) {
+    report.errors.push({ row: null, message: `Could not read workbook: ${error.message}` });
+    return { companies: [], report };
+  }
+
+  for (const sheetName of workbook.SheetNames) {
+    report.sheets.push(sheetName);
+    parseSheet(workbook.Sheets[sheetName], sheetName, report, companies);
+  }
+
+  return { companies: Array.from(companies.values()), report };
+}
+
+export function loadDataDirectory(dir) {
+  if (!fs.existsSync(dir)) return { companies: [], reports: [] };
+
+  const files = fs.readdirSync(dir)
+    .filter(name => SUPPORTED_EXTENSIONS.includes(path.extname(name).toLowerCase()))
+    .sort();
+
+  let companies = [];
+  const reports = [];
+  for (const name of files) {
+    const result = parseWorkbook(fs.readFileSync(path.join(dir, name)), name);
+    companies = mergeCompanyData(companies, result.companies);
+    reports.push(result.report);
+  }
+  return { companies, reports };
+}
+
+// Later sources win: a metric/year present in `additions` replaces the one in `base`.
+export function mergeCompanyData(base, additions) {
+  const byTicker = new Map();
+  for (const entry of base) {
+    byTicker.set(entry.Ticker, {
+      ...entry,
+      Financials: Object.fromEntries(
+        Object.entries(entry.Financials || {}).map(([metric, years]) => [metric, { ...years }])
+      )
+    });
+  }
+  for (const entry of additions) {
+    const existing = byTicker.get(entry.Ticker);
+    if (!existing) {
+      byTicker.set(entry.Ticker, entry);
+      continue;
+    }
+    for (const [metric, years] of Object.entries(entry.Financials || {})) {
+      existing.Financials[metric] = { ...(existing.Financials[metric] || {}), ...years };
+    }
+    if (!existing.ISIN && entry.ISIN) existing.ISIN = entry.ISIN;
+    if (entry.Industry) existing.Industry = entry.Industry;
+  }
+  return Array.from(byTicker.values());
+}
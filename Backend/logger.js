@@ -0,0 +1,89 @@
+// Leveled JSON-lines logger. Every entry is one line such as
+//   {"time":"2024-05-01T10:00:00.000Z","level":"info","msg":"...","requestId":"..."}
+// written to stdout and, when a file is configured, to that file. The file is
+// rotated by size: server.log -> server.log.1 -> ... -> server.log.<maxFiles>,
+// the oldest being dropped.
+import fs from 'fs';
+import path from 'path';
+
+export const LOG_LEVELS = ['debug', 'info', 'warn', 'error'];
+export const DEFAULT_MAX_BYTES = 5 * 1024 * 1024;
+export const DEFAULT_MAX_FILES = 5;
+
+// Errors don't survive JSON.stringify; keep what's useful for debugging
+function serialize(value) {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, ...(value.code ? { code: value.code } : {}), stack: value.stack };
+  }
+  return value;
+}
+
+function createFileSink(file, { maxBytes, maxFiles }) {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  let fd = fs.openSync(file, 'a');
+  let size = fs.fstatSync(fd).size;
+
+  function rotate() {
+    fs.closeSync(fd);
+    for (let i = maxFiles - 1; i >= 1; i--) {
+      if (fs.existsSync(`${file}.${i}`)) fs.renameSync(`${file}.${i}`, `${file}.${i + 1}`);
+    }
+    if (maxFiles > 0) {
+      fs.renameSync(file, `${file}.1`);
+    } else {
+      fs.unlinkSync(file);
+    }
+    fd = fs.openSync(file, 'a');
+    size = 0;
+  }
+
+  return (line) => {
+    const bytes = Buffer.byteLength(line);
+    if (size > 0 && size + bytes > maxBytes) rotate();
+    fs.writeSync(fd, line);
+    size += bytes;
+  };
+}
+
+// `file` is optional; entries below `level` are dropped. child() returns a
+// logger that adds its fields (e.g. the request ID) to every entry.
+export function createLogger({ file = null, level = 'info', maxBytes = DEFAULT_MAX_BYTES, maxFiles = DEFAULT_MAX_FILES } = {}) {
+  const threshold = Math.max(LOG_LEVELS.indexOf(level), 0);
+  let writeFile = null;
+  if (file) {
+    try {
+      writeFile = createFileSink(file, { maxBytes, maxFiles });
+    } catch (err) {
+      // Read-only deploys (e.g. serverless) still get stdout
+      process.stderr.write(`Could not open log file ${file}: ${err.message}\n`);
+    }
+  }
+
+  function write(entryLevel, msg, fields) {
+    if (LOG_LEVELS.indexOf(entryLevel) < threshold) return;
+    const entry = { time: new Date().toISOString(), level: entryLevel, msg };
+    for (const [key, value] of Object.entries(fields)) {
+      if (value !== undefined) entry[key] = serialize(value);
+    }
+    const line = `${JSON.stringify(entry)}\n`;
+    process.stdout.write(line);
+    if (writeFile) {
+      try {
+        writeFile(line);
+      } catch (err) {
+        // Logging must never take a request down; stdout still has the entry
+        process.stderr.write(`Could not write log file ${file}: ${err.message}\n`);
+      }
+    }
+  }
+
+  function bind(context) {
+    const logger = { child: (fields) => bind({ ...context, ...fields }) };
+    for (const name of LOG_LEVELS) {
+      logger[name] = (msg, fields = {}) => write(name, msg, { ...context, ...fields });
+    }
+    return logger;
+  }
+
+  return bind({});
+}
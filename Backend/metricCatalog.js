@@ -0,0 +1,115 @@
+// Metric catalog: what each reported line item is. Keys are the upper-case
+// names used under Financials and in the Field column of workbooks. Metrics
+// found in the data but missing here are still served, under 'other', with a
+// name made from the key. Only the P&L items have seed values; the rest show
+// up, statement group included, once a workbook supplies them.
+
+export const STATEMENTS = [
+  { key: 'pnl', name: 'Profit & loss' },
+  { key: 'balance_sheet', name: 'Balance sheet' },
+  { key: 'cash_flow', name: 'Cash flow' },
+  { key: 'other', name: 'Other' }
+];
+
+// flow: an amount over a period, so four quarters add up to the fiscal year.
+// stock: a balance at the end of a period, so the year's value is Q4's.
+export const AGGREGATIONS = ['flow', 'stock'];
+
+// 'currency' values are stored in INR million and follow ?currency= and ?scale=
+const CATALOG = {
+  SALES: {
+    name: 'Sales',
+    statement: 'pnl',
+    aggregation: 'flow',
+    higherIsBetter: true,
+    description: 'Revenue from operations'
+  },
+  EBITDA: {
+    name: 'EBITDA',
+    statement: 'pnl',
+    aggregation: 'flow',
+    higherIsBetter: true,
+    description: 'Earnings before interest, tax, depreciation and amortisation'
+  },
+  PAT: {
+    name: 'PAT',
+    statement: 'pnl',
+    aggregation: 'flow',
+    higherIsBetter: true,
+    description: 'Profit after tax'
+  },
+  TOTAL_ASSETS: {
+    name: 'Total Assets',
+    statement: 'balance_sheet',
+    aggregation: 'stock',
+    higherIsBetter: true,
+    description: 'Current and non-current assets at the end of the period'
+  },
+  NET_WORTH: {
+    name: 'Net Worth',
+    statement: 'balance_sheet',
+    aggregation: 'stock',
+    higherIsBetter: true,
+    description: "Shareholders' equity: share capital plus reserves"
+  },
+  TOTAL_DEBT: {
+    name: 'Total Debt',
+    statement: 'balance_sheet',
+    aggregation: 'stock',
+    higherIsBetter: false,
+    description: 'Short- and long-term borrowings'
+  },
+  OPERATING_CASH_FLOW: {
+    name: 'Operating Cash Flow',
+    statement: 'cash_flow',
+    aggregation: 'flow',
+    higherIsBetter: true,
+    description: 'Net cash generated by operating activities'
+  },
+  CAPEX: {
+    name: 'Capital Expenditure',
+    statement: 'cash_flow',
+    aggregation: 'flow',
+    higherIsBetter: false,
+    description: 'Purchases of property, plant, equipment and intangibles'
+  },
+  FREE_CASH_FLOW: {
+    name: 'Free Cash Flow',
+    statement: 'cash_flow',
+    aggregation: 'flow',
+    higherIsBetter: true,
+    description: 'Operating cash flow less capital expenditure'
+  }
+};
+
+const CATALOG_ORDER = Object.keys(CATALOG);
+
+// Sort order for metric keys: catalog order, then other keys alphabetically
+export function compareMetricKeys(a, b) {
+  const [x, y] = [String(a).toUpperCase(), String(b).toUpperCase()];
+  const [i, j] = [CATALOG_ORDER.indexOf(x), CATALOG_ORDER.indexOf(y)];
+  if (i !== -1 || j !== -1) return (i === -1 ? Infinity : i) - (j === -1 ? Infinity : j);
+  return x.localeCompare(y);
+}
+
+function nameFromKey(key) {
+  return key.split('_').map(w => w.charAt(0) + w.slice(1).toLowerCase()).join(' ');
+}
+
+// Catalog entry for a reported metric key (any case); unknown keys get the
+// defaults of a P&L-style amount under 'other'
+export function lookupMetric(key) {
+  const upper = String(key || '').trim().toUpperCase();
+  const entry = CATALOG[upper];
+  if (entry) return { key: upper, unit: 'currency', cataloged: true, ...entry };
+  return {
+    key: upper,
+    name: nameFromKey(upper),
+    statement: 'other',
+    unit: 'currency',
+    aggregation: 'flow',
+    higherIsBetter: true,
+    description: null,
+    cataloged: false
+  };
+}
@@ -0,0 +1,1303 @@
+// OpenAPI 3 description of the /api/v1 routes. It is served at
+// /api/v1/openapi.json, drives request validation (validation.js) and is the
+// input for the generated TypeScript client (scripts/generateClient.js), so
+// a route change must be reflected here.
+import { EXPORT_FORMATS } from './export.js';
+import { DEFAULT_SEARCH_LIMIT, MAX_SEARCH_LIMIT } from './search.js';
+import { QUALITY_CHECKS, MIN_YOY_THRESHOLD, MAX_YOY_THRESHOLD } from './quality.js';
+import { DEFAULT_AUDIT_LIMIT, MAX_AUDIT_LIMIT, ANNOTATION_KINDS, MAX_ANNOTATION_TITLE, MAX_ANNOTATION_DESCRIPTION } from './db.js';
+import { PERIOD_TYPES } from './periods.js';
+import { CURRENCIES, SCALES, BASE_CURRENCY, BASE_SCALE } from './units.js';
+import { RANKING_ORDERS, RANKING_BANDS } from './rankings.js';
+import { MAX_CAGR_WINDOW } from './derivedMetrics.js';
+import { MAX_ITEMS_PER_USER, MAX_DASHBOARD_PANELS } from './userStore.js';
+import { FORECAST_METHODS, DEFAULT_HORIZON, MAX_HORIZON, CONFIDENCE } from './forecast.js';
+import { STATEMENTS, AGGREGATIONS } from './metricCatalog.js';
+import { SECTORS, AGGREGATE_STATS } from './sectors.js';
+import { ALERT_CONDITIONS, ALERT_DELIVERIES, MAX_ALERT_RULE_NAME, MAX_RANK_THRESHOLD, DEFAULT_ALERT_LIMIT, MAX_ALERT_LIMIT } from './alerts.js';
+
+export const API_BASE_PATH = '/api/v1';
+export const MAX_BATCH_COMPANIES = 10;
+
+const ref = (name) => ({ $ref: `#/components/schemas/${name}` });
+
+function json(schemaName, description) {
+  return { description, content: { 'application/json': { schema: ref(schemaName) } } };
+}
+
+const ERROR_DESCRIPTIONS = {
+  400: 'Invalid request parameters',
+  401: 'Missing or invalid admin token or API key',
+  404: 'No matching data',
+  409: 'Conflicts with existing data',
+  413: 'Upload or request body too large',
+  422: 'Request understood but the content is invalid',
+  429: 'Rate limit exceeded; see the Retry-After header',
+  500: 'Unexpected server error',
+  503: 'Admin API disabled (ADMIN_TOKENS not set)'
+};
+
+// Every operation is rate limited, so 429 is always listed
+function errors(...codes) {
+  return Object.fromEntries([...codes, 429].map(code => [code, json('ErrorResponse', ERROR_DESCRIPTIONS[code])]));
+}
+
+function query(name, schema, { required = false, description } = {}) {
+  return {
+    name,
+    in: 'query',
+    required,
+    ...(description ? { description } : {}),
+    ...(schema.type === 'array' ? { style: 'form', explode: true } : {}),
+    schema
+  };
+}
+
+function pathParam(name, schema, description) {
+  return { name, in: 'path', required: true, ...(description ? { description } : {}), schema };
+}
+
+function jsonBody(schemaName) {
+  return { required: true, content: { 'application/json': { schema: ref(schemaName) } } };
+}
+
+const TICKER_PATTERN = '^[A-Za-z0-9&._-]{1,32}$';
+const METRIC_PATTERN = '^[A-Za-z0-9_]+$';
+// Saved items are keyed by the lower-cased user name, so names that are
+// Object.prototype members (in any case) are refused
+const USER_PATTERN = '^(?!__[Pp][Rr][Oo][Tt][Oo]__$|[Cc][Oo][Nn][Ss][Tt][Rr][Uu][Cc][Tt][Oo][Rr]$)[A-Za-z0-9._-]{1,64}$';
+const adminSecurity = [{ adminToken: [] }];
+
+const industrySchema = {
+  type: 'string',
+  enum: SECTORS.flatMap(s => s.industries.map(i => i.key)),
+  nullable: true,
+  description: 'Industry key from /sectors; sets the sector too'
+};
+
+// Read-only dataset routes send an ETag (see cacheByDataset in server.js)
+const notModified = { 304: { description: 'Dataset unchanged since the ETag sent in If-None-Match' } };
+const adminErrors = (...codes) => errors(400, 401, ...codes, 500, 503);
+
+const tickerPathParam = pathParam('ticker', { type: 'string', pattern: TICKER_PATTERN });
+const valuePathParams = [
+  tickerPathParam,
+  pathParam('metric', { type: 'string', pattern: METRIC_PATTERN, maxLength: 64 }, 'Base metric, e.g. SALES'),
+  pathParam('year', { type: 'integer', minimum: 1900, maximum: 2100 }, 'Fiscal year, named after the year it ends in'),
+  query('quarter', { type: 'integer', minimum: 1, maximum: 4 }, {
+    description: 'Fiscal quarter (Q1 is April-June); omit for the annual value'
+  })
+];
+
+const metricParam = query('metric', { type: 'string', pattern: METRIC_PATTERN, maxLength: 64 }, {
+  required: true,
+  description: 'Base metric (e.g. SALES) or derived metric key (e.g. PAT_MARGIN, SALES_YOY, SALES_CAGR_5Y); case-insensitive'
+});
+
+const periodParam = query('period', { type: 'string', enum: PERIOD_TYPES, default: 'annual' }, {
+  description: 'Fiscal years, fiscal quarters or trailing twelve months at each quarter'
+});
+
+// Reported values only; '%' metrics ignore them
+const unitParams = [
+  query('currency', { type: 'string', enum: CURRENCIES, default: BASE_CURRENCY }, {
+    description: 'USD values use the yearly average rate for each fiscal year'
+  }),
+  query('scale', { type: 'string', enum: Object.keys(SCALES), default: BASE_SCALE }, {
+    description: 'Unit the values are expressed in, e.g. crore (10 million)'
+  })
+];
+
+const userPathParams = [
+  pathParam('user', { type: 'string', pattern: USER_PATTERN }, 'User name; watchlists and dashboards are saved per user')
+];
+const itemPathParams = [
+  ...userPathParams,
+  pathParam('id', { type: 'string', pattern: '^[0-9a-f-]{36}$' })
+];
+
+const annotationYear = { type: 'integer', minimum: 1900, maximum: 2100, description: 'Fiscal year, named after the year it ends in' };
+const annotationQuarter = {
+  type: 'integer',
+  minimum: 1,
+  maximum: 4,
+  nullable: true,
+  description: 'Fiscal quarter (Q1 is April-June); omit or null for the whole year'
+};
+const annotationPathParams = [pathParam('id', { type: 'integer', minimum: 1 })];
+const alertRulePathParams = [pathParam('id', { type: 'integer', minimum: 1 })];
+
+const repeatable = (description) => ({
+  type: 'array',
+  items: { type: 'string', minLength: 1, maxLength: 200 },
+  maxItems: MAX_BATCH_COMPANIES,
+  description
+});
+
+const companyListParams = [
+  query('company', repeatable('Company name (repeatable)')),
+  query('ticker', repeatable('Ticker (repeatable)')),
+  query('isin', repeatable('ISIN (repeatable)'))
+];
+
+const schemas = {
+  Company: {
+    type: 'object',
+    required: ['name', 'ticker', 'isin'],
+    properties: {
+      name: { type: 'string' },
+      ticker: { type: 'string' },
+      isin: { type: 'string', description: 'Empty when unknown' },
+      sector: { type: 'string', nullable: true, description: 'Sector key from /sectors; null when unclassified' },
+      industry: { type: 'string', nullable: true, description: 'Industry key from /sectors; null when unclassified' }
+    }
+  },
+  MetricInfo: {
+    type: 'object',
+    required: ['key', 'name', 'derived', 'unit', 'statement', 'higherIsBetter'],
+    properties: {
+      key: { type: 'string' },
+      name: { type: 'string', description: 'Display name' },
+      derived: { type: 'boolean' },
+      unit: { type: 'string', nullable: true, description: "'%' for derived metrics, otherwise the stored unit (INR million)" },
+      statement: {
+        type: 'string',
+        enum: STATEMENTS.map(s => s.key),
+        description: "Financial statement the metric comes from; derived metrics take their first input's"
+      },
+      aggregation: {
+        type: 'string',
+        enum: AGGREGATIONS,
+        description: 'Reported metrics only. flow: quarters add up to the year; stock: a period-end balance'
+      },
+      higherIsBetter: { type: 'boolean', description: 'Whether rankings put the highest value first by default' },
+      description: { type: 'string' },
+      formula: { type: 'string' },
+      inputs: { type: 'array', items: { type: 'string' } }
+    }
+  },
+  StatementGroup: {
+    type: 'object',
+    required: ['key', 'name', 'metrics'],
+    properties: {
+      key: { type: 'string', enum: STATEMENTS.map(s => s.key) },
+      name: { type: 'string' },
+      metrics: { type: 'array', items: { type: 'string' }, description: 'Metric keys, reported before derived' }
+    }
+  },
+  Unit: {
+    type: 'object',
+    description: 'Units of the returned values',
+    required: ['currency', 'scale', 'label'],
+    properties: {
+      currency: { type: 'string', enum: CURRENCIES, nullable: true, description: 'null for percentages' },
+      scale: { type: 'string', enum: Object.keys(SCALES), nullable: true, description: 'null for percentages' },
+      label: { type: 'string', description: "e.g. 'INR crore', 'USD' or '%'" }
+    }
+  },
+  Derivation: {
+    type: 'object',
+    description: 'How the returned values were computed',
+    required: ['derived', 'unit'],
+    properties: {
+      derived: { type: 'boolean' },
+      unit: { type: 'string', nullable: true },
+      name: { type: 'string' },
+      type: { type: 'string', enum: ['ratio', 'yoy', 'cagr'] },
+      formula: { type: 'string' },
+      inputs: { type: 'array', items: { type: 'string' } },
+      window: { type: 'integer' }
+    }
+  },
+  DataPoint: {
+    type: 'object',
+    required: ['year', 'value'],
+    properties: {
+      year: { type: 'integer', description: 'Fiscal year (April-March), named after the year it ends in' },
+      quarter: { type: 'integer', minimum: 1, maximum: 4, description: 'Fiscal quarter; quarterly and TTM series only' },
+      value: { type: 'number', nullable: true, description: 'null when a derived input is missing' },
+      source: { type: 'string', enum: ['quarters'], description: 'Set when an annual value was filled in from quarters (summed, or Q4 for balance-sheet items)' }
+    }
+  },
+  Series: {
+    type: 'object',
+    required: ['company', 'unit', 'points', 'count'],
+    properties: {
+      company: ref('Company'),
+      unit: ref('Unit'),
+      points: { type: 'array', items: ref('DataPoint') },
+      count: { type: 'integer' }
+    }
+  },
+  CompaniesResponse: {
+    type: 'object',
+    required: ['success', 'count', 'companies'],
+    properties: {
+      success: { type: 'boolean' },
+      count: { type: 'integer' },
+      companies: { type: 'array', items: ref('Company') }
+    }
+  },
+  MetricsResponse: {
+    type: 'object',
+    required: ['success', 'count', 'metrics', 'statements'],
+    properties: {
+      success: { type: 'boolean' },
+      count: { type: 'integer' },
+      metrics: { type: 'array', items: ref('MetricInfo') },
+      statements: { type: 'array', items: ref('StatementGroup'), description: 'Statements that have metrics, in P&L, balance sheet, cash flow order' }
+    }
+  },
+  DataResponse: {
+    type: 'object',
+    required: ['success', 'company', 'metric', 'period', 'unit', 'derivation', 'points', 'count', 'found'],
+    properties: {
+      success: { type: 'boolean' },
+      company: ref('Company'),
+      metric: { type: 'string' },
+      period: { type: 'string', enum: PERIOD_TYPES },
+      unit: ref('Unit'),
+      derivation: ref('Derivation'),
+      points: { type: 'array', items: ref('DataPoint') },
+      count: { type: 'integer' },
+      found: { type: 'boolean' }
+    }
+  },
+  BatchDataResponse: {
+    type: 'object',
+    required: ['success', 'metric', 'period', 'unit', 'derivation', 'series', 'years', 'missing', 'count', 'found'],
+    properties: {
+      success: { type: 'boolean' },
+      metric: { type: 'string' },
+      period: { type: 'string', enum: PERIOD_TYPES },
+      unit: ref('Unit'),
+      derivation: ref('Derivation'),
+      series: { type: 'array', items: ref('Series') },
+      years: { type: 'array', items: { type: 'integer' }, description: 'Union of all series years' },
+      missing: { type: 'array', items: { type: 'string' }, description: 'Requested companies without data' },
+      count: { type: 'integer' },
+      found: { type: 'boolean' }
+    }
+  },
+  SearchResult: {
+    type: 'object',
+    required: ['name', 'ticker', 'isin', 'score', 'matchedOn'],
+    properties: {
+      name: { type: 'string' },
+      ticker: { type: 'string' },
+      isin: { type: 'string' },
+      score: { type: 'number' },
+      matchedOn: { type: 'string', enum: ['ticker', 'isin', 'name', 'fuzzy'] }
+    }
+  },
+  SearchResponse: {
+    type: 'object',
+    required: ['success', 'query', 'count', 'results'],
+    properties: {
+      success: { type: 'boolean' },
+      query: { type: 'string' },
+      count: { type: 'integer' },
+      results: { type: 'array', items: ref('SearchResult') }
+    }
+  },
+  QualityIssue: {
+    type: 'object',
+    required: ['company', 'ticker', 'check', 'severity', 'metrics', 'year', 'message'],
+    properties: {
+      company: { type: 'string' },
+      ticker: { type: 'string' },
+      check: { type: 'string', enum: QUALITY_CHECKS },
+      severity: { type: 'string', enum: ['warning', 'info'] },
+      metrics: { type: 'array', items: { type: 'string' }, description: 'Lowercase metrics the issue affects' },
+      year: { type: 'integer', description: 'Year of the affected point' },
+      value: { type: 'number' },
+      previous: { type: 'number', description: "Previous year's value, for sign flips and jumps" },
+      message: { type: 'string' }
+    }
+  },
+  QualityResponse: {
+    type: 'object',
+    required: ['success', 'threshold', 'issues', 'count', 'summary'],
+    properties: {
+      success: { type: 'boolean' },
+      threshold: { type: 'number' },
+      issues: { type: 'array', items: ref('QualityIssue') },
+      count: { type: 'integer' },
+      summary: {
+        type: 'object',
+        description: 'Issue count per check',
+        required: QUALITY_CHECKS,
+        properties: Object.fromEntries(QUALITY_CHECKS.map(check => [check, { type: 'integer' }]))
+      },
+      missing: { type: 'array', items: { type: 'string' }, description: 'Requested companies that are unknown' }
+    }
+  },
+  Ranking: {
+    type: 'object',
+    required: ['rank', 'company', 'value', 'previousValue', 'previousRank', 'rankChange', 'percentile', 'band'],
+    properties: {
+      rank: { type: 'integer', description: 'Tied values share a rank' },
+      company: ref('Company'),
+      value: { type: 'number' },
+      previousValue: { type: 'number', nullable: true, description: 'Value in the previous fiscal year' },
+      previousRank: { type: 'integer', nullable: true, description: 'Rank in the previous fiscal year' },
+      rankChange: { type: 'integer', nullable: true, description: 'Places gained since the previous year (negative when lost)' },
+      percentile: { type: 'integer', minimum: 0, maximum: 100, description: 'Position within the peer group, 100 = best' },
+      band: { type: 'string', enum: RANKING_BANDS, description: 'Quartile of the peer group' }
+    }
+  },
+  RankingsResponse: {
+    type: 'object',
+    required: ['success', 'metric', 'year', 'window', 'order', 'unit', 'derivation', 'rankings', 'count', 'missing', 'found'],
+    properties: {
+      success: { type: 'boolean' },
+      metric: { type: 'string', description: 'Metric ranked on, e.g. sales_cagr_5y when a window was given' },
+      year: { type: 'integer' },
+      window: { type: 'integer', nullable: true },
+      order: { type: 'string', enum: RANKING_ORDERS },
+      unit: ref('Unit'),
+      derivation: ref('Derivation'),
+      rankings: { type: 'array', items: ref('Ranking') },
+      count: { type: 'integer' },
+      missing: { type: 'array', items: { type: 'string' }, description: 'Companies without a value for the year' },
+      found: { type: 'boolean' }
+    }
+  },
+  ForecastPoint: {
+    type: 'object',
+    required: ['year', 'value', 'lower', 'upper'],
+    properties: {
+      year: { type: 'integer', description: 'Projected fiscal year' },
+      value: { type: 'number' },
+      lower: { type: 'number', description: 'Lower bound of the confidence band' },
+      upper: { type: 'number', description: 'Upper bound of the confidence band' }
+    }
+  },
+  ForecastResponse: {
+    type: 'object',
+    required: ['success', 'company', 'metric', 'method', 'horizon', 'confidence', 'lastReportedYear', 'params', 'unit', 'forecast', 'found'],
+    properties: {
+      success: { type: 'boolean' },
+      company: ref('Company'),
+      metric: { type: 'string' },
+      method: { type: 'string', enum: FORECAST_METHODS },
+      horizon: { type: 'integer' },
+      confidence: { type: 'number', description: `Coverage of the band, e.g. ${CONFIDENCE}` },
+      lastReportedYear: { type: 'integer', description: 'Last fiscal year the projection starts from' },
+      params: {
+        type: 'object',
+        additionalProperties: { type: 'number' },
+        description: 'Fitted parameters: slope/intercept (linear), growth %/window (cagr), alpha/beta (holt)'
+      },
+      unit: ref('Unit'),
+      forecast: { type: 'array', items: ref('ForecastPoint') },
+      found: { type: 'boolean' }
+    }
+  },
+  PeerGroup: {
+    type: 'object',
+    required: ['key', 'companies'],
+    properties: {
+      key: { type: 'string' },
+      name: { type: 'string' },
+      companies: { type: 'array', items: { type: 'string' }, description: 'Tickers classified here' }
+    }
+  },
+  Sector: {
+    type: 'object',
+    required: ['key', 'name', 'companies', 'industries'],
+    properties: {
+      key: { type: 'string' },
+      name: { type: 'string' },
+      companies: { type: 'array', items: { type: 'string' }, description: 'Tickers in any of its industries' },
+      industries: { type: 'array', items: ref('PeerGroup') }
+    }
+  },
+  SectorsResponse: {
+    type: 'object',
+    required: ['success', 'count', 'sectors', 'unclassified'],
+    properties: {
+      success: { type: 'boolean' },
+      count: { type: 'integer' },
+      sectors: { type: 'array', items: ref('Sector') },
+      unclassified: { type: 'array', items: { type: 'string' }, description: 'Tickers with no industry' }
+    }
+  },
+  AggregatePoint: {
+    type: 'object',
+    required: ['year', 'value', 'count'],
+    properties: {
+      year: { type: 'integer' },
+      quarter: { type: 'integer', minimum: 1, maximum: 4 },
+      value: { type: 'number', nullable: true, description: 'null for a share when the group total is zero' },
+      count: { type: 'integer', description: 'Members with a value for the period' }
+    }
+  },
+  SectorAggregateResponse: {
+    type: 'object',
+    required: ['success', 'group', 'metric', 'stat', 'period', 'unit', 'members', 'missing', 'points', 'count', 'found'],
+    properties: {
+      success: { type: 'boolean' },
+      group: {
+        type: 'object',
+        required: ['key', 'name', 'level'],
+        properties: {
+          key: { type: 'string' },
+          name: { type: 'string' },
+          level: { type: 'string', enum: ['sector', 'industry'] }
+        }
+      },
+      metric: { type: 'string' },
+      stat: { type: 'string', enum: AGGREGATE_STATS },
+      period: { type: 'string', enum: PERIOD_TYPES },
+      unit: ref('Unit'),
+      company: ref('Company'),
+      members: { type: 'array', items: { type: 'string' }, description: 'Tickers that have the metric' },
+      missing: { type: 'array', items: { type: 'string' }, description: 'Members without data for the metric' },
+      points: { type: 'array', items: ref('AggregatePoint') },
+      count: { type: 'integer' },
+      found: { type: 'boolean' }
+    }
+  },
+  IngestIssue: {
+    type: 'object',
+    required: ['row', 'message'],
+    properties: {
+      sheet: { type: 'string' },
+      row: { type: 'integer', nullable: true, description: '1-based spreadsheet row; null for file-level problems' },
+      column: { type: 'string', nullable: true },
+      message: { type: 'string' }
+    }
+  },
+  IngestReport: {
+    type: 'object',
+    required: ['file', 'sheets', 'rowsRead', 'rowsAccepted', 'rowsRejected', 'errors'],
+    properties: {
+      file: { type: 'string' },
+      sheets: { type: 'array', items: { type: 'string' } },
+      rowsRead: { type: 'integer' },
+      rowsAccepted: { type: 'integer' },
+      rowsRejected: { type: 'integer' },
+      errors: { type: 'array', items: ref('IngestIssue') }
+    }
+  },
+  UploadResponse: {
+    type: 'object',
+    required: ['success', 'companies', 'created', 'values', 'report'],
+    properties: {
+      success: { type: 'boolean' },
+      companies: { type: 'array', items: { type: 'string' } },
+      created: { type: 'integer', description: 'Companies new to the database' },
+      values: { type: 'integer', description: 'Values added or changed; unchanged ones are skipped' },
+      report: ref('IngestReport')
+    }
+  },
+  Financials: {
+    type: 'object',
+    description: 'Metric key -> period (2024, or 2024Q1 for a quarter) -> value, as in companyData',
+    propertyNames: { pattern: METRIC_PATTERN },
+    additionalProperties: {
+      type: 'object',
+      propertyNames: { pattern: '^[0-9]{4}(Q[1-4])?$' },
+      additionalProperties: { type: 'number' }
+    }
+  },
+  CreateCompanyRequest: {
+    type: 'object',
+    required: ['name', 'ticker'],
+    additionalProperties: false,
+    properties: {
+      name: { type: 'string', minLength: 1, maxLength: 200 },
+      ticker: { type: 'string', pattern: TICKER_PATTERN },
+      isin: { type: 'string', maxLength: 32 },
+      industry: industrySchema,
+      financials: ref('Financials')
+    }
+  },
+  UpdateCompanyRequest: {
+    type: 'object',
+    additionalProperties: false,
+    properties: {
+      name: { type: 'string', minLength: 1, maxLength: 200 },
+      isin: { type: 'string', maxLength: 32 },
+      industry: { ...industrySchema, description: `${industrySchema.description}; null clears it` }
+    }
+  },
+  SetValueRequest: {
+    type: 'object',
+    required: ['value'],
+    additionalProperties: false,
+    properties: {
+      value: { type: 'number' }
+    }
+  },
+  Watchlist: {
+    type: 'object',
+    required: ['id', 'name', 'companies', 'createdAt', 'updatedAt'],
+    properties: {
+      id: { type: 'string' },
+      name: { type: 'string' },
+      companies: { type: 'array', items: { type: 'string' }, description: 'Tickers, in the order they were added' },
+      createdAt: { type: 'string', format: 'date-time' },
+      updatedAt: { type: 'string', format: 'date-time' }
+    }
+  },
+  SaveWatchlistRequest: {
+    type: 'object',
+    required: ['name', 'companies'],
+    additionalProperties: false,
+    properties: {
+      name: { type: 'string', minLength: 1, maxLength: 80 },
+      companies: { type: 'array', items: { type: 'string', pattern: TICKER_PATTERN }, maxItems: MAX_BATCH_COMPANIES }
+    }
+  },
+  UpdateWatchlistRequest: {
+    type: 'object',
+    additionalProperties: false,
+    properties: {
+      name: { type: 'string', minLength: 1, maxLength: 80 },
+      companies: { type: 'array', items: { type: 'string', pattern: TICKER_PATTERN }, maxItems: MAX_BATCH_COMPANIES }
+    }
+  },
+  WatchlistResponse: {
+    type: 'object',
+    required: ['success', 'watchlist'],
+    properties: {
+      success: { type: 'boolean' },
+      watchlist: ref('Watchlist')
+    }
+  },
+  WatchlistsResponse: {
+    type: 'object',
+    required: ['success', 'user', 'watchlists'],
+    properties: {
+      success: { type: 'boolean' },
+      user: { type: 'string' },
+      watchlists: { type: 'array', items: ref('Watchlist') }
+    }
+  },
+  DashboardPanel: {
+    type: 'object',
+    description: 'One chart of a dashboard; panels fill a two-column grid in order',
+    required: ['companies', 'metric'],
+    additionalProperties: false,
+    properties: {
+      companies: { type: 'array', items: { type: 'string', pattern: TICKER_PATTERN }, maxItems: MAX_BATCH_COMPANIES },
+      metric: { type: 'string', pattern: METRIC_PATTERN, maxLength: 64 },
+      period: { type: 'string', enum: PERIOD_TYPES },
+      from: { type: 'number', nullable: true, description: 'First period shown (a fiscal year; quarters are fractional)' },
+      to: { type: 'number', nullable: true, description: 'Last period shown' },
+      scale: { type: 'string', enum: ['linear', 'log'] },
+      width: { type: 'integer', minimum: 1, maximum: 2, description: 'Grid columns the panel spans' }
+    }
+  },
+  Dashboard: {
+    type: 'object',
+    required: ['id', 'name', 'panels', 'createdAt', 'updatedAt'],
+    properties: {
+      id: { type: 'string' },
+      name: { type: 'string' },
+      panels: { type: 'array', items: ref('DashboardPanel') },
+      createdAt: { type: 'string', format: 'date-time' },
+      updatedAt: { type: 'string', format: 'date-time' }
+    }
+  },
+  SaveDashboardRequest: {
+    type: 'object',
+    required: ['name', 'panels'],
+    additionalProperties: false,
+    properties: {
+      name: { type: 'string', minLength: 1, maxLength: 80 },
+      panels: { type: 'array', items: ref('DashboardPanel'), maxItems: MAX_DASHBOARD_PANELS }
+    }
+  },
+  UpdateDashboardRequest: {
+    type: 'object',
+    additionalProperties: false,
+    properties: {
+      name: { type: 'string', minLength: 1, maxLength: 80 },
+      panels: { type: 'array', items: ref('DashboardPanel'), maxItems: MAX_DASHBOARD_PANELS }
+    }
+  },
+  DashboardResponse: {
+    type: 'object',
+    required: ['success', 'dashboard'],
+    properties: {
+      success: { type: 'boolean' },
+      dashboard: ref('Dashboard')
+    }
+  },
+  DashboardsResponse: {
+    type: 'object',
+    required: ['success', 'user', 'dashboards'],
+    properties: {
+      success: { type: 'boolean' },
+      user: { type: 'string' },
+      dashboards: { type: 'array', items: ref('Dashboard') }
+    }
+  },
+  DeleteSavedItemResponse: {
+    type: 'object',
+    required: ['success', 'id'],
+    properties: {
+      success: { type: 'boolean' },
+      id: { type: 'string' }
+    }
+  },
+  CompanyResponse: {
+    type: 'object',
+    required: ['success', 'company'],
+    properties: {
+      success: { type: 'boolean' },
+      company: ref('Company'),
+      values: { type: 'integer', description: 'Yearly values stored with a new company' }
+    }
+  },
+  DeleteCompanyResponse: {
+    type: 'object',
+    required: ['success', 'ticker'],
+    properties: {
+      success: { type: 'boolean' },
+      ticker: { type: 'string' }
+    }
+  },
+  ValueResponse: {
+    type: 'object',
+    required: ['success', 'ticker', 'metric', 'year', 'quarter', 'value', 'previous'],
+    properties: {
+      success: { type: 'boolean' },
+      ticker: { type: 'string' },
+      metric: { type: 'string' },
+      year: { type: 'integer' },
+      quarter: { type: 'integer', nullable: true, description: 'null for an annual value' },
+      value: { type: 'number', nullable: true, description: 'null after a delete' },
+      previous: { type: 'number', nullable: true, description: 'null when the value was new' }
+    }
+  },
+  AuditEntry: {
+    type: 'object',
+    required: ['id', 'at', 'actor', 'action', 'entity', 'ticker', 'metric', 'year', 'quarter', 'oldValue', 'newValue'],
+    properties: {
+      id: { type: 'integer' },
+      at: { type: 'string', format: 'date-time' },
+      actor: { type: 'string', description: 'Admin user that made the change' },
+      action: { type: 'string', enum: ['create', 'update', 'delete'] },
+      entity: { type: 'string', enum: ['company', 'value'] },
+      ticker: { type: 'string' },
+      metric: { type: 'string', nullable: true },
+      year: { type: 'integer', nullable: true },
+      quarter: { type: 'integer', nullable: true },
+      oldValue: { nullable: true, description: 'Value before the change; a number for values, an object for companies' },
+      newValue: { nullable: true, description: 'Value after the change' }
+    }
+  },
+  AuditResponse: {
+    type: 'object',
+    required: ['success', 'count', 'entries'],
+    properties: {
+      success: { type: 'boolean' },
+      count: { type: 'integer' },
+      entries: { type: 'array', items: ref('AuditEntry') }
+    }
+  },
+  Annotation: {
+    type: 'object',
+    required: ['id', 'ticker', 'year', 'quarter', 'kind', 'title', 'description', 'author', 'createdAt', 'updatedAt'],
+    properties: {
+      id: { type: 'integer' },
+      ticker: { type: 'string' },
+      year: { type: 'integer', description: 'Fiscal year, named after the year it ends in' },
+      quarter: { type: 'integer', nullable: true, description: 'Fiscal quarter; null for the whole year' },
+      kind: { type: 'string', enum: ANNOTATION_KINDS },
+      title: { type: 'string' },
+      description: { type: 'string', description: 'Empty when there are no details' },
+      author: { type: 'string', nullable: true },
+      createdAt: { type: 'string', format: 'date-time' },
+      updatedAt: { type: 'string', format: 'date-time' }
+    }
+  },
+  CreateAnnotationRequest: {
+    type: 'object',
+    required: ['ticker', 'year', 'kind', 'title'],
+    additionalProperties: false,
+    properties: {
+      ticker: { type: 'string', pattern: TICKER_PATTERN },
+      year: annotationYear,
+      quarter: annotationQuarter,
+      kind: { type: 'string', enum: ANNOTATION_KINDS },
+      title: { type: 'string', minLength: 1, maxLength: MAX_ANNOTATION_TITLE },
+      description: { type: 'string', maxLength: MAX_ANNOTATION_DESCRIPTION },
+      author: { type: 'string', maxLength: 64, nullable: true }
+    }
+  },
+  UpdateAnnotationRequest: {
+    type: 'object',
+    additionalProperties: false,
+    properties: {
+      ticker: { type: 'string', pattern: TICKER_PATTERN },
+      year: annotationYear,
+      quarter: annotationQuarter,
+      kind: { type: 'string', enum: ANNOTATION_KINDS },
+      title: { type: 'string', minLength: 1, maxLength: MAX_ANNOTATION_TITLE },
+      description: { type: 'string', maxLength: MAX_ANNOTATION_DESCRIPTION },
+      author: { type: 'string', maxLength: 64, nullable: true }
+    }
+  },
+  AnnotationResponse: {
+    type: 'object',
+    required: ['success', 'annotation'],
+    properties: {
+      success: { type: 'boolean' },
+      annotation: ref('Annotation')
+    }
+  },
+  AnnotationsResponse: {
+    type: 'object',
+    required: ['success', 'count', 'annotations'],
+    properties: {
+      success: { type: 'boolean' },
+      count: { type: 'integer' },
+      annotations: { type: 'array', items: ref('Annotation') }
+    }
+  },
+  DeleteAnnotationResponse: {
+    type: 'object',
+    required: ['success', 'id'],
+    properties: {
+      success: { type: 'boolean' },
+      id: { type: 'integer' }
+    }
+  },
+  AlertRule: {
+    type: 'object',
+    required: ['id', 'name', 'ticker', 'metric', 'period', 'condition', 'threshold', 'author', 'triggeredPeriod', 'createdAt'],
+    properties: {
+      id: { type: 'integer' },
+      name: { type: 'string' },
+      ticker: { type: 'string' },
+      metric: { type: 'string', description: 'Reported or derived metric key, upper-case' },
+      period: { type: 'string', enum: PERIOD_TYPES },
+      condition: { type: 'string', enum: ALERT_CONDITIONS },
+      threshold: { type: 'number', description: 'Value to compare with, or N for outside_top' },
+      author: { type: 'string', nullable: true },
+      triggeredPeriod: {
+        type: 'string',
+        nullable: true,
+        description: 'Period key (2024, 2024Q2) the rule last alerted for; null while the condition does not hold'
+      },
+      createdAt: { type: 'string', format: 'date-time' }
+    }
+  },
+  CreateAlertRuleRequest: {
+    type: 'object',
+    required: ['ticker', 'metric', 'condition', 'threshold'],
+    additionalProperties: false,
+    properties: {
+      name: { type: 'string', minLength: 1, maxLength: MAX_ALERT_RULE_NAME, description: 'Defaults to a description of the condition' },
+      ticker: { type: 'string', pattern: TICKER_PATTERN },
+      metric: { type: 'string', pattern: METRIC_PATTERN, description: 'Base metric (e.g. EBITDA) or derived metric key (e.g. PAT_MARGIN, SALES_YOY)' },
+      period: { type: 'string', enum: PERIOD_TYPES, default: 'annual', description: 'outside_top rules rank fiscal years, so they must be annual' },
+      condition: {
+        type: 'string',
+        enum: ALERT_CONDITIONS,
+        description: 'outside_top ranks best first like /rankings: lowest first for metrics where lower is better'
+      },
+      threshold: {
+        type: 'number',
+        description: `Value to compare the latest one with; for outside_top, how many top places count (1-${MAX_RANK_THRESHOLD})`
+      },
+      author: { type: 'string', maxLength: 64, nullable: true }
+    }
+  },
+  Alert: {
+    type: 'object',
+    required: ['id', 'ruleId', 'ruleName', 'ticker', 'metric', 'year', 'quarter', 'value', 'rank', 'message', 'triggeredAt', 'delivery', 'deliveryError'],
+    properties: {
+      id: { type: 'integer' },
+      ruleId: { type: 'integer', description: 'May no longer exist; the history outlives its rules' },
+      ruleName: { type: 'string' },
+      ticker: { type: 'string' },
+      metric: { type: 'string' },
+      year: { type: 'integer', description: 'Fiscal year of the value that triggered the alert' },
+      quarter: { type: 'integer', nullable: true, description: 'Fiscal quarter; null for annual rules' },
+      value: { type: 'number' },
+      rank: { type: 'integer', nullable: true, description: 'The company\'s rank; outside_top rules only' },
+      message: { type: 'string' },
+      triggeredAt: { type: 'string', format: 'date-time' },
+      delivery: { type: 'string', enum: ALERT_DELIVERIES, description: 'Webhook delivery; disabled when ALERT_WEBHOOK_URL is not set' },
+      deliveryError: { type: 'string', nullable: true }
+    }
+  },
+  AlertsResponse: {
+    type: 'object',
+    required: ['success', 'count', 'alerts'],
+    properties: {
+      success: { type: 'boolean' },
+      count: { type: 'integer' },
+      alerts: { type: 'array', items: ref('Alert') }
+    }
+  },
+  AlertRulesResponse: {
+    type: 'object',
+    required: ['success', 'count', 'rules'],
+    properties: {
+      success: { type: 'boolean' },
+      count: { type: 'integer' },
+      rules: { type: 'array', items: ref('AlertRule') }
+    }
+  },
+  CreateAlertRuleResponse: {
+    type: 'object',
+    required: ['success', 'rule', 'alerts'],
+    properties: {
+      success: { type: 'boolean' },
+      rule: ref('AlertRule'),
+      alerts: { type: 'array', items: ref('Alert'), description: 'Raised straight away when the condition already holds' }
+    }
+  },
+  DeleteAlertRuleResponse: {
+    type: 'object',
+    required: ['success', 'id'],
+    properties: {
+      success: { type: 'boolean' },
+      id: { type: 'integer' }
+    }
+  },
+  ValidationIssue: {
+    type: 'object',
+    required: ['in', 'name', 'message'],
+    properties: {
+      in: { type: 'string', enum: ['query', 'path', 'body'] },
+      name: { type: 'string' },
+      message: { type: 'string' }
+    }
+  },
+  ErrorResponse: {
+    type: 'object',
+    required: ['success', 'code', 'message', 'error', 'requestId'],
+    properties: {
+      success: { type: 'boolean', enum: [false] },
+      code: { type: 'string', description: 'Machine-readable error code, e.g. NOT_FOUND or VALIDATION_FAILED' },
+      message: { type: 'string' },
+      error: { type: 'string', deprecated: true, description: 'Same as message; kept for older clients' },
+      requestId: { type: 'string', description: 'Same as the X-Request-Id response header; quote it when reporting a problem' },
+      details: { type: 'array', items: ref('ValidationIssue') },
+      report: ref('IngestReport')
+    }
+  }
+};
+
+export const openApiDocument = {
+  openapi: '3.0.3',
+  info: {
+    title: 'Tilak Karveran Financial Data API',
+    version: '1.0.0',
+    description: 'Annual financials for listed Indian companies, with derived ratio and growth metrics.'
+  },
+  servers: [{ url: API_BASE_PATH }],
+  // Keys are optional: anonymous requests get a lower rate limit
+  security: [{}, { apiKey: [] }],
+  paths: {
+    '/companies': {
+      get: {
+        operationId: 'listCompanies',
+        summary: 'List all companies',
+        responses: { 200: json('CompaniesResponse', 'Companies sorted by name'), ...notModified, ...errors(500) }
+      }
+    },
+    '/metrics': {
+      get: {
+        operationId: 'listMetrics',
+        summary: 'List base and derived metrics with their catalog metadata',
+        responses: { 200: json('MetricsResponse', 'Base metrics followed by derived ones'), ...notModified, ...errors(500) }
+      }
+    },
+    '/data': {
+      get: {
+        operationId: 'getSeries',
+        summary: "One company's annual, quarterly or TTM series for a metric",
+        description: 'Identify the company with exactly one of company, ticker or isin.',
+        parameters: [
+          query('company', { type: 'string', minLength: 1, maxLength: 200 }, { description: 'Company name' }),
+          query('ticker', { type: 'string', minLength: 1, maxLength: 32 }),
+          query('isin', { type: 'string', minLength: 1, maxLength: 32 }),
+          metricParam,
+          periodParam,
+          ...unitParams
+        ],
+        responses: { 200: json('DataResponse', 'Series sorted by period'), ...notModified, ...errors(400, 404, 500) }
+      }
+    },
+    '/data/batch': {
+      get: {
+        operationId: 'getSeriesBatch',
+        summary: 'Several companies for one metric in a single request',
+        parameters: [...companyListParams, metricParam, periodParam, ...unitParams],
+        responses: {
+          200: json('BatchDataResponse', 'One series per company found, in request order'),
+          ...notModified,
+          ...errors(400, 404, 500)
+        }
+      }
+    },
+    '/export': {
+      get: {
+        operationId: 'exportSeries',
+        summary: 'Download series as CSV or XLSX',
+        parameters: [
+          ...companyListParams,
+          metricParam,
+          periodParam,
+          ...unitParams,
+          query('format', { type: 'string', enum: Object.keys(EXPORT_FORMATS), default: 'csv' })
+        ],
+        responses: {
+          200: {
+            description: 'File download (see Content-Disposition for the file name)',
+            content: Object.fromEntries(Object.values(EXPORT_FORMATS).map(f => [
+              f.contentType.split(';')[0],
+              { schema: { type: 'string', format: 'binary' } }
+            ]))
+          },
+          ...errors(400, 404, 500)
+        }
+      }
+    },
+    '/search': {
+      get: {
+        operationId: 'searchCompanies',
+        summary: 'Prefix and fuzzy search across company name, ticker and ISIN',
+        parameters: [
+          query('q', { type: 'string', minLength: 1, maxLength: 100 }, { required: true }),
+          query('limit', { type: 'integer', minimum: 1, maximum: MAX_SEARCH_LIMIT, default: DEFAULT_SEARCH_LIMIT })
+        ],
+        responses: { 200: json('SearchResponse', 'Best matches first'), ...notModified, ...errors(400, 500) }
+      }
+    },
+    '/quality': {
+      get: {
+        operationId: 'getQualityReport',
+        summary: 'Data quality issues: year gaps, sign flips, YoY jumps, PAT > EBITDA, EBITDA > SALES, FX noise',
+        description: 'Without company, ticker or isin every company is checked.',
+        parameters: [
+          ...companyListParams,
+          query('metric', { type: 'string', pattern: '^[A-Za-z0-9_]+$', maxLength: 64 }, {
+            description: 'Only issues affecting this base metric'
+          }),
+          query('threshold', { type: 'number', minimum: MIN_YOY_THRESHOLD, maximum: MAX_YOY_THRESHOLD }, {
+            description: 'Relative YoY change flagged as a jump (0.5 = 50%); defaults to QUALITY_YOY_THRESHOLD'
+          })
+        ],
+        responses: { 200: json('QualityResponse', 'Issues sorted by company and year'), ...notModified, ...errors(400, 500) }
+      }
+    },
+    '/rankings': {
+      get: {
+        operationId: 'getRankings',
+        summary: 'League table of every company for one metric and fiscal year',
+        parameters: [
+          metricParam,
+          query('year', { type: 'integer', minimum: 1900, maximum: 2100 }, {
+            description: 'Fiscal year; defaults to the latest year with data'
+          }),
+          query('window', { type: 'integer', minimum: 1, maximum: MAX_CAGR_WINDOW }, {
+            description: 'Rank on the N-year CAGR of a reported metric instead of its value'
+          }),
+          query('order', { type: 'string', enum: RANKING_ORDERS }, {
+            description: "desc ranks the highest value first; defaults to the metric's higherIsBetter"
+          }),
+          ...unitParams
+        ],
+        responses: { 200: json('RankingsResponse', 'Companies best first'), ...notModified, ...errors(400, 404, 500) }
+      }
+    },
+    '/forecast': {
+      get: {
+        operationId: 'getForecast',
+        summary: "Projection of one company's annual series past its last reported year",
+        description: 'Identify the company with exactly one of company, ticker or isin.',
+        parameters: [
+          query('company', { type: 'string', minLength: 1, maxLength: 200 }, { description: 'Company name' }),
+          query('ticker', { type: 'string', minLength: 1, maxLength: 32 }),
+          query('isin', { type: 'string', minLength: 1, maxLength: 32 }),
+          metricParam,
+          query('horizon', { type: 'integer', minimum: 1, maximum: MAX_HORIZON, default: DEFAULT_HORIZON }, {
+            description: 'Number of fiscal years to project'
+          }),
+          query('method', { type: 'string', enum: FORECAST_METHODS, default: 'linear' }, {
+            description: "Linear trend, CAGR extrapolation or Holt's exponential smoothing"
+          }),
+          ...unitParams
+        ],
+        responses: {
+          200: json('ForecastResponse', 'Projected years with confidence bands'),
+          ...notModified,
+          ...errors(400, 404, 422, 500)
+        }
+      }
+    },
+    '/sectors': {
+      get: {
+        operationId: 'listSectors',
+        summary: 'Sector and industry taxonomy with the companies classified under each',
+        responses: { 200: json('SectorsResponse', 'Sectors in taxonomy order'), ...notModified, ...errors(500) }
+      }
+    },
+    '/sectors/{group}/aggregate': {
+      get: {
+        operationId: 'getSectorAggregate',
+        summary: "Aggregate series for a sector's or industry's companies",
+        description: 'median and mean work for any metric; sum and share need a reported one. share returns one member\'s percentage of the group total and needs ticker.',
+        parameters: [
+          pathParam('group', { type: 'string', pattern: '^[a-z_]+$', maxLength: 64 }, 'Sector or industry key, e.g. it_services'),
+          metricParam,
+          query('stat', { type: 'string', enum: AGGREGATE_STATS, default: 'median' }),
+          query('ticker', { type: 'string', minLength: 1, maxLength: 32 }, { description: 'Member whose share to return (stat=share)' }),
+          periodParam,
+          ...unitParams
+        ],
+        responses: {
+          200: json('SectorAggregateResponse', 'One point per period any member reports'),
+          ...notModified,
+          ...errors(400, 404, 500)
+        }
+      }
+    },
+    '/users/{user}/watchlists': {
+      get: {
+        operationId: 'listWatchlists',
+        summary: "A user's saved watchlists",
+        parameters: userPathParams,
+        responses: { 200: json('WatchlistsResponse', 'Watchlists in the order they were saved'), ...errors(400, 500) }
+      },
+      post: {
+        operationId: 'createWatchlist',
+        summary: 'Save a named list of companies',
+        description: `At most ${MAX_ITEMS_PER_USER} watchlists per user; names are unique per user.`,
+        parameters: userPathParams,
+        requestBody: jsonBody('SaveWatchlistRequest'),
+        responses: { 201: json('WatchlistResponse', 'Saved watchlist'), ...errors(400, 409, 500) }
+      }
+    },
+    '/users/{user}/watchlists/{id}': {
+      put: {
+        operationId: 'updateWatchlist',
+        summary: 'Rename a watchlist or replace its companies',
+        parameters: itemPathParams,
+        requestBody: jsonBody('UpdateWatchlistRequest'),
+        responses: { 200: json('WatchlistResponse', 'Updated watchlist'), ...errors(400, 404, 409, 500) }
+      },
+      delete: {
+        operationId: 'deleteWatchlist',
+        summary: 'Remove a watchlist',
+        parameters: itemPathParams,
+        responses: { 200: json('DeleteSavedItemResponse', 'Watchlist removed'), ...errors(400, 404, 500) }
+      }
+    },
+    '/users/{user}/dashboards': {
+      get: {
+        operationId: 'listDashboards',
+        summary: "A user's saved dashboards",
+        parameters: userPathParams,
+        responses: { 200: json('DashboardsResponse', 'Dashboards in the order they were saved'), ...errors(400, 500) }
+      },
+      post: {
+        operationId: 'createDashboard',
+        summary: 'Save a named grid of chart panels',
+        description: `At most ${MAX_ITEMS_PER_USER} dashboards per user and ${MAX_DASHBOARD_PANELS} panels each.`,
+        parameters: userPathParams,
+        requestBody: jsonBody('SaveDashboardRequest'),
+        responses: { 201: json('DashboardResponse', 'Saved dashboard'), ...errors(400, 409, 500) }
+      }
+    },
+    '/users/{user}/dashboards/{id}': {
+      put: {
+        operationId: 'updateDashboard',
+        summary: 'Rename a dashboard or replace its panels',
+        parameters: itemPathParams,
+        requestBody: jsonBody('UpdateDashboardRequest'),
+        responses: { 200: json('DashboardResponse', 'Updated dashboard'), ...errors(400, 404, 409, 500) }
+      },
+      delete: {
+        operationId: 'deleteDashboard',
+        summary: 'Remove a dashboard',
+        parameters: itemPathParams,
+        responses: { 200: json('DeleteSavedItemResponse', 'Dashboard removed'), ...errors(400, 404, 500) }
+      }
+    },
+    '/annotations': {
+      get: {
+        operationId: 'listAnnotations',
+        summary: 'Corporate events and notes pinned to company periods',
+        parameters: [
+          query('ticker', repeatable('Ticker (repeatable); all companies when omitted')),
+          query('kind', { type: 'string', enum: ANNOTATION_KINDS })
+        ],
+        responses: { 200: json('AnnotationsResponse', 'Annotations by ticker, then period'), ...errors(400, 500) }
+      },
+      post: {
+        operationId: 'createAnnotation',
+        summary: 'Pin an event or note to a company period',
+        requestBody: jsonBody('CreateAnnotationRequest'),
+        responses: { 201: json('AnnotationResponse', 'Saved annotation'), ...errors(400, 404, 500) }
+      }
+    },
+    '/annotations/{id}': {
+      get: {
+        operationId: 'getAnnotation',
+        summary: 'One annotation',
+        parameters: annotationPathParams,
+        responses: { 200: json('AnnotationResponse', 'The annotation'), ...errors(400, 404, 500) }
+      },
+      put: {
+        operationId: 'updateAnnotation',
+        summary: 'Change an annotation',
+        parameters: annotationPathParams,
+        requestBody: jsonBody('UpdateAnnotationRequest'),
+        responses: { 200: json('AnnotationResponse', 'Updated annotation'), ...errors(400, 404, 500) }
+      },
+      delete: {
+        operationId: 'deleteAnnotation',
+        summary: 'Remove an annotation',
+        parameters: annotationPathParams,
+        responses: { 200: json('DeleteAnnotationResponse', 'Annotation removed'), ...errors(400, 404, 500) }
+      }
+    },
+    '/alerts': {
+      get: {
+        operationId: 'listAlerts',
+        summary: 'Alerts raised by the alert rules, newest first',
+        parameters: [
+          query('rule', { type: 'integer', minimum: 1 }, { description: 'Only alerts raised by this rule' }),
+          query('ticker', { type: 'string', pattern: TICKER_PATTERN }),
+          query('limit', { type: 'integer', minimum: 1, maximum: MAX_ALERT_LIMIT, default: DEFAULT_ALERT_LIMIT })
+        ],
+        responses: { 200: json('AlertsResponse', 'Alert history'), ...errors(400, 500) }
+      }
+    },
+    '/alerts/rules': {
+      get: {
+        operationId: 'listAlertRules',
+        summary: 'Conditions checked whenever the dataset is reloaded or edited',
+        responses: { 200: json('AlertRulesResponse', 'Alert rules, oldest first'), ...errors(500) }
+      },
+      post: {
+        operationId: 'createAlertRule',
+        summary: 'Add an alert rule; it is checked against the current data straight away',
+        requestBody: jsonBody('CreateAlertRuleRequest'),
+        responses: { 201: json('CreateAlertRuleResponse', 'Saved rule and any alert it raised'), ...errors(400, 404, 500) }
+      }
+    },
+    '/alerts/rules/{id}': {
+      delete: {
+        operationId: 'deleteAlertRule',
+        summary: 'Remove an alert rule; its alerts stay in the history',
+        parameters: alertRulePathParams,
+        responses: { 200: json('DeleteAlertRuleResponse', 'Rule removed'), ...errors(400, 404, 500) }
+      }
+    },
+    '/upload': {
+      post: {
+        operationId: 'uploadWorkbook',
+        summary: 'Write an .xlsx, .xls or .csv workbook into the database',
+        security: adminSecurity,
+        requestBody: {
+          required: true,
+          content: {
+            'multipart/form-data': {
+              schema: {
+                type: 'object',
+                required: ['file'],
+                properties: { file: { type: 'string', format: 'binary' } }
+              }
+            }
+          }
+        },
+        responses: {
+          200: json('UploadResponse', 'Valid rows were loaded; rejected rows are listed in report.errors'),
+          ...adminErrors(413, 422)
+        }
+      }
+    },
+    '/admin/companies': {
+      post: {
+        operationId: 'createCompany',
+        summary: 'Add a company, optionally with its financials',
+        security: adminSecurity,
+        requestBody: jsonBody('CreateCompanyRequest'),
+        responses: { 201: json('CompanyResponse', 'Company created'), ...adminErrors(409) }
+      }
+    },
+    '/admin/companies/{ticker}': {
+      put: {
+        operationId: 'updateCompany',
+        summary: "Change a company's name, ISIN or industry",
+        security: adminSecurity,
+        parameters: [tickerPathParam],
+        requestBody: jsonBody('UpdateCompanyRequest'),
+        responses: { 200: json('CompanyResponse', 'Updated company'), ...adminErrors(404, 409) }
+      },
+      delete: {
+        operationId: 'deleteCompany',
+        summary: 'Remove a company and all of its values',
+        security: adminSecurity,
+        parameters: [tickerPathParam],
+        responses: { 200: json('DeleteCompanyResponse', 'Company removed'), ...adminErrors(404) }
+      }
+    },
+    '/admin/companies/{ticker}/financials/{metric}/{year}': {
+      put: {
+        operationId: 'setFinancialValue',
+        summary: "Add or correct one year's or quarter's value",
+        security: adminSecurity,
+        parameters: valuePathParams,
+        requestBody: jsonBody('SetValueRequest'),
+        responses: { 200: json('ValueResponse', 'Stored value and the one it replaced'), ...adminErrors(404) }
+      },
+      delete: {
+        operationId: 'deleteFinancialValue',
+        summary: "Remove one year's or quarter's value",
+        security: adminSecurity,
+        parameters: valuePathParams,
+        responses: { 200: json('ValueResponse', 'Removed value'), ...adminErrors(404) }
+      }
+    },
+    '/admin/audit': {
+      get: {
+        operationId: 'listAuditLog',
+        summary: 'Change history, newest first',
+        security: adminSecurity,
+        parameters: [
+          query('ticker', { type: 'string', pattern: TICKER_PATTERN }),
+          query('limit', { type: 'integer', minimum: 1, maximum: MAX_AUDIT_LIMIT, default: DEFAULT_AUDIT_LIMIT })
+        ],
+        responses: { 200: json('AuditResponse', 'Audit entries'), ...adminErrors() }
+      }
+    },
+    '/openapi.json': {
+      get: {
+        operationId: 'getOpenApiDocument',
+        summary: 'This document',
+        responses: {
+          200: { description: 'OpenAPI 3 document', content: { 'application/json': { schema: { type: 'object' } } } }
+        }
+      }
+    }
+  },
+  components: {
+    schemas,
+    securitySchemes: {
+      apiKey: {
+        type: 'apiKey',
+        in: 'header',
+        name: 'X-API-Key',
+        description: 'Partner key created with npm run api-key; raises the rate limit above the anonymous per-IP one'
+      },
+      adminToken: {
+        type: 'http',
+        scheme: 'bearer',
+        description: 'One of the tokens configured in ADMIN_TOKENS (user:token pairs)'
+      }
+    }
+  }
+};
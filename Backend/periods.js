@@ -0,0 +1,79 @@
+// Fiscal periods. Indian companies report on an April-March fiscal year and
+// a year number is the calendar year the fiscal year ends in: 2024 is FY24
+// (Apr 2023 - Mar 2024) and its Q1 is Apr-Jun 2023.
+//
+// Financials keep annual values under '2024' and quarterly values under
+// '2024Q1'; parsePeriodKey() also accepts the labels people type into
+// workbooks ('FY24', 'FY2024', 'Q1 FY24', 'Q1FY2024').
+
+export const PERIOD_TYPES = ['annual', 'quarterly', 'ttm'];
+
+function fullYear(digits) {
+  const n = parseInt(digits, 10);
+  if (digits.length === 4) return n;
+  return n >= 70 ? 1900 + n : 2000 + n;
+}
+
+// Returns { year, quarter } (quarter null for annual) or null
+export function parsePeriodKey(key) {
+  const text = String(key ?? '').trim().toUpperCase().replace(/\s+/g, ' ');
+  let match = /^(\d{4})$/.exec(text) || /^FY ?(\d{2}|\d{4})$/.exec(text);
+  if (match) return { year: fullYear(match[1]), quarter: null };
+  match = /^(\d{4}) ?Q([1-4])$/.exec(text);
+  if (match) return { year: parseInt(match[1], 10), quarter: parseInt(match[2], 10) };
+  match = /^Q([1-4]) ?FY ?(\d{2}|\d{4})$/.exec(text);
+  if (match) return { year: fullYear(match[2]), quarter: parseInt(match[1], 10) };
+  return null;
+}
+
+// Storage key used in Financials
+export function periodKey({ year, quarter }) {
+  return quarter ? `${year}Q${quarter}` : String(year);
+}
+
+export function periodLabel({ year, quarter }) {
+  const fy = `FY${String(year % 100).padStart(2, '0')}`;
+  return quarter ? `Q${quarter} ${fy}` : fy;
+}
+
+const index = ({ year, quarter }) => year * 4 + (quarter - 1);
+
+// Fills in fiscal years that have no reported annual value from their
+// quarters. Flows (see metricCatalog.js) need all four quarters, summed;
+// stocks take the Q4 closing balance. Reported annual values always win.
+export function rollUpAnnual(annual, quarterly, aggregation = 'flow') {
+  const byYear = new Map((annual || []).map(p => [p.year, p]));
+  const quartersByYear = new Map();
+  for (const p of quarterly || []) {
+    if (!quartersByYear.has(p.year)) quartersByYear.set(p.year, new Map());
+    quartersByYear.get(p.year).set(p.quarter, p.value);
+  }
+  for (const [year, quarters] of quartersByYear) {
+    if (byYear.has(year)) continue;
+    if (aggregation === 'stock') {
+      if (quarters.has(4)) byYear.set(year, { year, value: quarters.get(4), source: 'quarters' });
+    } else if (quarters.size === 4) {
+      const value = Array.from(quarters.values()).reduce((sum, v) => sum + v, 0);
+      byYear.set(year, { year, value, source: 'quarters' });
+    }
+  }
+  return Array.from(byYear.values()).sort((a, b) => a.year - b.year);
+}
+
+// Trailing twelve months: each quarter plus the three before it, emitted
+// only when all four are present. A stock has no twelve-month total; its
+// TTM value is simply the balance at the end of each quarter.
+export function trailingTwelveMonths(quarterly, aggregation = 'flow') {
+  if (aggregation === 'stock') {
+    return (quarterly || []).map(({ year, quarter, value }) => ({ year, quarter, value }));
+  }
+  const byIndex = new Map((quarterly || []).map(p => [index(p), p.value]));
+  const points = [];
+  for (const p of quarterly || []) {
+    const i = index(p);
+    const window = [i - 3, i - 2, i - 1, i].map(k => byIndex.get(k));
+    if (window.some(v => v === undefined)) continue;
+    points.push({ year: p.year, quarter: p.quarter, value: window.reduce((sum, v) => sum + v, 0) });
+  }
+  return points;
+}
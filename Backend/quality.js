@@ -0,0 +1,163 @@
+// Data quality checks over the indexed snapshot. Each check looks at one
+// company at a time and reports issues pinned to the year they affect, so
+// clients can mark the exact chart points:
+//   gap                 a year is missing inside a series
+//   sign_flip           a value changes sign from the previous year
+//   yoy_jump            year-over-year change beyond the threshold
+//   pat_above_ebitda    PAT larger than EBITDA in the same year
+//   ebitda_above_sales  EBITDA larger than SALES in the same year
+//   precision           more decimals than reported figures carry (FX noise)
+
+export const QUALITY_CHECKS = ['gap', 'sign_flip', 'yoy_jump', 'pat_above_ebitda', 'ebitda_above_sales', 'precision'];
+
+// Relative year-over-year change that counts as a jump (0.5 = ±50%)
+export const DEFAULT_YOY_THRESHOLD = 0.5;
+export const MIN_YOY_THRESHOLD = 0.05;
+export const MAX_YOY_THRESHOLD = 10;
+
+// Figures are reported to at most two decimals; anything finer is noise
+const MAX_DECIMALS = 2;
+
+// Same-year comparisons between base metrics: [larger, smaller, check]
+const ORDERING_CHECKS = [
+  ['ebitda', 'pat', 'pat_above_ebitda'],
+  ['sales', 'ebitda', 'ebitda_above_sales']
+];
+
+const formatValue = (value) => value.toLocaleString('en-US', { maximumFractionDigits: 2 });
+
+function decimals(value) {
+  const text = String(value);
+  if (text.includes('e')) return 0;
+  const dot = text.indexOf('.');
+  return dot === -1 ? 0 : text.length - dot - 1;
+}
+
+function checkSeries(points, metric, threshold) {
+  const issues = [];
+
+  for (let i = 0; i < points.length; i++) {
+    const { year, value } = points[i];
+    const previous = points[i - 1];
+
+    if (decimals(value) > MAX_DECIMALS) {
+      issues.push({
+        check: 'precision',
+        severity: 'info',
+        metrics: [metric],
+        year,
+        value,
+        message: `${metric.toUpperCase()} ${year} has ${decimals(value)} decimals (${value}); likely FX-conversion noise`
+      });
+    }
+
+    if (!previous) continue;
+
+    if (year - previous.year > 1) {
+      const missing = year - previous.year - 1;
+      issues.push({
+        check: 'gap',
+        severity: 'warning',
+        metrics: [metric],
+        year,
+        message: missing === 1
+          ? `${metric.toUpperCase()} has no value for ${previous.year + 1}`
+          : `${metric.toUpperCase()} has no values for ${previous.year + 1}-${year - 1}`
+      });
+      // Changes across a gap aren't year-over-year
+      continue;
+    }
+
+    if (Math.sign(value) * Math.sign(previous.value) === -1) {
+      issues.push({
+        check: 'sign_flip',
+        severity: 'warning',
+        metrics: [metric],
+        year,
+        value,
+        previous: previous.value,
+        message: `${metric.toUpperCase()} flips sign from ${formatValue(previous.value)} in ${previous.year} to ${formatValue(value)} in ${year}`
+      });
+    } else if (previous.value !== 0) {
+      const change = (value - previous.value) / Math.abs(previous.value);
+      if (Math.abs(change) > threshold) {
+        issues.push({
+          check: 'yoy_jump',
+          severity: 'warning',
+          metrics: [metric],
+          year,
+          value,
+          previous: previous.value,
+          message: `${metric.toUpperCase()} ${change > 0 ? 'rises' : 'falls'} ${Math.abs(change * 100).toFixed(0)}% from ${formatValue(previous.value)} in ${previous.year} to ${formatValue(value)} in ${year}`
+        });
+      }
+    }
+  }
+
+  return issues;
+}
+
+function checkOrdering(snapshot, ticker) {
+  const issues = [];
+
+  for (const [largerMetric, smallerMetric, check] of ORDERING_CHECKS) {
+    const larger = snapshot.getSeries(ticker, largerMetric);
+    const smaller = snapshot.getSeries(ticker, smallerMetric);
+    if (!larger || !smaller) continue;
+
+    const largerByYear = new Map(larger.map(p => [p.year, p.value]));
+    for (const { year, value } of smaller) {
+      const bound = largerByYear.get(year);
+      if (bound === undefined || value <= bound) continue;
+      issues.push({
+        check,
+        severity: 'warning',
+        metrics: [smallerMetric, largerMetric],
+        year,
+        value,
+        message: `${smallerMetric.toUpperCase()} ${year} (${formatValue(value)}) exceeds ${largerMetric.toUpperCase()} (${formatValue(bound)})`
+      });
+    }
+  }
+
+  return issues;
+}
+
+// Runs every check for the given companies (default: all) and returns issues
+// sorted by company, year and check. `metric` keeps only issues touching it.
+export function runQualityChecks(snapshot, {
+  companies = snapshot.companyInfo,
+  metric = null,
+  threshold = DEFAULT_YOY_THRESHOLD
+} = {}) {
+  const field = metric ? String(metric).toLowerCase() : null;
+  const issues = [];
+
+  for (const info of companies) {
+    const companyIssues = [
+      ...snapshot.metrics.flatMap(m => {
+        const points = snapshot.getSeries(info.ticker, m);
+        return points ? checkSeries(points, m.toLowerCase(), threshold) : [];
+      }),
+      ...checkOrdering(snapshot, info.ticker)
+    ];
+
+    for (const issue of companyIssues) {
+      if (field && !issue.metrics.includes(field)) continue;
+      issues.push({ company: info.name, ticker: info.ticker, ...issue });
+    }
+  }
+
+  return issues.sort((a, b) =>
+    a.company.localeCompare(b.company) ||
+    a.year - b.year ||
+    QUALITY_CHECKS.indexOf(a.check) - QUALITY_CHECKS.indexOf(b.check)
+  );
+}
+
+// Issue counts per check, with every check present
+export function summarizeIssues(issues) {
+  const summary = Object.fromEntries(QUALITY_CHECKS.map(check => [check, 0]));
+  for (const issue of issues) summary[issue.check]++;
+  return summary;
+}
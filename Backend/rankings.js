@@ -0,0 +1,74 @@
+// Peer rankings: orders every company by one metric in one fiscal year and
+// compares with the ranking a year earlier. Ties share a rank (1, 2, 2, 4).
+// Percentiles place a company within the peer group (100 = best, 0 = worst)
+// and bands split the group into quartiles.
+
+export const RANKING_ORDERS = ['desc', 'asc'];
+export const RANKING_BANDS = ['top', 'upper', 'lower', 'bottom'];
+
+function band(percentile) {
+  if (percentile >= 75) return 'top';
+  if (percentile >= 50) return 'upper';
+  if (percentile >= 25) return 'lower';
+  return 'bottom';
+}
+
+// `entries` are { key, value } with a numeric value; returns key -> rank
+function rankValues(entries, order) {
+  const sorted = [...entries].sort((a, b) => (order === 'asc' ? a.value - b.value : b.value - a.value));
+  const ranks = new Map();
+  sorted.forEach((entry, i) => {
+    const previous = sorted[i - 1];
+    ranks.set(entry.key, previous && previous.value === entry.value ? ranks.get(previous.key) : i + 1);
+  });
+  return ranks;
+}
+
+// Latest year in which any of the series has a value
+export function latestYear(series) {
+  let latest = null;
+  for (const s of series) {
+    for (const p of s.points) {
+      if (p.value !== null && (latest === null || p.year > latest)) latest = p.year;
+    }
+  }
+  return latest;
+}
+
+// `series` are findSeries() results for the peer group. Returns the ranked
+// rows (best first) and the companies with no value for the year.
+export function rankSeries(series, { year, order = 'desc' }) {
+  const valueIn = (s, y) => s.points.find(p => p.year === y && p.value !== null)?.value ?? null;
+  const current = series
+    .map(s => ({ key: s.ticker, series: s, value: valueIn(s, year) }))
+    .filter(e => e.value !== null);
+  const previous = series
+    .map(s => ({ key: s.ticker, value: valueIn(s, year - 1) }))
+    .filter(e => e.value !== null);
+
+  const ranks = rankValues(current, order);
+  const previousRanks = rankValues(previous, order);
+  const previousValues = new Map(previous.map(e => [e.key, e.value]));
+  const count = current.length;
+
+  const rows = current.map(({ key, series: s, value }) => {
+    const rank = ranks.get(key);
+    const previousRank = previousRanks.get(key) ?? null;
+    const percentile = count > 1 ? Math.round(((count - rank) / (count - 1)) * 100) : 100;
+    return {
+      rank,
+      company: { name: s.company, ticker: s.ticker, isin: s.isin },
+      value,
+      previousValue: previousValues.get(key) ?? null,
+      previousRank,
+      // Positive when the company moved up the table
+      rankChange: previousRank === null ? null : previousRank - rank,
+      percentile,
+      band: band(percentile)
+    };
+  }).sort((a, b) => a.rank - b.rank || a.company.name.localeCompare(b.company.name));
+
+  const ranked = new Set(current.map(e => e.key));
+  const missing = series.filter(s => !ranked.has(s.ticker)).map(s => s.company);
+  return { rows, missing };
+}
@@ -0,0 +1,74 @@
+// Token-bucket rate limiting for the API. Requests with an API key draw from
+// that key's bucket; anonymous requests (the frontend) from a smaller bucket
+// per client IP. Limits are requests per minute, which is also the burst size.
+import { HttpError } from './errors.js';
+import { API_KEY_HEADER } from './apiKeys.js';
+
+export const DEFAULT_ANONYMOUS_LIMIT = 120;
+export const DEFAULT_KEY_LIMIT = 1200;
+
+// Buckets that have refilled completely hold no information; drop them every
+// so often so one-off clients don't accumulate
+const SWEEP_EVERY = 1000;
+
+export function createTokenBuckets(now = () => Date.now()) {
+  const buckets = new Map();
+  let takes = 0;
+
+  const refill = (bucket, limit, time) =>
+    Math.min(limit, bucket.tokens + ((time - bucket.updated) * limit) / 60000);
+
+  function sweep(time) {
+    for (const [id, bucket] of buckets) {
+      if (refill(bucket, bucket.limit, time) >= bucket.limit) buckets.delete(id);
+    }
+  }
+
+  // Takes one token from the bucket `id`; retryAfter is in whole seconds
+  return function take(id, limit) {
+    const time = now();
+    if (++takes % SWEEP_EVERY === 0) sweep(time);
+
+    const bucket = buckets.get(id) || { tokens: limit, updated: time, limit };
+    bucket.tokens = refill(bucket, limit, time);
+    bucket.updated = time;
+    bucket.limit = limit;
+    buckets.set(id, bucket);
+
+    if (bucket.tokens < 1) {
+      return { allowed: false, remaining: 0, retryAfter: Math.ceil(((1 - bucket.tokens) * 60) / limit) };
+    }
+    bucket.tokens -= 1;
+    return { allowed: true, remaining: Math.floor(bucket.tokens), retryAfter: 0 };
+  };
+}
+
+// Middleware: 401 for an unknown key, 429 with Retry-After once the bucket is
+// empty. Sets req.apiKey for keyed requests.
+export function rateLimit({ apiKeys, anonymousLimit = DEFAULT_ANONYMOUS_LIMIT, keyLimit = DEFAULT_KEY_LIMIT }) {
+  const take = createTokenBuckets();
+
+  return (req, res, next) => {
+    const presented = req.get(API_KEY_HEADER);
+    let bucketId = `ip:${req.ip}`;
+    let limit = anonymousLimit;
+
+    if (presented) {
+      const key = apiKeys.find(presented.trim());
+      if (!key) return next(new HttpError(401, 'Unknown API key'));
+      req.apiKey = key;
+      req.log = req.log.child({ apiKey: key.name });
+      bucketId = `key:${key.id}`;
+      limit = key.rateLimit || keyLimit;
+    }
+
+    const { allowed, remaining, retryAfter } = take(bucketId, limit);
+    res.setHeader('RateLimit-Limit', limit);
+    res.setHeader('RateLimit-Remaining', remaining);
+    if (!allowed) {
+      res.setHeader('Retry-After', retryAfter);
+      return next(new HttpError(429, `Rate limit of ${limit} requests per minute exceeded; retry in ${retryAfter} s`));
+    }
+    next();
+  };
+}
@@ -0,0 +1,80 @@
+// Request metrics in the Prometheus text exposition format (served at
+// /metrics). Routes are labelled by their Express pattern, e.g.
+// /api/v1/users/:user/watchlists, so label values stay bounded; requests
+// that match no route share the label "unmatched".
+
+export const DURATION_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5];
+
+const escapeLabel = (value) => String(value).replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+
+function labels(pairs) {
+  const text = Object.entries(pairs).map(([key, value]) => `${key}="${escapeLabel(value)}"`).join(',');
+  return text ? `{${text}}` : '';
+}
+
+export function createMetrics() {
+  const started = Date.now();
+  // Keyed by the rendered label set
+  const requests = new Map();
+  const errors = new Map();
+  const durations = new Map();
+
+  function increment(map, pairs) {
+    const key = labels(pairs);
+    const entry = map.get(key) || { pairs, value: 0 };
+    entry.value += 1;
+    map.set(key, entry);
+  }
+
+  return {
+    // Records one finished request; `seconds` is the time to the last byte
+    observe({ method, route, status, seconds }) {
+      increment(requests, { method, route, status });
+      if (status >= 400) increment(errors, { method, route, class: status >= 500 ? '5xx' : '4xx' });
+
+      const key = labels({ method, route });
+      const entry = durations.get(key) || {
+        pairs: { method, route },
+        buckets: DURATION_BUCKETS.map(() => 0),
+        sum: 0,
+        count: 0
+      };
+      DURATION_BUCKETS.forEach((bound, i) => {
+        if (seconds <= bound) entry.buckets[i] += 1;
+      });
+      entry.sum += seconds;
+      entry.count += 1;
+      durations.set(key, entry);
+    },
+
+    render() {
+      const lines = [
+        '# HELP http_requests_total Requests served, by route and status code.',
+        '# TYPE http_requests_total counter',
+        ...[...requests.values()].map(e => `http_requests_total${labels(e.pairs)} ${e.value}`),
+        '# HELP http_request_errors_total Requests answered with a 4xx or 5xx status, by route.',
+        '# TYPE http_request_errors_total counter',
+        ...[...errors.values()].map(e => `http_request_errors_total${labels(e.pairs)} ${e.value}`),
+        '# HELP http_request_duration_seconds Time to serve a request, by route.',
+        '# TYPE http_request_duration_seconds histogram'
+      ];
+      for (const e of durations.values()) {
+        DURATION_BUCKETS.forEach((bound, i) => {
+          lines.push(`http_request_duration_seconds_bucket${labels({ ...e.pairs, le: bound })} ${e.buckets[i]}`);
+        });
+        lines.push(`http_request_duration_seconds_bucket${labels({ ...e.pairs, le: '+Inf' })} ${e.count}`);
+        lines.push(`http_request_duration_seconds_sum${labels(e.pairs)} ${e.sum}`);
+        lines.push(`http_request_duration_seconds_count${labels(e.pairs)} ${e.count}`);
+      }
+      lines.push(
+        '# HELP process_uptime_seconds Seconds since the server started.',
+        '# TYPE process_uptime_seconds gauge',
+        `process_uptime_seconds ${(Date.now() - started) / 1000}`,
+        '# HELP process_resident_memory_bytes Resident memory size in bytes.',
+        '# TYPE process_resident_memory_bytes gauge',
+        `process_resident_memory_bytes ${process.memoryUsage().rss}`
+      );
+      return `${lines.join('\n')}\n`;
+    }
+  };
+}
@@ -0,0 +1,53 @@
+// Manages the API keys in API_KEYS_FILE (Backend/apiKeys.json by default).
+// The server reads the file at startup, so restart it after a change.
+//
+//   npm run api-key -- create <name> [--rate-limit <requests per minute>]
+//   npm run api-key -- list
+//   npm run api-key -- revoke <name>
+import path from 'path';
+import crypto from 'crypto';
+import { fileURLToPath } from 'url';
+import { generateApiKey, hashApiKey, readKeyFile, writeKeyFile } from '../apiKeys.js';
+
+const FILE = process.env.API_KEYS_FILE ||
+  path.join(path.dirname(fileURLToPath(import.meta.url)), '../apiKeys.json');
+
+const [command, name, ...rest] = process.argv.slice(2);
+
+function fail(message) {
+  console.error(message);
+  process.exit(1);
+}
+
+const data = readKeyFile(FILE);
+const findByName = (n) => data.keys.find(k => k.name.toLowerCase() === n.toLowerCase());
+
+if (command === 'create') {
+  if (!name || !/^[A-Za-z0-9._-]{1,64}$/.test(name)) fail('Usage: create <name> (letters, digits, dot, dash, underscore)');
+  if (findByName(name)) fail(`A key named '${name}' already exists; revoke it first`);
+
+  let rateLimit = null;
+  const flag = rest.indexOf('--rate-limit');
+  if (flag !== -1) {
+    rateLimit = Number(rest[flag + 1]);
+    if (!Number.isInteger(rateLimit) || rateLimit < 1) fail('--rate-limit must be a positive integer');
+  }
+
+  const key = generateApiKey();
+  data.keys.push({ id: crypto.randomUUID(), name, hash: hashApiKey(key), rateLimit, createdAt: new Date().toISOString() });
+  writeKeyFile(FILE, data);
+  console.log(`Created key '${name}'. It is not stored and won't be shown again:\n\n  ${key}\n`);
+} else if (command === 'list') {
+  if (data.keys.length === 0) console.log(`No keys in ${FILE}`);
+  for (const key of data.keys) {
+    console.log(`${key.name}\t${key.rateLimit ?? 'default'} req/min\tcreated ${key.createdAt}`);
+  }
+} else if (command === 'revoke') {
+  const key = name && findByName(name);
+  if (!key) fail(`No key named '${name || ''}'`);
+  data.keys = data.keys.filter(k => k !== key);
+  writeKeyFile(FILE, data);
+  console.log(`Revoked key '${key.name}'`);
+} else {
+  fail('Usage: npm run api-key -- create <name> [--rate-limit <n>] | list | revoke <name>');
+}
@@ -0,0 +1,273 @@
+// Generates the typed TypeScript client in Frontend/src/generated/ from the
+// OpenAPI document in openapi.js.
+//
+//   npm run generate:client            rewrite the client
+//   npm run generate:client -- --check exit 1 if the client is out of date
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { openApiDocument } from '../openapi.js';
+
+const OUTPUT = path.join(path.dirname(fileURLToPath(import.meta.url)),
+  '../../Frontend/src/generated/apiClient.ts');
+
+const capitalize = (s) => s[0].toUpperCase() + s.slice(1);
+const refName = (ref) => ref.split('/').pop();
+const propertyKey = (key) => (/^[A-Za-z_$][\w$]*$/.test(key) ? key : `'${key}'`);
+
+function tsType(schema, indent = '') {
+  if (schema.$ref) return refName(schema.$ref);
+  let type;
+  if (schema.enum) {
+    type = schema.enum.map(v => (typeof v === 'string' ? `'${v}'` : String(v))).join(' | ');
+  } else if (schema.type === 'array') {
+    const item = tsType(schema.items, indent);
+    type = item.includes(' ') ? `(${item})[]` : `${item}[]`;
+  } else if (schema.type === 'object') {
+    if (schema.properties) type = objectType(schema, indent);
+    else if (typeof schema.additionalProperties === 'object') type = `Record<string, ${tsType(schema.additionalProperties, indent)}>`;
+    else type = 'Record<string, unknown>';
+  } else if (schema.type === 'integer' || schema.type === 'number') {
+    type = 'number';
+  } else if (schema.type === 'string') {
+    type = schema.format === 'binary' ? 'Blob' : 'string';
+  } else if (schema.type === 'boolean') {
+    type = 'boolean';
+  } else {
+    type = 'unknown';
+  }
+  return schema.nullable && type !== 'unknown' ? `${type} | null` : type;
+}
+
+function objectType(schema, indent) {
+  const required = new Set(schema.required || []);
+  const inner = `${indent}  `;
+  const lines = Object.entries(schema.properties).flatMap(([key, prop]) => [
+    ...(prop.description ? [`${inner}/** ${prop.description} */`] : []),
+    `${inner}${propertyKey(key)}${required.has(key) ? '' : '?'}: ${tsType(prop, inner)}`
+  ]);
+  return `{\n${lines.join('\n')}\n${indent}}`;
+}
+
+function operations(document) {
+  return Object.entries(document.paths).flatMap(([route, pathItem]) =>
+    Object.entries(pathItem).map(([method, operation]) => ({ route, method: method.toUpperCase(), ...operation }))
+  );
+}
+
+function paramsType(op) {
+  const params = (op.parameters || []).filter(p => p.in === 'query' || p.in === 'path');
+  if (params.length === 0) return null;
+  return objectType({
+    properties: Object.fromEntries(params.map(p => [p.name, { ...p.schema, description: p.description }])),
+    required: params.filter(p => p.required).map(p => p.name)
+  }, '');
+}
+
+// Multipart bodies get their own XxxBody type, JSON bodies use their schema
+function body(op) {
+  const content = op.requestBody?.content || {};
+  if (content['multipart/form-data']) {
+    return { kind: 'form', type: `${capitalize(op.operationId)}Body`, schema: content['multipart/form-data'].schema };
+  }
+  if (content['application/json']) {
+    return { kind: 'json', type: tsType(content['application/json'].schema) };
+  }
+  return null;
+}
+
+// JSON responses resolve to their schema type; anything else is a download
+function responseKind(op) {
+  const success = Object.keys(op.responses).find(code => code.startsWith('2'));
+  const content = op.responses[success]?.content || {};
+  const schema = content['application/json']?.schema;
+  if (schema) return { kind: 'json', type: tsType(schema) };
+  return { kind: 'file', type: 'FileDownload' };
+}
+
+function renderOperation(op) {
+  const params = paramsType(op) ? `${capitalize(op.operationId)}Params` : null;
+  const requestBody = body(op);
+  const { kind, type } = responseKind(op);
+  const args = [
+    params && `params: ${params}`,
+    requestBody && `body: ${requestBody.type}`,
+    'options?: RequestOptions'
+  ].filter(Boolean).join(', ');
+  const request = [
+    `method: '${op.method}'`,
+    `path: '${op.route}'`,
+    params && 'params',
+    requestBody && `${requestBody.kind}: body`,
+    op.security && 'auth: true'
+  ].filter(Boolean).join(', ');
+  const call = kind === 'json'
+    ? `send({ ${request} }, options).then((r) => r.json() as Promise<${type}>)`
+    : `send({ ${request} }, options).then(toDownload)`;
+  return [
+    `    /** ${op.summary}${op.description ? `. ${op.description}` : ''} */`,
+    `    ${op.operationId}: (${args}) =>`,
+    `      ${call},`
+  ].join('\n');
+}
+
+function render(document) {
+  const ops = operations(document);
+  const schemaTypes = Object.entries(document.components.schemas).map(([name, schema]) => [
+    ...(schema.description ? [`/** ${schema.description} */`] : []),
+    `export type ${name} = ${tsType(schema)}`
+  ].join('\n'));
+  const operationTypes = ops.flatMap(op => [
+    paramsType(op) && `export type ${capitalize(op.operationId)}Params = ${paramsType(op)}`,
+    body(op)?.kind === 'form' && `export type ${body(op).type} = ${tsType(body(op).schema)}`
+  ].filter(Boolean));
+
+  return `// Generated by Backend/scripts/generateClient.js from the OpenAPI document
+// (${document.info.title} ${document.info.version}). DO NOT EDIT: change
+// Backend/openapi.js and run \`npm run generate:client\` in Backend/.
+
+export const API_BASE_PATH = '${document.servers[0].url}'
+const DEFAULT_TIMEOUT = 10000
+
+${schemaTypes.join('\n\n')}
+
+${operationTypes.join('\n\n')}
+
+export type FileDownload = { blob: Blob; filename: string | null }
+
+export type RequestOptions = { signal?: AbortSignal }
+
+export type ApiClientOptions = {
+  /** Origin the API is served from; empty for same-origin */
+  baseUrl?: string
+  timeout?: number
+  /** Bearer token sent to operations that require one (the admin routes) */
+  token?: string
+  /** Partner API key sent with every request; without one the anonymous rate limit applies */
+  apiKey?: string
+  /** Called with every successful response before its body is read, e.g. to watch the dataset ETag */
+  onResponse?: (response: Response, request: { method: string; path: string }) => void
+}
+
+type Params = Record<string, string | number | string[] | undefined>
+
+type Request = {
+  method: string
+  /** Route with {name} placeholders filled from params; other params go in the query string */
+  path: string
+  params?: Params
+  form?: Record<string, Blob>
+  json?: unknown
+  auth?: boolean
+}
+
+// Thrown for any non-2xx response; body is the parsed ErrorResponse when the
+// server sent one
+export class ApiError extends Error {
+  status: number
+  body: ErrorResponse | null
+
+  constructor(status: number, body: ErrorResponse | null) {
+    super(body?.message || body?.error || \`HTTP error! status: \${status}\`)
+    this.name = 'ApiError'
+    this.status = status
+    this.body = body
+  }
+}
+
+// Arrays become repeated params (?company=A&company=B)
+function toSearchParams(query: Params) {
+  const params = new URLSearchParams()
+  for (const [key, value] of Object.entries(query)) {
+    if (value === undefined || value === '') continue
+    for (const item of Array.isArray(value) ? value : [value]) params.append(key, String(item))
+  }
+  return params
+}
+
+function toDownload(response: Response): Promise<FileDownload> {
+  const header = response.headers.get('Content-Disposition') || ''
+  const match = /filename="?([^";]+)"?/i.exec(header)
+  return response.blob().then((blob) => ({ blob, filename: match ? match[1] : null }))
+}
+
+function buildPath(path: string, params: Params = {}) {
+  const query: Params = { ...params }
+  const filled = path.replace(/\\{(\\w+)\\}/g, (_, name: string) => {
+    delete query[name]
+    return encodeURIComponent(String(params[name]))
+  })
+  const search = toSearchParams(query).toString()
+  return search ? \`\${filled}?\${search}\` : filled
+}
+
+export function createApiClient({ baseUrl = '', timeout = DEFAULT_TIMEOUT, token, apiKey, onResponse }: ApiClientOptions = {}) {
+  async function send({ method, path, params, form, json, auth }: Request, options: RequestOptions = {}) {
+    const controller = new AbortController()
+    let timedOut = false
+    const id = setTimeout(() => {
+      timedOut = true
+      controller.abort()
+    }, timeout)
+    // Let callers cancel too (e.g. a superseded search), without reporting a timeout
+    const onCallerAbort = () => controller.abort()
+    options.signal?.addEventListener('abort', onCallerAbort)
+
+    const headers: Record<string, string> = {}
+    let body: FormData | string | undefined
+    if (form) {
+      body = new FormData()
+      for (const [key, value] of Object.entries(form)) body.append(key, value)
+    } else if (json !== undefined) {
+      body = JSON.stringify(json)
+      headers['Content-Type'] = 'application/json'
+    }
+    if (auth && token) headers.Authorization = \`Bearer \${token}\`
+    if (apiKey) headers['X-API-Key'] = apiKey
+
+    try {
+      const response = await fetch(\`\${baseUrl}\${API_BASE_PATH}\${buildPath(path, params)}\`, {
+        method,
+        headers,
+        body,
+        signal: controller.signal
+      })
+      if (!response.ok) {
+        const errorBody = await response.json().catch(() => null) as ErrorResponse | null
+        throw new ApiError(response.status, errorBody)
+      }
+      onResponse?.(response, { method, path })
+      return response
+    } catch (error: unknown) {
+      if (timedOut && error instanceof Error && error.name === 'AbortError') {
+        throw new Error('Request timed out. Please try again.')
+      }
+      throw error
+    } finally {
+      clearTimeout(id)
+      options.signal?.removeEventListener('abort', onCallerAbort)
+    }
+  }
+
+  return {
+${ops.map(renderOperation).join('\n\n')}
+  }
+}
+
+export type ApiClient = ReturnType<typeof createApiClient>
+`;
+}
+
+const output = render(openApiDocument);
+
+if (process.argv.includes('--check')) {
+  const current = fs.existsSync(OUTPUT) ? fs.readFileSync(OUTPUT, 'utf8') : '';
+  if (current !== output) {
+    console.error(`${path.relative(process.cwd(), OUTPUT)} is out of date; run npm run generate:client`);
+    process.exit(1);
+  }
+  console.log('API client is up to date');
+} else {
+  fs.writeFileSync(OUTPUT, output);
+  console.log(`Wrote ${path.relative(process.cwd(), OUTPUT)}`);
+}
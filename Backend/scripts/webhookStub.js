@@ -0,0 +1,36 @@
+// Local stand-in for the alert webhook: accepts the server's POSTs and prints
+// each alert, so rules can be tried without a real endpoint.
+//
+//   npm run webhook-stub                     listen on port 4010
+//   WEBHOOK_STUB_PORT=5000 npm run webhook-stub
+//   WEBHOOK_STUB_STATUS=500 npm run webhook-stub   answer with an error
+//
+// Then start the server with ALERT_WEBHOOK_URL=http://localhost:4010/alerts
+import http from 'http';
+
+const PORT = Number(process.env.WEBHOOK_STUB_PORT) || 4010;
+const STATUS = Number(process.env.WEBHOOK_STUB_STATUS) || 204;
+
+const server = http.createServer((req, res) => {
+  let body = '';
+  req.setEncoding('utf8');
+  req.on('data', (chunk) => { body += chunk; });
+  req.on('end', () => {
+    let payload = null;
+    try {
+      payload = JSON.parse(body);
+    } catch {
+      // Logged raw below
+    }
+    const alert = payload?.alert;
+    console.log(alert
+      ? `${new Date().toISOString()} ${req.method} ${req.url} alert ${alert.id}: ${alert.message}`
+      : `${new Date().toISOString()} ${req.method} ${req.url} ${body || '(empty body)'}`);
+    res.writeHead(STATUS);
+    res.end();
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`Webhook stub listening on http://localhost:${PORT}, answering ${STATUS}`);
+});
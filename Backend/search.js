@@ -0,0 +1,84 @@
+// Company search across name, ticker and ISIN: exact and prefix matches
+// first, then substrings, then typo-tolerant fuzzy matches.
+
+const SCORES = {
+  exactTicker: 100,
+  exactIsin: 100,
+  exactName: 95,
+  tickerPrefix: 80,
+  namePrefix: 75,
+  wordPrefix: 70,
+  isinPrefix: 60,
+  substring: 40,
+  fuzzy: 20
+};
+
+export const DEFAULT_SEARCH_LIMIT = 10;
+export const MAX_SEARCH_LIMIT = 50;
+
+// Edit distance counting adjacent transpositions as one edit (optimal string
+// alignment), giving up early once it exceeds `max`
+function editDistance(a, b, max) {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let beforePrevious = null;
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (beforePrevious && i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], beforePrevious[j - 2] + 1);
+      }
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    beforePrevious = previous;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// One typo allowed for short queries, two for longer ones
+function fuzzyMatches(query, candidates) {
+  if (query.length < 3) return false;
+  const max = query.length < 6 ? 1 : 2;
+  return candidates.some(c => editDistance(query, c.slice(0, query.length), max) <= max);
+}
+
+function scoreCompany(company, query) {
+  const q = query.toLowerCase();
+  const name = company.name.toLowerCase();
+  const ticker = company.ticker.toLowerCase();
+  const isin = (company.isin || '').toLowerCase();
+  const words = name.split(/[\s.,&()-]+/).filter(Boolean);
+
+  if (ticker === q) return { score: SCORES.exactTicker, matchedOn: 'ticker' };
+  if (isin && isin === q) return { score: SCORES.exactIsin, matchedOn: 'isin' };
+  if (name === q) return { score: SCORES.exactName, matchedOn: 'name' };
+  if (ticker.startsWith(q)) return { score: SCORES.tickerPrefix, matchedOn: 'ticker' };
+  if (name.startsWith(q)) return { score: SCORES.namePrefix, matchedOn: 'name' };
+  if (words.some(w => w.startsWith(q))) return { score: SCORES.wordPrefix, matchedOn: 'name' };
+  if (isin && isin.startsWith(q)) return { score: SCORES.isinPrefix, matchedOn: 'isin' };
+  if (name.includes(q) || ticker.includes(q)) {
+    return { score: SCORES.substring, matchedOn: ticker.includes(q) ? 'ticker' : 'name' };
+  }
+  if (fuzzyMatches(q, [ticker, name, ...words])) return { score: SCORES.fuzzy, matchedOn: 'fuzzy' };
+  return null;
+}
+
+export function searchCompanies(companies, query, limit = DEFAULT_SEARCH_LIMIT) {
+  const q = String(query || '').trim();
+  if (!q) return [];
+
+  const results = [];
+  for (const company of companies) {
+    const match = scoreCompany(company, q);
+    if (match) results.push({ ...company, ...match });
+  }
+
+  return results
+    .sort((a, b) => b.score - a.score || a.name.localeCompare(b.name))
+    .slice(0, limit);
+}
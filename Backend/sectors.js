@@ -0,0 +1,162 @@
+// Sector/industry taxonomy and peer-group aggregates. A company record names
+// its industry (the `Industry` field of a companyData entry); the sector
+// follows from the taxonomy, so the two can't disagree. Keys are unique across
+// sectors and industries, so either can name a peer group.
+
+export const SECTORS = [
+  {
+    key: 'information_technology',
+    name: 'Information Technology',
+    industries: [
+      { key: 'it_services', name: 'IT Services & Consulting' },
+      { key: 'software_products', name: 'Software Products' }
+    ]
+  },
+  {
+    key: 'financials',
+    name: 'Financials',
+    industries: [
+      { key: 'banks', name: 'Banks' },
+      { key: 'nbfc', name: 'Non-Banking Financial Companies' },
+      { key: 'insurance', name: 'Insurance' }
+    ]
+  },
+  {
+    key: 'consumer_staples',
+    name: 'Consumer Staples',
+    industries: [
+      { key: 'fmcg', name: 'FMCG' },
+      { key: 'food_beverages', name: 'Food & Beverages' }
+    ]
+  },
+  {
+    key: 'energy',
+    name: 'Energy',
+    industries: [
+      { key: 'oil_gas', name: 'Oil & Gas' },
+      { key: 'power', name: 'Power Generation & Distribution' }
+    ]
+  },
+  {
+    key: 'industrials',
+    name: 'Industrials',
+    industries: [
+      { key: 'capital_goods', name: 'Capital Goods' },
+      { key: 'construction', name: 'Construction & Engineering' }
+    ]
+  },
+  {
+    key: 'materials',
+    name: 'Materials',
+    industries: [
+      { key: 'metals_mining', name: 'Metals & Mining' },
+      { key: 'cement', name: 'Cement' },
+      { key: 'chemicals', name: 'Chemicals' }
+    ]
+  },
+  {
+    key: 'health_care',
+    name: 'Health Care',
+    industries: [
+      { key: 'pharmaceuticals', name: 'Pharmaceuticals' },
+      { key: 'hospitals', name: 'Hospitals & Diagnostics' }
+    ]
+  },
+  {
+    key: 'consumer_discretionary',
+    name: 'Consumer Discretionary',
+    industries: [
+      { key: 'automobiles', name: 'Automobiles & Components' },
+      { key: 'retail', name: 'Retail' }
+    ]
+  },
+  {
+    key: 'communication_services',
+    name: 'Communication Services',
+    industries: [
+      { key: 'telecom', name: 'Telecom' },
+      { key: 'media', name: 'Media & Entertainment' }
+    ]
+  }
+];
+
+export const AGGREGATE_STATS = ['median', 'mean', 'sum', 'share'];
+// Sums and shares only make sense for amounts, not for ratios or growth rates
+export const AMOUNT_ONLY_STATS = ['sum', 'share'];
+
+const INDUSTRIES = new Map();
+for (const sector of SECTORS) {
+  for (const industry of sector.industries) INDUSTRIES.set(industry.key, { ...industry, sector: sector.key });
+}
+
+// The industry key for a workbook or API value given as a key or a name
+// (case-insensitive), or null when it isn't in the taxonomy
+export function resolveIndustry(value) {
+  const text = String(value ?? '').trim().toLowerCase();
+  if (!text) return null;
+  if (INDUSTRIES.has(text)) return text;
+  for (const industry of INDUSTRIES.values()) {
+    if (industry.name.toLowerCase() === text) return industry.key;
+  }
+  return null;
+}
+
+// { sector, industry } keys for an industry key; both null when unclassified
+export function classify(industryKey) {
+  const industry = INDUSTRIES.get(industryKey);
+  return industry ? { sector: industry.sector, industry: industry.key } : { sector: null, industry: null };
+}
+
+// The sector or industry a key names: { key, name, level }, or null
+export function findPeerGroup(key) {
+  const text = String(key ?? '').trim().toLowerCase();
+  const sector = SECTORS.find(s => s.key === text);
+  if (sector) return { key: sector.key, name: sector.name, level: 'sector' };
+  const industry = INDUSTRIES.get(text);
+  return industry ? { key: industry.key, name: industry.name, level: 'industry' } : null;
+}
+
+export const inPeerGroup = (company, group) =>
+  (group.level === 'sector' ? company.sector : company.industry) === group.key;
+
+const periodId = (p) => `${p.year}|${p.quarter ?? 0}`;
+
+function median(values) {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+// Combines the members' series ([{ points }], values already converted) into
+// one point per period any member reports: { year, quarter?, value, count },
+// `count` being how many members had a value
+export function aggregateSeries(seriesList, stat) {
+  const byPeriod = new Map();
+  for (const { points } of seriesList) {
+    for (const p of points) {
+      if (typeof p.value !== 'number') continue;
+      const id = periodId(p);
+      if (!byPeriod.has(id)) byPeriod.set(id, { year: p.year, quarter: p.quarter, values: [] });
+      byPeriod.get(id).values.push(p.value);
+    }
+  }
+  return Array.from(byPeriod.values())
+    .sort((a, b) => a.year - b.year || (a.quarter ?? 0) - (b.quarter ?? 0))
+    .map(({ year, quarter, values }) => {
+      const sum = values.reduce((total, v) => total + v, 0);
+      const value = stat === 'median' ? median(values) : stat === 'mean' ? sum / values.length : sum;
+      return { year, ...(quarter ? { quarter } : {}), value, count: values.length };
+    });
+}
+
+// One member's percentage of the group total in each period it reports
+export function shareSeries(member, seriesList) {
+  const totals = new Map(aggregateSeries(seriesList, 'sum').map(p => [periodId(p), p]));
+  return member.points
+    .filter(p => typeof p.value === 'number')
+    .map(p => {
+      const total = totals.get(periodId(p));
+      const value = total.value === 0 ? null : Math.round((p.value / total.value) * 1e6) / 1e4;
+      return { year: p.year, ...(p.quarter ? { quarter: p.quarter } : {}), value, count: total.count };
+    });
+}
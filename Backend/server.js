@@ -1,204 +1,1255 @@
 import express from 'express';
 import cors from 'cors';
-import { companyData } from './companyData.js';
-import fs from 'fs';
+import multer from 'multer';
+import { parseWorkbook, loadDataDirectory } from './ingest.js';
+import { buildExport } from './export.js';
+import { resolveDerivedMetric, listDerivedMetrics, computeDerivedSeries } from './derivedMetrics.js';
+import { createDataStore } from './dataStore.js';
+import { searchCompanies, DEFAULT_SEARCH_LIMIT, MAX_SEARCH_LIMIT } from './search.js';
+import { runQualityChecks, summarizeIssues, DEFAULT_YOY_THRESHOLD } from './quality.js';
+import { openApiDocument, API_BASE_PATH, MAX_BATCH_COMPANIES } from './openapi.js';
+import { createValidator } from './validation.js';
+import { openDatabase, DEFAULT_AUDIT_LIMIT } from './db.js';
+import { parseAdminTokens, requireAdmin } from './adminAuth.js';
+import { periodKey, periodLabel } from './periods.js';
+import { createConverter, describeUnit, PERCENT_UNIT, BASE_CURRENCY, BASE_SCALE } from './units.js';
+import { rankSeries, latestYear } from './rankings.js';
+import { openUserStore, UserStoreError } from './userStore.js';
+import { lookupMetric, compareMetricKeys, STATEMENTS } from './metricCatalog.js';
+import { SECTORS, AMOUNT_ONLY_STATS, classify, findPeerGroup, inPeerGroup, aggregateSeries, shareSeries } from './sectors.js';
+import { forecastSeries, ForecastError, DEFAULT_HORIZON } from './forecast.js';
+import { evaluateRule, deliverAlert, describeRule, MAX_RANK_THRESHOLD, DEFAULT_ALERT_LIMIT, DEFAULT_WEBHOOK_TIMEOUT_MS } from './alerts.js';
+import { createLogger, DEFAULT_MAX_BYTES, DEFAULT_MAX_FILES } from './logger.js';
+import { createMetrics } from './requestMetrics.js';
+import { HttpError, badRequest, notFound, conflict, unprocessable } from './errors.js';
+import { loadApiKeys, API_KEY_HEADER } from './apiKeys.js';
+import { rateLimit, DEFAULT_ANONYMOUS_LIMIT, DEFAULT_KEY_LIMIT } from './rateLimit.js';
+import { parseOrigins, originChecker, DEFAULT_CORS_ORIGINS } from './corsOrigins.js';
+import crypto from 'crypto';
+import path from 'path';
+import { fileURLToPath } from 'url';
 
-const logStream = fs.createWriteStream('server.log', { flags: 'a' });
+const SERVER_DIR = path.dirname(fileURLToPath(import.meta.url));
 
-function log(...args) {
-  const timestamp = new Date().toISOString();
-  const message = args.map(arg => 
-    typeof arg === 'object' ? JSON.stringify(arg, null, 2) : String(arg)
-  ).join(' ');
-  const logMessage = `[${timestamp}] ${message}\n`;
-  
-  process.stdout.write(logMessage);
-  logStream.write(logMessage);
-}
-process.on('unhandledRejection', (reason, promise) => {
-  log('Unhandled Rejection at:', promise, 'reason:', reason);
-});
-process.on('uncaughtException', (error) => {
-  log('Uncaught Exception:', error);
+// JSON lines on stdout and in LOG_FILE (next to this file by default, so the
+// working directory doesn't matter); LOG_FILE=off keeps stdout only
+const LOG_FILE = process.env.LOG_FILE || path.join(SERVER_DIR, 'server.log');
+const logger = createLogger({
+  file: LOG_FILE === 'off' ? null : LOG_FILE,
+  level: process.env.LOG_LEVEL || 'info',
+  maxBytes: Number(process.env.LOG_MAX_BYTES) || DEFAULT_MAX_BYTES,
+  maxFiles: Number(process.env.LOG_MAX_FILES ?? DEFAULT_MAX_FILES)
 });
 
 const app = express();
-app.use(cors());
+
+// Number of proxy hops (e.g. 1 on Render) whose X-Forwarded-For is trusted, so
+// that per-IP rate limits see the client rather than the proxy
+if (process.env.TRUST_PROXY) {
+  const hops = Number(process.env.TRUST_PROXY);
+  app.set('trust proxy', Number.isInteger(hops) ? hops : process.env.TRUST_PROXY);
+}
+
+const CORS_ORIGINS = parseOrigins(process.env.CORS_ORIGINS || DEFAULT_CORS_ORIGINS);
+app.use(cors({
+  origin: originChecker(CORS_ORIGINS),
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-Request-Id', API_KEY_HEADER],
+  exposedHeaders: ['Content-Disposition', 'ETag', 'X-Request-Id', 'RateLimit-Limit', 'RateLimit-Remaining', 'Retry-After']
+}));
+
+const requestMetrics = createMetrics();
+// Set once SIGTERM (or a crash) starts the shutdown; see shutdown() below
+let shuttingDown = false;
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9._-]{1,128}$/;
+
+// Tags each request with an ID (the caller's X-Request-Id when it looks sane),
+// echoes it in the response header, and logs and measures the request once
+// the response is sent
+app.use((req, res, next) => {
+  const started = process.hrtime.bigint();
+  const given = req.get('X-Request-Id');
+  req.id = given && REQUEST_ID_PATTERN.test(given) ? given : crypto.randomUUID();
+  req.log = logger.child({ requestId: req.id });
+  res.setHeader('X-Request-Id', req.id);
+
+  // Keep-alive sockets would hold a draining server open
+  if (shuttingDown) res.setHeader('Connection', 'close');
+
+  res.on('finish', () => {
+    const seconds = Number(process.hrtime.bigint() - started) / 1e9;
+    const route = req.route ? `${req.routeBase ?? req.baseUrl}${req.route.path}` : 'unmatched';
+    requestMetrics.observe({ method: req.method, route, status: res.statusCode, seconds });
+    const level = res.statusCode >= 500 ? 'error' : res.statusCode >= 400 ? 'warn' : 'info';
+    req.log[level](`${req.method} ${req.originalUrl} ${res.statusCode}`, {
+      method: req.method,
+      path: req.originalUrl,
+      route,
+      status: res.statusCode,
+      durationMs: Math.round(seconds * 1e4) / 10
+    });
+  });
+  next();
+});
+
 app.use(express.json());
 
+// Liveness: the process is up and serving requests
+app.get('/healthz', (req, res) => {
+  res.json({ status: 'ok', uptime: Math.round(process.uptime()) });
+});
+
+// Readiness: the data store has loaded and the server isn't shutting down.
+// Load balancers stop routing here as soon as this answers 503.
+app.get('/readyz', (req, res) => {
+  const snapshot = store.peek();
+  if (!snapshot || shuttingDown) {
+    return res.status(503).json({ status: shuttingDown ? 'shutting down' : 'loading', dataLoaded: Boolean(snapshot) });
+  }
+  res.json({ status: 'ready', dataLoaded: true, dataVersion: snapshot.version, companies: snapshot.companies.length });
+});
+
+// Prometheus scrape endpoint; outside /api so it isn't versioned or documented there
+app.get('/metrics', (req, res) => {
+  res.type('text/plain; version=0.0.4').send(requestMetrics.render());
+});
+
+// Every route lives on this router, mounted under API_BASE_PATH below
+const api = express.Router();
+const validate = createValidator(openApiDocument);
+
+// Express resets req.baseUrl once an error leaves the router, so the mount
+// path is kept here for the route label of error responses
+api.use((req, res, next) => {
+  req.routeBase = req.baseUrl;
+  next();
+});
+
+const API_KEYS_FILE = process.env.API_KEYS_FILE ||
+  path.join(SERVER_DIR, 'apiKeys.json');
+const apiKeys = loadApiKeys(API_KEYS_FILE);
+logger.info(`Loaded ${apiKeys.size} API keys from ${API_KEYS_FILE}`, { corsOrigins: CORS_ORIGINS });
+
+// Requests per minute: RATE_LIMIT_ANONYMOUS per client IP, RATE_LIMIT_KEY per
+// API key unless the key sets its own
+api.use(rateLimit({
+  apiKeys,
+  anonymousLimit: Number(process.env.RATE_LIMIT_ANONYMOUS) || DEFAULT_ANONYMOUS_LIMIT,
+  keyLimit: Number(process.env.RATE_LIMIT_KEY) || DEFAULT_KEY_LIMIT
+}));
+
+const DATA_DIR = process.env.DATA_DIR ||
+  path.join(SERVER_DIR, 'data');
+const DATABASE_FILE = process.env.DATABASE_FILE ||
+  path.join(SERVER_DIR, 'financials.sqlite');
+const USER_DATA_FILE = process.env.USER_DATA_FILE ||
+  path.join(SERVER_DIR, 'userData.json');
+const adminOnly = requireAdmin(parseAdminTokens(process.env.ADMIN_TOKENS));
+const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+
+// Default relative YoY change flagged by /api/v1/quality; ?threshold= overrides it
+const QUALITY_YOY_THRESHOLD = Number(process.env.QUALITY_YOY_THRESHOLD) || DEFAULT_YOY_THRESHOLD;
+
+// Triggered alerts are POSTed here when set; `npm run webhook-stub` serves a
+// local endpoint that logs them
+const ALERT_WEBHOOK_URL = process.env.ALERT_WEBHOOK_URL || null;
+const ALERT_WEBHOOK_TIMEOUT_MS = Number(process.env.ALERT_WEBHOOK_TIMEOUT_MS) || DEFAULT_WEBHOOK_TIMEOUT_MS;
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_UPLOAD_BYTES, files: 1 }
+});
+
+// Workbooks in DATA_DIR are written into the database at startup, audited
+// as 'data-dir'. Only values that differ from the database are written, so
+// a workbook re-applies its own values on every restart.
+function loadDataDirectoryOnStartup() {
+  logger.info(`Loading workbooks from ${DATA_DIR}`);
+  try {
+    const { companies, reports } = loadDataDirectory(DATA_DIR);
+    for (const report of reports) {
+      logger.info(`Loaded ${report.file}: ${report.rowsAccepted} rows accepted, ${report.rowsRejected} rejected`);
+      for (const err of report.errors) {
+        logger.warn(`Rejected row in ${report.file}: ${err.message}`, { sheet: err.sheet, row: err.row, column: err.column });
+      }
+    }
+    const written = database.importCompanyData(companies, 'data-dir');
+    logger.info(`Loaded ${companies.length} companies from ${reports.length} workbooks`, written);
+  } catch (error) {
+    logger.error('Error loading data directory', { err: error });
+  }
+}
+
+// Companies, metrics and values: the one source that /data serves, seeded
+// from companyData.js by the first migration and changed by the admin
+// routes, uploads and DATA_DIR workbooks
+const database = await openDatabase(DATABASE_FILE);
+logger.info(`Opened database ${DATABASE_FILE}`, { migrations: database.migrations });
+
+// Watchlists and dashboards saved by the users of the frontend
+const userStore = openUserStore(USER_DATA_FILE);
+
 function loadData() {
-  log(`Loading embedded company data...`);
+  logger.debug('Loading company data from the database');
+  try {
+    const companies = database.readCompanyData();
+    logger.info(`Loaded data for ${companies.length} companies`);
+    return companies;
+  } catch (error) {
+    logger.error('Error loading company data', { err: error });
+    throw new Error(`Failed to load company data: ${error.message}`);
+  }
+}
+
+const store = createDataStore(loadData);
+
+// Rebuilds the indexed snapshot after the underlying data changed, then
+// checks the alert rules against it. A failing rule check is logged; the new
+// data is served regardless.
+function reloadStore() {
+  const started = process.hrtime.bigint();
+  const snapshot = store.reload();
+  const elapsedMs = Number(process.hrtime.bigint() - started) / 1e6;
+  logger.info(`Data store v${snapshot.version}: ${snapshot.records.length} data points for ${snapshot.companies.length} companies and ${snapshot.metrics.length} metrics`, { buildMs: Number(elapsedMs.toFixed(1)), hash: snapshot.hash });
   try {
-    log(`Successfully loaded data for ${companyData.length} companies`);
-    return companyData;
+    evaluateAlertRules(snapshot);
   } catch (error) {
-    log('Error loading embedded data:', error);
-    throw new Error(`Failed to load embedded data: ${error.message}`);
-  }
-}
-
-function parseData() {
-  log('Loading data...');
-  const rawData = loadData();
-  log(`Found data for ${rawData.length} companies`);
-  
-  const companies = new Set();
-  const metrics = new Set();
-  const records = [];
-  
-  for (const companyData of rawData) {
-    const ticker = companyData.Ticker || '';
-    const companyName = companyData['Company name'] || '';
-    
-    if (!ticker || !companyName) continue;
-    
-    companies.add(companyName);
-    
-    const financials = companyData.Financials || {};
-    
-    for (const [metric, years] of Object.entries(financials)) {
-      if (!years || typeof years !== 'object') continue;
-      
-      metrics.add(metric);
-      
-      for (const [yearStr, value] of Object.entries(years)) {
-        if (typeof value !== 'number') continue;
-        
-        const year = parseInt(yearStr, 10);
-        if (isNaN(year)) continue;
-        
-        records.push({
-          company: companyName,
-          ticker: ticker,
-          field: metric.toLowerCase(),
-          year: year,
-          value: value
+    logger.error('Alert rule evaluation failed', { err: error });
+  }
+  return snapshot;
+}
+
+// Checks `rules` (all of them by default) against a snapshot and records the
+// alerts they raise (see alerts.js). Webhook deliveries run in the background
+// and update each alert's delivery status when they finish.
+function evaluateAlertRules(snapshot, rules = database.listAlertRules()) {
+  // Rankings compare every company, so their series are built once per metric
+  const peerSeries = new Map();
+  const peersFor = (rule) => () => {
+    if (!peerSeries.has(rule.metric)) {
+      peerSeries.set(rule.metric, snapshot.companyInfo
+        .map(info => findSeries(snapshot, info, rule.metric, { period: 'annual' }))
+        .filter(Boolean));
+    }
+    return peerSeries.get(rule.metric);
+  };
+
+  const raised = [];
+  for (const rule of rules) {
+    const info = snapshot.findByTicker(rule.ticker);
+    const series = info && findSeries(snapshot, info, rule.metric, { period: rule.period });
+    const order = metricInfo(rule.metric).higherIsBetter ? 'desc' : 'asc';
+    const result = evaluateRule(rule, series, peersFor(rule), { order });
+    // No data to judge: leave the rule as it was until some arrives
+    if (!result) continue;
+    if (!result.holds) {
+      if (rule.triggeredPeriod !== null) database.clearAlertRule(rule.id);
+      continue;
+    }
+    const key = periodKey(result);
+    if (rule.triggeredPeriod === key) continue;
+
+    const alert = database.recordAlert(rule, result, key, ALERT_WEBHOOK_URL ? 'pending' : 'disabled');
+    logger.info(`Alert ${alert.id} (rule ${rule.id}): ${alert.message}`);
+    raised.push(alert);
+    if (ALERT_WEBHOOK_URL) {
+      deliverAlert(ALERT_WEBHOOK_URL, alert, { timeoutMs: ALERT_WEBHOOK_TIMEOUT_MS })
+        .then(({ delivery, error }) => {
+          if (error) logger.warn(`Alert ${alert.id} webhook delivery failed: ${error}`);
+          database.setAlertDelivery(alert.id, delivery, error);
+        })
+        // An unhandled rejection would stop the server; the outcome couldn't
+        // be stored, so record the delivery as failed where possible
+        .catch(error => {
+          logger.error(`Could not record the webhook delivery of alert ${alert.id}`, { err: error });
+          try {
+            database.setAlertDelivery(alert.id, 'failed', `Delivery not recorded: ${error.message}`);
+          } catch (retryError) {
+            logger.error(`Could not mark alert ${alert.id} as failed`, { err: retryError });
+          }
         });
-      }
     }
   }
+  return raised;
+}
+
+// Conditional GET for routes whose response depends only on the dataset and
+// the URL: the ETag is the dataset hash (plus the API version, in case a
+// deploy changes the response shape), so an unchanged dataset answers 304
+// without building the payload. no-cache lets browsers keep the response
+// but revalidate every time, so uploads and admin edits show up at once.
+const DATA_CACHE_CONTROL = 'public, no-cache';
+
+function cacheByDataset(req, res, next) {
+  res.setHeader('ETag', `W/"${openApiDocument.info.version}-${store.current().hash}"`);
+  res.setHeader('Cache-Control', DATA_CACHE_CONTROL);
+  if (req.fresh) return res.status(304).end();
+  next();
+}
+
+api.get('/companies', validate('listCompanies'), cacheByDataset, (req, res) => {
+  req.log.debug('Request received for /api/v1/companies');
+  const data = store.current();
+  req.log.debug(`Found ${data.companies.length} companies`);
+  res.json({ 
+    success: true,
+    count: data.companyInfo.length,
+    companies: data.companyInfo 
+  });
+});
+
+// Catalog metadata (see metricCatalog.js) for a reported or derived metric;
+// a derived metric sits under the statement of its first input
+function metricInfo(key) {
+  const definition = resolveDerivedMetric(key);
+  if (definition) {
+    const { name, unit, formula, inputs } = definition;
+    const { statement, higherIsBetter } = lookupMetric(inputs[0]);
+    return { key: definition.key, name, derived: true, unit, statement, higherIsBetter, formula, inputs };
+  }
+  const { key: upper, name, unit, statement, aggregation, higherIsBetter, description } = lookupMetric(key);
+  return {
+    key: upper,
+    name,
+    derived: false,
+    unit: unit === 'currency' ? describeUnit(BASE_CURRENCY, BASE_SCALE).label : unit,
+    statement,
+    aggregation,
+    higherIsBetter,
+    ...(description ? { description } : {})
+  };
+}
+
+api.get('/metrics', validate('listMetrics'), cacheByDataset, (req, res) => {
+  req.log.debug('Request received for /api/v1/metrics');
+  const data = store.current();
+  const metrics = [
+    ...[...data.metrics].sort(compareMetricKeys).map(metricInfo),
+    // Stable sort: each base metric's derived ones stay together
+    ...listDerivedMetrics(data.metrics)
+      .sort((a, b) => compareMetricKeys(a.inputs[0], b.inputs[0]))
+      .map(({ key }) => metricInfo(key))
+  ];
+  // Statements in catalog order, each listing its reported metrics before the derived ones
+  const statements = STATEMENTS
+    .map(({ key, name }) => ({ key, name, metrics: metrics.filter(m => m.statement === key).map(m => m.key) }))
+    .filter(group => group.metrics.length > 0);
+  req.log.debug(`Found ${data.metrics.length} base and ${metrics.length - data.metrics.length} derived metrics`);
+  res.json({ 
+    success: true,
+    count: metrics.length,
+    metrics,
+    statements
+  });
+});
+
+// How a metric's values were produced, echoed back in data responses
+function describeMetric(metric) {
+  const definition = resolveDerivedMetric(metric);
+  if (!definition) return { derived: false, unit: null };
+  const { name, type, unit, formula, inputs, window } = definition;
+  return { derived: true, name, type, unit, formula, inputs, ...(window ? { window } : {}) };
+}
+
+// Units of a metric's values once converted to the requested currency and scale
+function describeUnits(metric, { currency = BASE_CURRENCY, scale = BASE_SCALE } = {}) {
+  return resolveDerivedMetric(metric) ? PERCENT_UNIT : describeUnit(currency, scale);
+}
+
+// `options` are { period, currency, scale }; base values are converted before
+// derived metrics are computed so growth rates follow the chosen currency
+function findSeries(snapshot, info, metric, options = {}) {
+  const { period = 'annual' } = options;
+  const convert = createConverter(options);
+  const read = (key) => {
+    const points = snapshot.getSeries(info.ticker, key, period);
+    return points && convert ? points.map(convert) : points;
+  };
   
-  const companyList = Array.from(companies).sort();
-  const metricList = Array.from(metrics).sort();
+  const definition = resolveDerivedMetric(metric);
+  const points = definition
+    ? findDerivedPoints(read, definition, period)
+    : read(metric);
   
-  log(`Processed ${records.length} data points for ${companyList.length} companies and ${metricList.length} metrics`);
+  if (!points || points.length === 0) return null;
   
-  return { 
-    records,
-    companies: companyList,
-    metrics: metricList 
+  return {
+    company: info.name,
+    ticker: info.ticker,
+    isin: info.isin,
+    unit: describeUnits(metric, options),
+    points
   };
 }
 
-app.get('/api/companies', (req, res) => {
-  log('Request received for /api/companies');
-  try {
-    const data = parseData();
-    log(`Found ${data.companies.length} companies`);
-    res.json({ 
-      success: true,
-      count: data.companies.length,
-      companies: data.companies 
-    });
-  } catch (err) {
-    log('Error in /api/companies:', err);
-    res.status(500).json({ 
-      success: false,
-      error: String(err.message || err),
-      stack: process.env.NODE_ENV === 'development' ? err.stack : undefined
-    });
+function findDerivedPoints(read, definition, period) {
+  const inputs = {};
+  for (const input of definition.inputs) {
+    const points = read(input);
+    if (points) inputs[input] = points;
+  }
+  
+  if (Object.keys(inputs).length === 0) return null;
+  
+  // Values that could not be converted count as missing inputs
+  const byYear = (points, quarter) => new Map(points
+    .filter(p => (p.quarter ?? null) === quarter && p.value !== null)
+    .map(p => [p.year, p.value]));
+  if (period === 'annual') {
+    return computeDerivedSeries(definition, Object.fromEntries(
+      Object.entries(inputs).map(([input, points]) => [input, byYear(points, null)])
+    ));
+  }
+  
+  // Quarterly and TTM growth compares a quarter with the same quarter of
+  // earlier fiscal years, so each quarter is derived as its own series
+  return [1, 2, 3, 4]
+    .flatMap(quarter => computeDerivedSeries(definition, Object.fromEntries(
+      Object.entries(inputs).map(([input, points]) => [input, byYear(points, quarter)])
+    )).map(p => ({ year: p.year, quarter, value: p.value })))
+    .sort((a, b) => a.year - b.year || a.quarter - b.quarter);
+}
+
+// Accepts repeated params (?company=A&company=B); order is kept, duplicates dropped
+function queryList(value) {
+  const values = Array.isArray(value) ? value : [value];
+  const seen = new Set();
+  const list = [];
+  for (const v of values) {
+    const item = String(v ?? '').trim();
+    if (!item || seen.has(item.toLowerCase())) continue;
+    seen.add(item.toLowerCase());
+    list.push(item);
+  }
+  return list;
+}
+
+// Company identifiers from ?company= (name), ?ticker= and ?isin=, each repeatable
+function companyRefs(query) {
+  return [
+    ...queryList(query.company).map(value => ({ by: 'company', value })),
+    ...queryList(query.ticker).map(value => ({ by: 'ticker', value })),
+    ...queryList(query.isin).map(value => ({ by: 'isin', value }))
+  ];
+}
+
+function findCompany(snapshot, ref) {
+  if (ref.by === 'ticker') return snapshot.findByTicker(ref.value);
+  if (ref.by === 'isin') return snapshot.findByIsin(ref.value);
+  return snapshot.findByName(ref.value);
+}
+
+// Resolves refs to distinct companies; unknown ones are reported as `${by}=${value}`
+function resolveCompanies(snapshot, refs) {
+  const companies = [];
+  const unknown = [];
+  const seen = new Set();
+  for (const ref of refs) {
+    const info = findCompany(snapshot, ref);
+    if (!info) {
+      unknown.push(`${ref.by}=${ref.value}`);
+      continue;
+    }
+    if (seen.has(info.ticker)) continue;
+    seen.add(info.ticker);
+    companies.push(info);
+  }
+  return { companies, unknown };
+}
+
+// Period and units shared by the series routes; validation has already
+// checked the values against the spec
+function seriesOptions(query) {
+  return {
+    period: String(query.period || 'annual').trim().toLowerCase(),
+    currency: String(query.currency || BASE_CURRENCY).trim().toUpperCase(),
+    scale: String(query.scale || BASE_SCALE).trim().toLowerCase()
+  };
+}
+
+api.get('/data', validate('getSeries'), cacheByDataset, (req, res) => {
+  const refs = companyRefs(req.query);
+  const metric = String(req.query.metric || '').trim().toLowerCase();
+  const options = seriesOptions(req.query);
+  const { period } = options;
+  const label = refs.map(r => `${r.by}=${r.value}`).join('&');
+  
+  req.log.debug(`Request received for /api/v1/data?${label}&metric=${metric}&period=${period}&currency=${options.currency}&scale=${options.scale}`);
+  
+  if (refs.length !== 1 || !metric) {
+    req.log.debug('Missing required parameters');
+    throw badRequest('Missing required query params: exactly one of company, ticker or isin, plus metric');
   }
+
+  const snapshot = store.current();
+  const info = findCompany(snapshot, refs[0]);
+  const series = info && findSeries(snapshot, info, metric, options);
+  
+  if (!series) {
+    req.log.debug('No data found for the specified company and metric');
+    throw notFound(info
+      ? `No ${period} data found for company '${info.name}' and metric '${metric}'`
+      : `Unknown company: ${label}`);
+  }
+  
+  const { ticker, isin, unit, points } = series;
+  
+  res.json({ 
+    success: true,
+    company: {
+      name: series.company,
+      ticker: ticker,
+      isin: isin
+    },
+    metric,
+    period,
+    unit,
+    derivation: describeMetric(metric),
+    points,
+    count: points.length,
+    found: points.length > 0
+  });
 });
 
-app.get('/api/metrics', (req, res) => {
-  log('Request received for /api/metrics');
-  try {
-    const data = parseData();
-    log(`Found ${data.metrics.length} metrics`);
-    res.json({ 
-      success: true,
-      count: data.metrics.length,
-      metrics: data.metrics 
-    });
-  } catch (err) {
-    log('Error in /api/metrics:', err);
-    res.status(500).json({ 
-      success: false,
-      error: String(err.message || err),
-      stack: process.env.NODE_ENV === 'development' ? err.stack : undefined
+api.get('/data/batch', validate('getSeriesBatch'), cacheByDataset, (req, res) => {
+  const refs = companyRefs(req.query);
+  const metric = String(req.query.metric || '').trim().toLowerCase();
+  const options = seriesOptions(req.query);
+  const { period } = options;
+  
+  req.log.debug(`Request received for /api/v1/data/batch?${refs.map(r => `${r.by}=${r.value}`).join('&')}&metric=${metric}&period=${period}&currency=${options.currency}&scale=${options.scale}`);
+  
+  if (refs.length === 0 || !metric) {
+    throw badRequest('Missing required query params: company, ticker or isin (repeatable), metric');
+  }
+  
+  if (refs.length > MAX_BATCH_COMPANIES) {
+    throw badRequest(`Too many companies: at most ${MAX_BATCH_COMPANIES} per request`);
+  }
+
+  const snapshot = store.current();
+  const resolved = resolveCompanies(snapshot, refs);
+  const series = [];
+  const missing = [...resolved.unknown];
+  
+  for (const info of resolved.companies) {
+    const found = findSeries(snapshot, info, metric, options);
+    if (!found) {
+      missing.push(info.name);
+      continue;
+    }
+    series.push({
+      company: { name: found.company, ticker: found.ticker, isin: found.isin },
+      unit: found.unit,
+      points: found.points,
+      count: found.points.length
     });
   }
+  
+  if (series.length === 0) {
+    throw notFound(`No ${period} data found for metric '${metric}' for any of the requested companies`);
+  }
+  
+  // Union of all years so clients can align series; a series without a
+  // value for one of these years has a gap there
+  const years = Array.from(new Set(series.flatMap(s => s.points.map(p => p.year))))
+    .sort((a, b) => a - b);
+  
+  req.log.debug(`Returning ${series.length} series for metric=${metric} (${missing.length} missing)`);
+  
+  res.json({
+    success: true,
+    metric,
+    period,
+    unit: describeUnits(metric, options),
+    derivation: describeMetric(metric),
+    series,
+    years,
+    missing,
+    count: series.length,
+    found: true
+  });
 });
 
-app.get('/api/data', (req, res) => {
-  const company = String(req.query.company || '').trim();
+api.get('/export', validate('exportSeries'), (req, res) => {
+  const refs = companyRefs(req.query);
   const metric = String(req.query.metric || '').trim().toLowerCase();
+  const format = String(req.query.format || 'csv').trim().toLowerCase();
+  const options = seriesOptions(req.query);
+  const { period } = options;
+  const companies = refs.map(r => r.value);
   
-  log(`Request received for /api/data?company=${company}&metric=${metric}`);
+  req.log.debug(`Request received for /api/v1/export?${refs.map(r => `${r.by}=${r.value}`).join('&')}&metric=${metric}&period=${period}&currency=${options.currency}&scale=${options.scale}&format=${format}`);
   
-  if (!company || !metric) {
-    log('Missing required parameters');
-    return res.status(400).json({ 
-      success: false,
-      error: 'Missing required query params: company, metric',
-      received: { company, metric }
-    });
+  if (refs.length === 0 || !metric) {
+    throw badRequest('Missing required query params: company, ticker or isin (repeatable), metric');
+  }
+  
+  if (refs.length > MAX_BATCH_COMPANIES) {
+    throw badRequest(`Too many companies: at most ${MAX_BATCH_COMPANIES} per request`);
   }
 
-  try {
-    const { records } = parseData();
-    log(`Processing request for company: ${company}, metric: ${metric}`);
-    log(`Total records: ${records.length}`);
-    
-    const companyRecords = records.filter(r => 
-      r.company.toLowerCase() === company.toLowerCase() && 
-      r.field.toLowerCase() === metric.toLowerCase()
-    );
-    
-    log(`Found ${companyRecords.length} records for company=${company}, metric=${metric}`);
-    
-    if (companyRecords.length === 0) {
-      log('No data found for the specified company and metric');
-      return res.status(404).json({
-        success: false,
-        error: `No data found for company '${company}' and metric '${metric}'`,
-        company,
-        metric,
-        found: false
-      });
+  const snapshot = store.current();
+  const series = resolveCompanies(snapshot, refs).companies
+    .map(info => findSeries(snapshot, info, metric, options))
+    .filter(Boolean);
+  
+  if (series.length === 0) {
+    throw notFound(`No data found for company '${companies.join(', ')}' and metric '${metric}'`);
+  }
+  
+  const file = buildExport({ metric, period, unit: describeUnits(metric, options), series }, format);
+  req.log.debug(`Exporting ${series.length} series as ${file.filename}`);
+  
+  res.setHeader('Content-Type', file.contentType);
+  res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+  res.send(file.body);
+});
+
+api.get('/search', validate('searchCompanies'), cacheByDataset, (req, res) => {
+  const q = String(req.query.q || '').trim();
+  const limit = Math.min(
+    Math.max(parseInt(req.query.limit, 10) || DEFAULT_SEARCH_LIMIT, 1),
+    MAX_SEARCH_LIMIT
+  );
+  
+  req.log.debug(`Request received for /api/v1/search?q=${q}&limit=${limit}`);
+
+  const results = searchCompanies(store.current().companyInfo, q, limit);
+  res.json({
+    success: true,
+    query: q,
+    count: results.length,
+    results
+  });
+});
+
+api.get('/quality', validate('getQualityReport'), cacheByDataset, (req, res) => {
+  const refs = companyRefs(req.query);
+  const metric = String(req.query.metric || '').trim().toLowerCase() || null;
+  const threshold = req.query.threshold !== undefined ? Number(req.query.threshold) : QUALITY_YOY_THRESHOLD;
+  
+  req.log.debug(`Request received for /api/v1/quality?${refs.map(r => `${r.by}=${r.value}`).join('&')}&metric=${metric ?? ''}&threshold=${threshold}`);
+  
+  if (refs.length > MAX_BATCH_COMPANIES) {
+    throw badRequest(`Too many companies: at most ${MAX_BATCH_COMPANIES} per request`);
+  }
+
+  const snapshot = store.current();
+  const resolved = refs.length > 0
+    ? resolveCompanies(snapshot, refs)
+    : { companies: snapshot.companyInfo, unknown: [] };
+  const issues = runQualityChecks(snapshot, { companies: resolved.companies, metric, threshold });
+  
+  req.log.debug(`Found ${issues.length} quality issues across ${resolved.companies.length} companies`);
+  
+  res.json({
+    success: true,
+    threshold,
+    issues,
+    count: issues.length,
+    summary: summarizeIssues(issues),
+    missing: resolved.unknown
+  });
+});
+
+// Ranks every company on a metric in one fiscal year; with window=N the
+// ranking is on the metric's N-year CAGR instead
+api.get('/rankings', validate('getRankings'), cacheByDataset, (req, res) => {
+  const metric = String(req.query.metric || '').trim().toLowerCase();
+  const window = req.query.window !== undefined ? Number(req.query.window) : null;
+  // By default the best value ranks first: the lowest for metrics such as debt
+  const order = req.query.order !== undefined
+    ? String(req.query.order).trim().toLowerCase()
+    : metricInfo(metric).higherIsBetter ? 'desc' : 'asc';
+  const options = { ...seriesOptions(req.query), period: 'annual' };
+  
+  req.log.debug(`Request received for /api/v1/rankings?metric=${metric}&year=${req.query.year ?? ''}&window=${window ?? ''}&order=${order}`);
+  
+  if (window !== null && resolveDerivedMetric(metric)) {
+    throw badRequest(`window applies to reported metrics only; '${metric}' is derived`);
+  }
+
+  const snapshot = store.current();
+  const key = window !== null ? `${metric}_cagr_${window}y` : metric;
+  const series = snapshot.companyInfo
+    .map(info => findSeries(snapshot, info, key, options))
+    .filter(Boolean);
+  const year = req.query.year !== undefined ? Number(req.query.year) : latestYear(series);
+  const { rows, missing } = rankSeries(series, { year, order });
+  
+  if (rows.length === 0) {
+    throw notFound(`No values for metric '${key}' in ${year ?? 'any year'}`);
+  }
+  
+  const withSeries = new Set(series.map(s => s.ticker));
+  const withoutData = snapshot.companyInfo.filter(c => !withSeries.has(c.ticker)).map(c => c.name);
+  req.log.debug(`Ranked ${rows.length} companies on ${key} for ${year}`);
+  
+  res.json({
+    success: true,
+    metric: key,
+    year,
+    window,
+    order,
+    unit: describeUnits(key, options),
+    derivation: describeMetric(key),
+    rankings: rows,
+    count: rows.length,
+    missing: [...missing, ...withoutData],
+    found: true
+  });
+});
+
+// Projects one company's annual series a few fiscal years ahead
+api.get('/forecast', validate('getForecast'), cacheByDataset, (req, res) => {
+  const refs = companyRefs(req.query);
+  const metric = String(req.query.metric || '').trim().toLowerCase();
+  const horizon = req.query.horizon !== undefined ? Number(req.query.horizon) : DEFAULT_HORIZON;
+  const method = String(req.query.method || 'linear').trim().toLowerCase();
+  const options = { ...seriesOptions(req.query), period: 'annual' };
+  const label = refs.map(r => `${r.by}=${r.value}`).join('&');
+  
+  req.log.debug(`Request received for /api/v1/forecast?${label}&metric=${metric}&horizon=${horizon}&method=${method}`);
+  
+  if (refs.length !== 1) {
+    throw badRequest('Missing required query params: exactly one of company, ticker or isin, plus metric');
+  }
+
+  const snapshot = store.current();
+  const info = findCompany(snapshot, refs[0]);
+  const series = info && findSeries(snapshot, info, metric, options);
+  
+  if (!series) {
+    throw notFound(info
+      ? `No annual data found for company '${info.name}' and metric '${metric}'`
+      : `Unknown company: ${label}`);
+  }
+  
+  const projection = forecastSeries(series.points, { method, horizon });
+  req.log.debug(`Projected ${series.company} ${metric} ${horizon} years past ${projection.lastReportedYear} (${method})`);
+  
+  res.json({
+    success: true,
+    company: { name: series.company, ticker: series.ticker, isin: series.isin },
+    metric,
+    method,
+    horizon,
+    confidence: projection.confidence,
+    lastReportedYear: projection.lastReportedYear,
+    params: projection.params,
+    unit: series.unit,
+    forecast: projection.points,
+    found: true
+  });
+});
+
+// The sector/industry taxonomy with the tickers classified under each
+api.get('/sectors', validate('listSectors'), cacheByDataset, (req, res) => {
+  req.log.debug('Request received for /api/v1/sectors');
+  const { companyInfo } = store.current();
+  const tickers = (test) => companyInfo.filter(test).map(c => c.ticker);
+  const sectors = SECTORS.map(sector => ({
+    key: sector.key,
+    name: sector.name,
+    companies: tickers(c => c.sector === sector.key),
+    industries: sector.industries.map(industry => ({
+      key: industry.key,
+      name: industry.name,
+      companies: tickers(c => c.industry === industry.key)
+    }))
+  }));
+  res.json({
+    success: true,
+    count: sectors.length,
+    sectors,
+    unclassified: tickers(c => !c.sector)
+  });
+});
+
+// One series for a sector or industry: the median, mean or sum of its
+// members' values, or (stat=share) one member's share of the group total
+api.get('/sectors/:group/aggregate', validate('getSectorAggregate'), cacheByDataset, (req, res) => {
+  const metric = String(req.query.metric || '').trim().toLowerCase();
+  const stat = String(req.query.stat || 'median').trim().toLowerCase();
+  const options = seriesOptions(req.query);
+  const { period } = options;
+
+  req.log.debug(`Request received for /api/v1/sectors/${req.params.group}/aggregate?metric=${metric}&stat=${stat}&period=${period}`);
+
+  const group = findPeerGroup(req.params.group);
+  if (!group) {
+    throw notFound(`Unknown sector or industry: ${req.params.group}`);
+  }
+  if (AMOUNT_ONLY_STATS.includes(stat) && resolveDerivedMetric(metric)) {
+    throw badRequest(`stat=${stat} needs a reported metric; '${metric}' is derived`);
+  }
+  if (stat === 'share' && !req.query.ticker) {
+    throw badRequest('stat=share needs the ticker of the member whose share to return');
+  }
+
+  const snapshot = store.current();
+  const members = snapshot.companyInfo.filter(c => inPeerGroup(c, group));
+  const seriesList = members.map(info => findSeries(snapshot, info, metric, options)).filter(Boolean);
+  if (seriesList.length === 0) {
+    throw notFound(members.length === 0
+      ? `No companies are classified under ${group.name}`
+      : `No ${period} data found for metric '${metric}' in ${group.name}`);
+  }
+
+  let company = null;
+  let points;
+  if (stat === 'share') {
+    const member = seriesList.find(s => s.ticker === String(req.query.ticker).trim().toUpperCase());
+    if (!member) {
+      throw notFound(`${req.query.ticker} has no ${period} '${metric}' data in ${group.name}`);
     }
-    
-    const points = companyRecords
-      .map(r => ({
-        year: r.year,
-        value: r.value
-      }))
-      .sort((a, b) => a.year - b.year);
-    
-    const ticker = companyRecords[0].ticker;
-    
-    res.json({ 
-      success: true,
-      company: {
-        name: company,
-        ticker: ticker
-      },
-      metric,
-      points,
-      count: points.length,
-      found: points.length > 0
-    });
-  } catch (err) {
-    log('Error in /api/data:', err);
-    res.status(500).json({ 
-      success: false,
-      error: String(err.message || err),
-      stack: process.env.NODE_ENV === 'development' ? err.stack : undefined
-    });
+    company = { name: member.company, ticker: member.ticker, isin: member.isin };
+    points = shareSeries(member, seriesList);
+  } else {
+    points = aggregateSeries(seriesList, stat);
   }
+
+  const reporting = new Set(seriesList.map(s => s.ticker));
+  res.json({
+    success: true,
+    group,
+    metric,
+    stat,
+    period,
+    unit: stat === 'share' ? PERCENT_UNIT : describeUnits(metric, options),
+    ...(company ? { company } : {}),
+    members: seriesList.map(s => s.ticker),
+    missing: members.filter(c => !reporting.has(c.ticker)).map(c => c.name),
+    points,
+    count: points.length,
+    found: true
+  });
+});
+
+// Multer errors (size limit, extra files) go to the error middleware
+api.post('/upload', adminOnly, upload.single('file'), (req, res) => {
+  if (!req.file) {
+    throw badRequest("Missing workbook: send it as multipart/form-data in the 'file' field");
+  }
+
+  req.log.debug(`Request received for /api/v1/upload (${req.file.originalname}, ${req.file.size} bytes) by ${req.adminUser}`);
+
+  const { companies, report } = parseWorkbook(req.file.buffer, req.file.originalname);
+  req.log.info(`Upload ${report.file}: ${report.rowsAccepted} rows accepted, ${report.rowsRejected} rejected`);
+
+  if (companies.length === 0) {
+    throw unprocessable('No valid rows found in workbook', { report });
+  }
+
+  const written = database.importCompanyData(companies, req.adminUser);
+  reloadStore();
+
+  res.json({
+    success: true,
+    companies: companies.map(c => c['Company name']),
+    created: written.companies,
+    values: written.values,
+    report
+  });
 });
+
+// Saved items per user: /users/:user/watchlists and /users/:user/dashboards
+// share their CRUD routes; `normalize` tidies a validated request body
+
+const upperTickers = (tickers) => tickers.map(t => t.trim().toUpperCase());
+
+const SAVED_COLLECTIONS = [
+  {
+    kind: 'watchlists',
+    singular: 'watchlist',
+    operation: 'Watchlist',
+    normalize: (body) => (body.companies ? { ...body, companies: upperTickers(body.companies) } : body)
+  },
+  {
+    kind: 'dashboards',
+    singular: 'dashboard',
+    operation: 'Dashboard',
+    normalize: (body) => (body.panels
+      ? { ...body, panels: body.panels.map(panel => ({ ...panel, companies: upperTickers(panel.companies) })) }
+      : body)
+  }
+];
+
+for (const { kind, singular, operation, normalize } of SAVED_COLLECTIONS) {
+  const items = userStore[kind];
+
+  api.get(`/users/:user/${kind}`, validate(`list${operation}s`), (req, res) => {
+    const { user } = req.params;
+    req.log.debug(`Request received for /api/v1/users/${user}/${kind}`);
+    res.json({ success: true, user, [kind]: items.list(user) });
+  });
+
+  api.post(`/users/:user/${kind}`, validate(`create${operation}`), (req, res) => {
+    const { user } = req.params;
+    req.log.debug(`Request received for POST /api/v1/users/${user}/${kind} (${req.body.name})`);
+    res.status(201).json({ success: true, [singular]: items.create(user, normalize(req.body)) });
+  });
+
+  api.put(`/users/:user/${kind}/:id`, validate(`update${operation}`), (req, res) => {
+    const { user, id } = req.params;
+    req.log.debug(`Request received for PUT /api/v1/users/${user}/${kind}/${id}`);
+    res.json({ success: true, [singular]: items.update(user, id, normalize(req.body)) });
+  });
+
+  api.delete(`/users/:user/${kind}/:id`, validate(`delete${operation}`), (req, res) => {
+    const { user, id } = req.params;
+    req.log.debug(`Request received for DELETE /api/v1/users/${user}/${kind}/${id}`);
+    items.remove(user, id);
+    res.json({ success: true, id });
+  });
+}
+
+// Annotations: corporate events and free-text notes pinned to a company's
+// fiscal year or quarter, shown as markers on the chart. Like saved items they
+// need no admin token.
+
+function findAnnotation(id) {
+  const annotation = database.getAnnotation(Number(id));
+  if (!annotation) throw notFound(`No annotation '${id}'`);
+  return annotation;
+}
+
+function checkAnnotatedCompany(ticker) {
+  if (!store.current().findByTicker(ticker)) throw notFound(`Unknown company: ticker=${ticker}`);
+}
+
+api.get('/annotations', validate('listAnnotations'), (req, res) => {
+  const tickers = queryList(req.query.ticker);
+  const kind = req.query.kind ? String(req.query.kind) : null;
+  req.log.debug(`Request received for /api/v1/annotations?ticker=${tickers.join(',')}&kind=${kind ?? ''}`);
+
+  const annotations = database.listAnnotations({ tickers, kind });
+  res.json({ success: true, count: annotations.length, annotations });
+});
+
+api.post('/annotations', validate('createAnnotation'), (req, res) => {
+  const { ticker, year, quarter = null, kind, title, description = '', author = null } = req.body;
+  req.log.debug(`Request received for POST /api/v1/annotations (${ticker} ${periodKey({ year, quarter })})`);
+
+  checkAnnotatedCompany(ticker);
+  const annotation = database.createAnnotation({
+    ticker, year, quarter, kind, title: title.trim(), description: description.trim(), author: author?.trim() || null
+  });
+  res.status(201).json({ success: true, annotation });
+});
+
+api.get('/annotations/:id', validate('getAnnotation'), (req, res) => {
+  req.log.debug(`Request received for /api/v1/annotations/${req.params.id}`);
+  res.json({ success: true, annotation: findAnnotation(req.params.id) });
+});
+
+api.put('/annotations/:id', validate('updateAnnotation'), (req, res) => {
+  const { id } = req.params;
+  req.log.debug(`Request received for PUT /api/v1/annotations/${id}`);
+
+  findAnnotation(id);
+  if (req.body.ticker) checkAnnotatedCompany(req.body.ticker);
+  const annotation = database.updateAnnotation(Number(id), {
+    ...req.body,
+    title: req.body.title?.trim(),
+    description: req.body.description?.trim(),
+    author: req.body.author === undefined ? undefined : req.body.author?.trim() || null
+  });
+  res.json({ success: true, annotation });
+});
+
+api.delete('/annotations/:id', validate('deleteAnnotation'), (req, res) => {
+  const { id } = req.params;
+  req.log.debug(`Request received for DELETE /api/v1/annotations/${id}`);
+
+  findAnnotation(id);
+  database.deleteAnnotation(Number(id));
+  res.json({ success: true, id: Number(id) });
+});
+
+// Alert rules and the alerts they raise. Rules are checked whenever the
+// dataset is reloaded or edited (see reloadStore); like annotations they need
+// no admin token.
+
+api.get('/alerts', validate('listAlerts'), (req, res) => {
+  const ruleId = req.query.rule ? Number(req.query.rule) : null;
+  const ticker = req.query.ticker ? String(req.query.ticker) : null;
+  const limit = req.query.limit ? Number(req.query.limit) : DEFAULT_ALERT_LIMIT;
+  req.log.debug(`Request received for /api/v1/alerts?rule=${ruleId ?? ''}&ticker=${ticker ?? ''}&limit=${limit}`);
+
+  const alerts = database.listAlerts({ ruleId, ticker, limit });
+  res.json({ success: true, count: alerts.length, alerts });
+});
+
+api.get('/alerts/rules', validate('listAlertRules'), (req, res) => {
+  req.log.debug('Request received for /api/v1/alerts/rules');
+  const rules = database.listAlertRules();
+  res.json({ success: true, count: rules.length, rules });
+});
+
+api.post('/alerts/rules', validate('createAlertRule'), (req, res) => {
+  const { ticker, condition, threshold, period = 'annual', author = null } = req.body;
+  const metric = req.body.metric.toUpperCase();
+  req.log.debug(`Request received for POST /api/v1/alerts/rules (${ticker} ${metric} ${condition} ${threshold})`);
+
+  const snapshot = store.current();
+  const info = snapshot.findByTicker(ticker);
+  if (!info) {
+    throw notFound(`Unknown company: ticker=${ticker}`);
+  }
+  if (!resolveDerivedMetric(metric) && !snapshot.metrics.some(m => m.toUpperCase() === metric)) {
+    throw notFound(`Unknown metric: ${metric}`);
+  }
+  if (condition === 'outside_top') {
+    if (period !== 'annual') {
+      throw badRequest('outside_top rules rank fiscal years; period must be annual');
+    }
+    if (!Number.isInteger(threshold) || threshold < 1 || threshold > MAX_RANK_THRESHOLD) {
+      throw badRequest(`outside_top needs a whole number of places between 1 and ${MAX_RANK_THRESHOLD}`);
+    }
+  }
+
+  const fields = { ticker: info.ticker, metric, period, condition, threshold };
+  const rule = database.createAlertRule({
+    ...fields,
+    name: req.body.name?.trim() || describeRule(fields),
+    author: author?.trim() || null
+  });
+  const alerts = evaluateAlertRules(snapshot, [rule]);
+  res.status(201).json({ success: true, rule: database.getAlertRule(rule.id), alerts });
+});
+
+api.delete('/alerts/rules/:id', validate('deleteAlertRule'), (req, res) => {
+  const id = Number(req.params.id);
+  req.log.debug(`Request received for DELETE /api/v1/alerts/rules/${id}`);
+
+  if (!database.getAlertRule(id)) {
+    throw notFound(`No alert rule '${id}'`);
+  }
+  database.deleteAlertRule(id);
+  res.json({ success: true, id });
+});
+
+// Admin routes: every change is written to the database together with an
+// audit_log row naming the admin user, then the in-memory store is rebuilt
+
+api.post('/admin/companies', adminOnly, validate('createCompany'), (req, res) => {
+  const { name, ticker, isin = '', industry = null, financials = {} } = req.body;
+  req.log.debug(`Request received for POST /api/v1/admin/companies (${ticker}) by ${req.adminUser}`);
+
+  if (database.getCompany(ticker)) {
+    throw conflict(`Company with ticker '${ticker.toUpperCase()}' already exists`);
+  }
+  if (database.findCompanyByName(name)) {
+    throw conflict(`Company named '${name}' already exists`);
+  }
+  
+  const { company, values } = database.createCompany({ ticker, isin, name: name.trim(), industry, financials }, req.adminUser);
+  reloadStore();
+  res.status(201).json({ success: true, company: { ...company, ...classify(company.industry) }, values });
+});
+
+api.put('/admin/companies/:ticker', adminOnly, validate('updateCompany'), (req, res) => {
+  const { ticker } = req.params;
+  req.log.debug(`Request received for PUT /api/v1/admin/companies/${ticker} by ${req.adminUser}`);
+
+  if (!database.getCompany(ticker)) {
+    throw notFound(`Unknown company: ticker=${ticker}`);
+  }
+  const sameName = req.body.name && database.findCompanyByName(req.body.name);
+  if (sameName && sameName.ticker !== ticker.toUpperCase()) {
+    throw conflict(`Company named '${req.body.name}' already exists`);
+  }
+  
+  const company = database.updateCompany(ticker, {
+    name: req.body.name?.trim(),
+    isin: req.body.isin,
+    industry: req.body.industry
+  }, req.adminUser);
+  reloadStore();
+  res.json({ success: true, company: { ...company, ...classify(company.industry) } });
+});
+
+api.delete('/admin/companies/:ticker', adminOnly, validate('deleteCompany'), (req, res) => {
+  const { ticker } = req.params;
+  req.log.debug(`Request received for DELETE /api/v1/admin/companies/${ticker} by ${req.adminUser}`);
+
+  if (!database.getCompany(ticker)) {
+    throw notFound(`Unknown company: ticker=${ticker}`);
+  }
+  
+  database.deleteCompany(ticker, req.adminUser);
+  reloadStore();
+  res.json({ success: true, ticker: ticker.toUpperCase() });
+});
+
+// Fiscal year from the path, quarter (1-4) from ?quarter= when the value is quarterly
+function valuePeriod(req) {
+  return {
+    year: Number(req.params.year),
+    quarter: req.query.quarter ? Number(req.query.quarter) : null
+  };
+}
+
+api.put('/admin/companies/:ticker/financials/:metric/:year', adminOnly, validate('setFinancialValue'), (req, res) => {
+  const { ticker, metric } = req.params;
+  const period = valuePeriod(req);
+  const { value } = req.body;
+  req.log.debug(`Request received for PUT /api/v1/admin/companies/${ticker}/financials/${metric}/${periodKey(period)} = ${value} by ${req.adminUser}`);
+
+  if (!database.getCompany(ticker)) {
+    throw notFound(`Unknown company: ticker=${ticker}`);
+  }
+  
+  const previous = database.setValue(ticker, metric, period, value, req.adminUser);
+  reloadStore();
+  res.json({
+    success: true,
+    ticker: ticker.toUpperCase(),
+    metric: metric.toUpperCase(),
+    ...period,
+    value,
+    previous
+  });
+});
+
+api.delete('/admin/companies/:ticker/financials/:metric/:year', adminOnly, validate('deleteFinancialValue'), (req, res) => {
+  const { ticker, metric } = req.params;
+  const period = valuePeriod(req);
+  req.log.debug(`Request received for DELETE /api/v1/admin/companies/${ticker}/financials/${metric}/${periodKey(period)} by ${req.adminUser}`);
+
+  if (database.getValue(ticker, metric, period) === null) {
+    throw notFound(`No ${metric.toUpperCase()} value for ticker=${ticker} in ${periodLabel(period)}`);
+  }
+  
+  const previous = database.deleteValue(ticker, metric, period, req.adminUser);
+  reloadStore();
+  res.json({
+    success: true,
+    ticker: ticker.toUpperCase(),
+    metric: metric.toUpperCase(),
+    ...period,
+    value: null,
+    previous
+  });
+});
+
+api.get('/admin/audit', adminOnly, validate('listAuditLog'), (req, res) => {
+  const ticker = req.query.ticker ? String(req.query.ticker) : null;
+  const limit = req.query.limit ? Number(req.query.limit) : DEFAULT_AUDIT_LIMIT;
+  req.log.debug(`Request received for /api/v1/admin/audit?ticker=${ticker ?? ''}&limit=${limit} by ${req.adminUser}`);
+
+  const entries = database.listAudit({ ticker, limit });
+  res.json({ success: true, count: entries.length, entries });
+});
+
+api.get('/openapi.json', (req, res) => {
+  res.json(openApiDocument);
+});
+
+// Anything else under /api is a JSON 404 rather than Express's HTML page
+api.use((req, res, next) => {
+  next(notFound(`Unknown endpoint: ${req.method} ${req.originalUrl}`));
+});
+
+app.use(API_BASE_PATH, api);
+
+// Unversioned paths from before /api/v1; kept for existing clients
+app.use('/api', (req, res, next) => {
+  res.setHeader('Deprecation', 'true');
+  res.setHeader('Link', `<${API_BASE_PATH}${req.path}>; rel="successor-version"`);
+  next();
+}, api);
+
+// Maps anything thrown by a route or middleware onto an HttpError. Errors
+// from our own modules carry their status; unexpected ones become a 500 whose
+// details stay in the log.
+function toHttpError(err) {
+  if (err instanceof HttpError) return err;
+  if (err instanceof UserStoreError) return new HttpError(err.status, err.message);
+  if (err instanceof ForecastError) return unprocessable(err.message);
+  if (err.type === 'entity.parse.failed') {
+    return badRequest(`Invalid JSON body: ${err.message}`, { code: 'INVALID_JSON' });
+  }
+  if (err.type === 'entity.too.large') return new HttpError(413, 'Request body is too large');
+  if (err instanceof multer.MulterError) {
+    return err.code === 'LIMIT_FILE_SIZE'
+      ? new HttpError(413, `File exceeds the ${MAX_UPLOAD_BYTES / (1024 * 1024)} MB limit`)
+      : badRequest(err.message);
+  }
+  return null;
+}
+
+// The one place error responses are written; every failure gets the same
+// envelope (see errors.js)
+app.use((err, req, res, next) => {
+  if (res.headersSent) return next(err);
+
+  let httpError = toHttpError(err);
+  if (!httpError) {
+    req.log.error(`Unhandled error for ${req.method} ${req.originalUrl}`, { err });
+    httpError = new HttpError(500, 'Internal server error');
+  }
+  const { status, code, message, fields } = httpError;
+
+  // Failures are never cached, even on routes that set an ETag up front
+  res.removeHeader('ETag');
+  res.setHeader('Cache-Control', 'no-store');
+
+  res.status(status).json({
+    ...fields,
+    success: false,
+    code,
+    message,
+    error: message,
+    requestId: req.id
+  });
+});
+
+loadDataDirectoryOnStartup();
+try {
+  reloadStore();
+} catch (error) {
+  // Keep serving /healthz; /readyz answers 503 until a reload succeeds
+  logger.error('Initial data load failed', { err: error });
+}
+
 const PORT = process.env.PORT || 4000;
-app.listen(PORT, () => {
-  log(`Backend server started and listening on http://localhost:${PORT}`);
-  console.log(`Backend server is running on http://localhost:${PORT}`);
+const SHUTDOWN_TIMEOUT_MS = Number(process.env.SHUTDOWN_TIMEOUT_MS) || 10000;
+
+const server = app.listen(PORT, () => {
+  logger.info(`Backend server started and listening on http://localhost:${PORT}`);
+});
+
+// Stops accepting connections, lets in-flight requests finish, then exits.
+// Requests still running after SHUTDOWN_TIMEOUT_MS are cut off.
+function shutdown(reason, exitCode = 0) {
+  if (shuttingDown) return;
+  shuttingDown = true;
+  logger.info(`Shutting down (${reason})`);
+
+  setTimeout(() => {
+    logger.error(`Requests still running after ${SHUTDOWN_TIMEOUT_MS} ms; forcing exit`);
+    process.exit(exitCode || 1);
+  }, SHUTDOWN_TIMEOUT_MS).unref();
+
+  server.close(() => {
+    logger.info('All connections closed');
+    process.exit(exitCode);
+  });
+  server.closeIdleConnections();
+}
+
+process.on('SIGTERM', () => shutdown('SIGTERM'));
+process.on('SIGINT', () => shutdown('SIGINT'));
+
+// After an uncaught error the process state is unknown; drain and exit so
+// the platform restarts it rather than keep serving
+process.on('uncaughtException', (error) => {
+  logger.error('Uncaught exception', { err: error });
+  shutdown('uncaught exception', 1);
+});
+process.on('unhandledRejection', (reason) => {
+  logger.error('Unhandled rejection', { err: reason });
+  shutdown('unhandled rejection', 1);
 });
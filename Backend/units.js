@@ -0,0 +1,48 @@
+// Units of the stored financials and conversion to the currency and scale a
+// client asks for. Reported values are stored in INR million; derived
+// metrics in '%' have no currency and are never converted.
+import { INR_PER_USD } from './fxRates.js';
+
+export const BASE_CURRENCY = 'INR';
+export const BASE_SCALE = 'million';
+
+export const CURRENCIES = ['INR', 'USD'];
+
+// Multiplier of each scale in currency units. Lakh and crore are the Indian
+// groupings (1 crore = 100 lakh = 10 million).
+export const SCALES = {
+  units: 1,
+  thousand: 1e3,
+  lakh: 1e5,
+  million: 1e6,
+  crore: 1e7,
+  billion: 1e9
+};
+
+const DECIMALS = 4;
+
+function round(value) {
+  const factor = 10 ** DECIMALS;
+  return Math.round(value * factor) / factor;
+}
+
+// { currency, scale, label } describing values in the given units; label
+// reads 'INR crore', or just 'USD' for whole units
+export function describeUnit(currency, scale) {
+  return { currency, scale, label: scale === 'units' ? currency : `${currency} ${scale}` };
+}
+
+export const PERCENT_UNIT = { currency: null, scale: null, label: '%' };
+
+// Returns a function converting one stored point to the target units, or
+// null when nothing needs converting. A point whose fiscal year has no FX
+// rate converts to null.
+export function createConverter({ currency = BASE_CURRENCY, scale = BASE_SCALE } = {}) {
+  if (currency === BASE_CURRENCY && scale === BASE_SCALE) return null;
+  const factor = SCALES[BASE_SCALE] / SCALES[scale];
+  return (point) => {
+    if (point.value === null) return point;
+    const rate = currency === 'USD' ? INR_PER_USD[point.year] : 1;
+    return { ...point, value: rate ? round((point.value / rate) * factor) : null };
+  };
+}
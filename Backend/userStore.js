@@ -0,0 +1,103 @@
+// Per-user watchlists and dashboards kept in one JSON file. The file is
+// rewritten after every change, via a temp file renamed into place like the
+// database. Users are not authenticated: the name in the URL only partitions
+// the saved items.
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+
+export const MAX_ITEMS_PER_USER = 50;
+export const MAX_DASHBOARD_PANELS = 12;
+
+// Thrown for changes the store refuses; `status` is the HTTP status to answer with
+export class UserStoreError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.name = 'UserStoreError';
+    this.status = status;
+  }
+}
+
+// Users are keyed in a null-prototype object, so a name such as __proto__
+// or constructor is an ordinary key and never reaches Object.prototype
+function readFile(file) {
+  const users = Object.create(null);
+  if (fs.existsSync(file)) Object.assign(users, JSON.parse(fs.readFileSync(file, 'utf8')).users);
+  return { users };
+}
+
+// Opens (or creates) the store file. Each collection is keyed by user name
+// (case-insensitive) and holds items with an id, a unique name and timestamps.
+export function openUserStore(file) {
+  const data = readFile(file);
+
+  function save() {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    const tmp = `${file}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(data, null, 2));
+    fs.renameSync(tmp, file);
+  }
+
+  const entryOf = (user) => {
+    const key = user.toLowerCase();
+    return Object.hasOwn(data.users, key) ? data.users[key] : null;
+  };
+  const itemsOf = (user, kind) => entryOf(user)?.[kind] || [];
+
+  function findItem(user, kind, id) {
+    const item = itemsOf(user, kind).find(i => i.id === id);
+    if (!item) throw new UserStoreError(404, `No ${kind.slice(0, -1)} '${id}' for user '${user}'`);
+    return item;
+  }
+
+  function checkName(user, kind, name, id = null) {
+    const taken = itemsOf(user, kind).some(i => i.id !== id && i.name.toLowerCase() === name.toLowerCase());
+    if (taken) throw new UserStoreError(409, `A ${kind.slice(0, -1)} named '${name}' already exists`);
+  }
+
+  function collection(kind) {
+    return {
+      list(user) {
+        return itemsOf(user, kind);
+      },
+
+      create(user, fields) {
+        const name = fields.name.trim();
+        checkName(user, kind, name);
+        if (itemsOf(user, kind).length >= MAX_ITEMS_PER_USER) {
+          throw new UserStoreError(409, `At most ${MAX_ITEMS_PER_USER} ${kind} can be saved per user`);
+        }
+        const now = new Date().toISOString();
+        const item = { id: crypto.randomUUID(), ...fields, name, createdAt: now, updatedAt: now };
+        const entry = entryOf(user) || (data.users[user.toLowerCase()] = {});
+        (entry[kind] ||= []).push(item);
+        save();
+        return item;
+      },
+
+      // `changes` replaces the given fields; id and createdAt are kept
+      update(user, id, changes) {
+        const item = findItem(user, kind, id);
+        const name = changes.name !== undefined ? changes.name.trim() : item.name;
+        checkName(user, kind, name, id);
+        Object.assign(item, changes, { name, id: item.id, createdAt: item.createdAt, updatedAt: new Date().toISOString() });
+        save();
+        return item;
+      },
+
+      remove(user, id) {
+        const item = findItem(user, kind, id);
+        const items = entryOf(user)[kind];
+        items.splice(items.indexOf(item), 1);
+        save();
+        return item;
+      }
+    };
+  }
+
+  return {
+    file,
+    watchlists: collection('watchlists'),
+    dashboards: collection('dashboards')
+  };
+}
@@ -0,0 +1,54 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { openUserStore } from './userStore.js';
+import { openApiDocument } from './openapi.js';
+
+function tempStore() {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'user-store-'));
+  return path.join(dir, 'userData.json');
+}
+
+const watchlist = (name) => ({ name, companies: ['TCS'] });
+
+test('a user named __proto__ is an ordinary user', () => {
+  const file = tempStore();
+  const store = openUserStore(file);
+
+  store.watchlists.create('__proto__', watchlist('Prototype list'));
+  assert.equal(Object.prototype.watchlists, undefined);
+  assert.deepEqual(store.watchlists.list('carol'), []);
+
+  const dave = store.watchlists.create('dave', watchlist('IT'));
+  assert.deepEqual(store.watchlists.list('dave').map(w => w.id), [dave.id]);
+
+  const saved = JSON.parse(fs.readFileSync(file, 'utf8'));
+  assert.equal(saved.users.dave.watchlists[0].id, dave.id);
+  assert.equal(saved.users.__proto__.watchlists[0].name, 'Prototype list');
+});
+
+test('constructor and __proto__ users survive a reload', () => {
+  const file = tempStore();
+  const store = openUserStore(file);
+  store.watchlists.create('constructor', watchlist('Constructor list'));
+  store.watchlists.create('__proto__', watchlist('Prototype list'));
+
+  const reopened = openUserStore(file);
+  assert.equal(reopened.watchlists.list('constructor')[0].name, 'Constructor list');
+  assert.equal(reopened.watchlists.list('__proto__')[0].name, 'Prototype list');
+  assert.deepEqual(reopened.watchlists.list('carol'), []);
+  assert.equal(Object.prototype.watchlists, undefined);
+});
+
+test('the user path parameter refuses Object.prototype member names', () => {
+  const param = openApiDocument.paths['/users/{user}/watchlists'].get.parameters.find(p => p.name === 'user');
+  const pattern = new RegExp(param.schema.pattern);
+  for (const name of ['__proto__', '__PROTO__', 'constructor', 'Constructor']) {
+    assert.equal(pattern.test(name), false, name);
+  }
+  for (const name of ['carol', 'constructors', 'proto', 'a.b_c-1']) {
+    assert.equal(pattern.test(name), true, name);
+  }
+});
@@ -0,0 +1,172 @@
+// Request validation driven by the OpenAPI document: each route declares its
+// operationId and gets its query and path params and JSON body checked
+// against the spec before the handler runs. Cross-parameter rules (e.g. "exactly one of company, ticker
+// or isin") can't be expressed in the spec and stay in the handlers.
+import { HttpError } from './errors.js';
+
+function operationsById(document) {
+  const operations = new Map();
+  for (const pathItem of Object.values(document.paths)) {
+    for (const operation of Object.values(pathItem)) {
+      if (operation.operationId) operations.set(operation.operationId, operation);
+    }
+  }
+  return operations;
+}
+
+function checkValue(value, schema) {
+  if (schema.type === 'integer' || schema.type === 'number') {
+    if (schema.type === 'integer' && !/^-?\d+$/.test(value)) return 'must be an integer';
+    const n = Number(value);
+    if (value.trim() === '' || !Number.isFinite(n)) return 'must be a number';
+    if (schema.minimum !== undefined && n < schema.minimum) return `must be at least ${schema.minimum}`;
+    if (schema.maximum !== undefined && n > schema.maximum) return `must be at most ${schema.maximum}`;
+    return null;
+  }
+
+  const text = value.trim();
+  if (schema.minLength !== undefined && text.length < schema.minLength) {
+    return schema.minLength === 1 ? 'must not be empty' : `must be at least ${schema.minLength} characters`;
+  }
+  if (schema.maxLength !== undefined && text.length > schema.maxLength) {
+    return `must be at most ${schema.maxLength} characters`;
+  }
+  if (schema.enum && !schema.enum.some(option => String(option).toLowerCase() === text.toLowerCase())) {
+    return `must be one of: ${schema.enum.join(', ')}`;
+  }
+  if (schema.pattern && !new RegExp(schema.pattern).test(text)) {
+    return `must match ${schema.pattern}`;
+  }
+  return null;
+}
+
+function checkParam(param, raw) {
+  const { name, schema } = param;
+  if (raw === undefined || raw === '') {
+    return param.required ? ['is required'] : [];
+  }
+  if (typeof raw === 'object' && !Array.isArray(raw)) {
+    return ['must be a plain value'];
+  }
+
+  if (schema.type === 'array') {
+    const values = Array.isArray(raw) ? raw : [raw];
+    if (schema.maxItems !== undefined && values.length > schema.maxItems) {
+      return [`accepts at most ${schema.maxItems} values`];
+    }
+    return values
+      .map((value, i) => {
+        const message = typeof value === 'string' ? checkValue(value, schema.items) : 'must be a plain value';
+        return message && `${name}[${i}] ${message}`;
+      })
+      .filter(Boolean);
+  }
+
+  if (Array.isArray(raw)) return ['must be given once'];
+  const message = checkValue(raw, schema);
+  return message ? [message] : [];
+}
+
+function jsonType(value) {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value;
+}
+
+// Checks a parsed JSON value; issues are [pointer, message] pairs where the
+// pointer is a dotted path such as financials.SALES.2020
+function checkJson(value, schema, pointer, resolve) {
+  if (schema.$ref) return checkJson(value, resolve(schema.$ref), pointer, resolve);
+  if (value === null) return schema.nullable ? [] : [[pointer, 'must not be null']];
+
+  const actual = jsonType(value);
+  const typeOk = schema.type === undefined ||
+    actual === schema.type ||
+    (schema.type === 'number' && actual === 'integer');
+  if (!typeOk) return [[pointer, `must be ${schema.type === 'integer' ? 'an' : 'a'} ${schema.type}`]];
+
+  if (schema.enum && !schema.enum.includes(value)) return [[pointer, `must be one of: ${schema.enum.join(', ')}`]];
+
+  if (actual === 'number' || actual === 'integer') {
+    if (schema.minimum !== undefined && value < schema.minimum) return [[pointer, `must be at least ${schema.minimum}`]];
+    if (schema.maximum !== undefined && value > schema.maximum) return [[pointer, `must be at most ${schema.maximum}`]];
+    return [];
+  }
+  if (actual === 'string') {
+    const message = checkValue(value, { ...schema, type: 'string' });
+    return message ? [[pointer, message]] : [];
+  }
+  if (actual === 'array') {
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) return [[pointer, `must have at most ${schema.maxItems} items`]];
+    return value.flatMap((item, i) => checkJson(item, schema.items || {}, `${pointer}[${i}]`, resolve));
+  }
+  if (actual !== 'object') return [];
+
+  const child = (key) => (pointer ? `${pointer}.${key}` : key);
+  const issues = (schema.required || [])
+    .filter(key => value[key] === undefined)
+    .map(key => [child(key), 'is required']);
+  for (const [key, item] of Object.entries(value)) {
+    const propertySchema = schema.properties?.[key] ??
+      (typeof schema.additionalProperties === 'object' ? schema.additionalProperties : null);
+    if (propertySchema) {
+      issues.push(...checkJson(item, propertySchema, child(key), resolve));
+    } else if (schema.additionalProperties === false) {
+      issues.push([child(key), 'is not a known field']);
+    }
+  }
+  if (schema.propertyNames?.pattern) {
+    const pattern = new RegExp(schema.propertyNames.pattern);
+    for (const key of Object.keys(value)) {
+      if (!pattern.test(key)) issues.push([child(key), `key must match ${schema.propertyNames.pattern}`]);
+    }
+  }
+  return issues;
+}
+
+// Returns validate(operationId), an Express middleware factory. Invalid
+// requests get a 400 listing every problem, not just the first.
+export function createValidator(document) {
+  const operations = operationsById(document);
+  const resolve = (ref) => document.components.schemas[ref.split('/').pop()];
+
+  return function validate(operationId) {
+    const operation = operations.get(operationId);
+    if (!operation) throw new Error(`Unknown operationId '${operationId}'`);
+    const params = (operation.parameters || []).filter(p => p.in === 'query' || p.in === 'path');
+    const bodySchema = operation.requestBody?.content?.['application/json']?.schema;
+
+    return (req, res, next) => {
+      const details = [];
+      for (const param of params) {
+        const raw = param.in === 'path' ? req.params[param.name] : req.query[param.name];
+        for (const message of checkParam(param, raw)) {
+          details.push({
+            in: param.in,
+            name: param.name,
+            message: message.startsWith(`${param.name}[`) ? message : `${param.name} ${message}`
+          });
+        }
+      }
+
+      if (bodySchema) {
+        const body = req.body && typeof req.body === 'object' && !Array.isArray(req.body) ? req.body : null;
+        const issues = body
+          ? checkJson(body, bodySchema, '', resolve)
+          : [['', 'request body must be a JSON object']];
+        for (const [pointer, message] of issues) {
+          details.push({ in: 'body', name: pointer, message: pointer ? `${pointer} ${message}` : message });
+        }
+      }
+
+      if (details.length > 0) {
+        return next(new HttpError(400, `Invalid request: ${details.map(d => d.message).join('; ')}`, {
+          code: 'VALIDATION_FAILED',
+          details
+        }));
+      }
+      next();
+    };
+  };
+}
@@ -0,0 +1,203 @@
+import { useCallback, useEffect, useState } from 'react';
+import { api, type Alert, type AlertRule } from './api';
+
+type AlertsProps = {
+  // New rules watch the first plotted company and the selected metric
+  ticker: string | null;
+  metric: string;
+  author: string;
+};
+
+type Condition = AlertRule['condition'];
+
+const CONDITION_LABELS: Record<Condition, string> = {
+  below: 'falls below',
+  above: 'rises above',
+  outside_top: 'drops out of the top'
+};
+
+// Rules are checked when the data changes on the server, so the list is
+// refreshed now and then rather than only on load
+const POLL_INTERVAL_MS = 60 * 1000;
+const RECENT_ALERTS = 20;
+const SEEN_STORAGE_KEY = 'financial-dashboard.alertsSeen';
+
+// Alerts up to this id have been looked at; the badge counts newer ones
+function readSeenId() {
+  try {
+    return Number(window.localStorage.getItem(SEEN_STORAGE_KEY)) || 0;
+  } catch {
+    return 0;
+  }
+}
+
+function storeSeenId(id: number) {
+  try {
+    window.localStorage.setItem(SEEN_STORAGE_KEY, String(id));
+  } catch {
+    // Private mode: the badge resets with the session
+  }
+}
+
+// Sidebar section with the alert history and the rules behind it. The badge
+// counts alerts raised since the list was last opened.
+function Alerts({ ticker, metric, author }: AlertsProps) {
+  const [alerts, setAlerts] = useState<Alert[]>([]);
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [seenId, setSeenId] = useState(readSeenId);
+  const [isOpen, setIsOpen] = useState(false);
+  const [condition, setCondition] = useState<Condition>('below');
+  const [threshold, setThreshold] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const load = useCallback((signal?: AbortSignal) => {
+    Promise.all([api.listAlerts({ limit: RECENT_ALERTS }, { signal }), api.listAlertRules({ signal })])
+      .then(([alertsRes, rulesRes]) => {
+        setAlerts(alertsRes.alerts);
+        setRules(rulesRes.rules);
+      })
+      .catch(e => {
+        if (!signal?.aborted) console.warn('Could not load alerts:', e);
+      });
+  }, []);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    load(controller.signal);
+    const timer = window.setInterval(() => load(controller.signal), POLL_INTERVAL_MS);
+    return () => {
+      controller.abort();
+      window.clearInterval(timer);
+    };
+  }, [load]);
+
+  // Newest first, so the first alert carries the highest id
+  const latestId = alerts[0]?.id ?? 0;
+  const unseen = alerts.filter(a => a.id > seenId).length;
+  useEffect(() => {
+    if (!isOpen || latestId <= seenId) return;
+    storeSeenId(latestId);
+    setSeenId(latestId);
+  }, [isOpen, latestId, seenId]);
+
+  const run = async (change: () => Promise<unknown>) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await change();
+      load();
+      return true;
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not save the rule');
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const addRule = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!ticker || !metric) return;
+    const saved = await run(() => api.createAlertRule({
+      ticker,
+      metric,
+      condition,
+      threshold: Number(threshold),
+      author: author || null
+    }));
+    if (saved) setThreshold('');
+  };
+
+  return (
+    <div className="section alerts">
+      <button type="button" className="alerts-toggle" onClick={() => setIsOpen(open => !open)} aria-expanded={isOpen}>
+        Alerts
+        {unseen > 0 && <span className="alert-badge" aria-label={`${unseen} new`}>{unseen}</span>}
+        <span className="alerts-caret">{isOpen ? '▴' : '▾'}</span>
+      </button>
+
+      {isOpen && (
+        <>
+          <h4 className="saved-heading">Recent</h4>
+          {alerts.length === 0 ? (
+            <div className="saved-empty">No alerts yet</div>
+          ) : (
+            <ul className="alert-list">
+              {alerts.map(a => (
+                <li key={a.id} className="alert-item">
+                  <div>{a.message}</div>
+                  <div className="alert-meta">
+                    {new Date(a.triggeredAt).toLocaleString()}
+                    {a.delivery === 'failed' && (
+                      <span className="alert-delivery" title={a.deliveryError ?? undefined}> · webhook failed</span>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <h4 className="saved-heading">Rules</h4>
+          {rules.length === 0 ? (
+            <div className="saved-empty">No rules yet</div>
+          ) : (
+            <ul className="saved-list">
+              {rules.map(r => (
+                <li key={r.id} className="saved-item">
+                  <span
+                    className={`alert-rule ${r.triggeredPeriod ? 'triggered' : ''}`}
+                    title={r.triggeredPeriod ? 'The condition holds for the latest data' : undefined}
+                  >
+                    {r.name}
+                  </span>
+                  <button
+                    type="button"
+                    className="saved-delete"
+                    onClick={() => run(() => api.deleteAlertRule({ id: r.id }))}
+                    aria-label={`Delete alert rule ${r.name}`}
+                    disabled={isSaving}
+                  >
+                    ×
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+          <form className="saved-form" onSubmit={addRule}>
+            <span className="alert-subject">
+              {ticker && metric ? `When ${ticker} ${metric}` : 'Chart a company and metric to add a rule'}
+            </span>
+            <select
+              className="select compact"
+              value={condition}
+              onChange={(e) => setCondition(e.target.value as Condition)}
+              aria-label="Condition"
+            >
+              {Object.entries(CONDITION_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+            <input
+              className="saved-input"
+              type="number"
+              value={threshold}
+              onChange={(e) => setThreshold(e.target.value)}
+              placeholder={condition === 'outside_top' ? 'Places, e.g. 3' : 'Threshold'}
+              min={condition === 'outside_top' ? 1 : undefined}
+              step={condition === 'outside_top' ? 1 : 'any'}
+              aria-label="Threshold"
+              required
+            />
+            <button type="submit" className="btn secondary" disabled={isSaving || !ticker || !metric || threshold === ''}>
+              Add
+            </button>
+          </form>
+          {error && <div className="saved-error">{error}</div>}
+        </>
+      )}
+    </div>
+  );
+}
+
+export default Alerts;
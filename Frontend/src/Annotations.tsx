@@ -0,0 +1,215 @@
+import { useState } from 'react';
+import { api, type Annotation, type CompanyInfo } from './api';
+import { fiscalYearLabel } from './fiscal';
+
+type AnnotationsProps = {
+  // Numbered as on the chart
+  annotations: Annotation[];
+  // The plotted companies, which new annotations can be pinned to
+  companies: CompanyInfo[];
+  years: number[];
+  author: string;
+  onChanged: () => void;
+};
+
+type Kind = Annotation['kind'];
+
+const KIND_LABELS: Record<Kind, string> = {
+  merger: 'Merger',
+  split: 'Split',
+  accounting_change: 'Accounting change',
+  event: 'Other event',
+  note: 'Note'
+};
+
+type Draft = { id: number | null; ticker: string; year: string; quarter: string; kind: Kind; title: string; description: string };
+
+const emptyDraft = (ticker = ''): Draft => ({ id: null, ticker, year: '', quarter: '', kind: 'note', title: '', description: '' });
+
+const periodLabel = (a: Annotation) => `${a.quarter ? `Q${a.quarter} ` : ''}${fiscalYearLabel(a.year)}`;
+
+// Events and notes pinned to the plotted companies, with a form to add or
+// edit one. The same numbers mark them on the chart.
+function Annotations({ annotations, companies, years, author, onChanged }: AnnotationsProps) {
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const run = async (change: () => Promise<unknown>) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await change();
+      onChanged();
+      return true;
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not save the annotation');
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const edit = (a: Annotation) => setDraft({
+    id: a.id,
+    ticker: a.ticker,
+    year: String(a.year),
+    quarter: a.quarter ? String(a.quarter) : '',
+    kind: a.kind,
+    title: a.title,
+    description: a.description
+  });
+
+  const save = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+    const fields = {
+      ticker: draft.ticker,
+      year: Number(draft.year),
+      quarter: draft.quarter ? Number(draft.quarter) : null,
+      kind: draft.kind,
+      title: draft.title.trim(),
+      description: draft.description.trim()
+    };
+    const saved = await run(() => draft.id === null
+      ? api.createAnnotation({ ...fields, author: author || null })
+      : api.updateAnnotation({ id: draft.id }, fields));
+    if (saved) setDraft(null);
+  };
+
+  const update = (changes: Partial<Draft>) => setDraft(prev => (prev ? { ...prev, ...changes } : prev));
+
+  return (
+    <section className="annotations" aria-label="Annotations">
+      <div className="league-header">
+        <h3>Annotations</h3>
+        {!draft && (
+          <button
+            type="button"
+            className="btn secondary"
+            onClick={() => setDraft(emptyDraft(companies[0]?.ticker))}
+            disabled={companies.length === 0}
+          >
+            Add note
+          </button>
+        )}
+      </div>
+
+      {annotations.length === 0 ? (
+        <div className="league-empty">No events or notes for these companies</div>
+      ) : (
+        <ol className="annotation-list">
+          {annotations.map((a, i) => (
+            <li key={a.id} className="annotation-item">
+              <span className="annotation-badge">{i + 1}</span>
+              <div className="annotation-body">
+                <div>
+                  <strong>{a.ticker} {periodLabel(a)}</strong>
+                  <span className={`annotation-kind kind-${a.kind}`}>{KIND_LABELS[a.kind]}</span>
+                  {a.title}
+                </div>
+                {a.description && <div className="annotation-description">{a.description}</div>}
+                {a.author && <div className="annotation-author">by {a.author}</div>}
+              </div>
+              <button type="button" className="saved-delete" onClick={() => edit(a)} aria-label={`Edit annotation ${a.title}`} disabled={isSaving}>
+                ✎
+              </button>
+              <button
+                type="button"
+                className="saved-delete"
+                onClick={() => run(() => api.deleteAnnotation({ id: a.id }))}
+                aria-label={`Delete annotation ${a.title}`}
+                disabled={isSaving}
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {draft && (
+        <form className="annotation-form" onSubmit={save}>
+          <div className="annotation-fields">
+            <select
+              className="select compact"
+              value={draft.ticker}
+              onChange={(e) => update({ ticker: e.target.value })}
+              aria-label="Company"
+            >
+              {!companies.some(c => c.ticker === draft.ticker) && <option value={draft.ticker}>{draft.ticker}</option>}
+              {companies.map(c => (
+                <option key={c.ticker} value={c.ticker}>{c.ticker}</option>
+              ))}
+            </select>
+            <select
+              className="select compact"
+              value={draft.year}
+              onChange={(e) => update({ year: e.target.value })}
+              aria-label="Fiscal year"
+              required
+            >
+              <option value="">Year…</option>
+              {draft.year && !years.includes(Number(draft.year)) && (
+                <option value={draft.year}>{fiscalYearLabel(Number(draft.year))}</option>
+              )}
+              {[...years].reverse().map(y => (
+                <option key={y} value={y}>{fiscalYearLabel(y)}</option>
+              ))}
+            </select>
+            <select
+              className="select compact"
+              value={draft.quarter}
+              onChange={(e) => update({ quarter: e.target.value })}
+              aria-label="Quarter"
+            >
+              <option value="">Whole year</option>
+              {[1, 2, 3, 4].map(q => (
+                <option key={q} value={q}>Q{q}</option>
+              ))}
+            </select>
+            <select
+              className="select compact"
+              value={draft.kind}
+              onChange={(e) => update({ kind: e.target.value as Kind })}
+              aria-label="Kind"
+            >
+              {Object.entries(KIND_LABELS).map(([kind, label]) => (
+                <option key={kind} value={kind}>{label}</option>
+              ))}
+            </select>
+          </div>
+          <input
+            className="saved-input"
+            value={draft.title}
+            onChange={(e) => update({ title: e.target.value })}
+            placeholder="Title, e.g. Acquired XYZ"
+            maxLength={120}
+            aria-label="Title"
+            required
+          />
+          <textarea
+            className="saved-input"
+            value={draft.description}
+            onChange={(e) => update({ description: e.target.value })}
+            placeholder="Details (optional)"
+            maxLength={2000}
+            rows={2}
+            aria-label="Details"
+          />
+          <div className="annotation-actions">
+            <button type="submit" className="btn secondary" disabled={isSaving || !draft.title.trim() || !draft.year}>
+              {draft.id === null ? 'Add' : 'Save'}
+            </button>
+            <button type="button" className="btn secondary" onClick={() => setDraft(null)} disabled={isSaving}>
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+      {error && <div className="saved-error">{error}</div>}
+    </section>
+  );
+}
+
+export default Annotations;
@@ -1,146 +1,190 @@
 import { useEffect, useState, useMemo, useCallback, useRef } from 'react';
 import './App.css';
+import { chartToPngBlob, chartToSvgBlob, downloadBlob, type LegendEntry } from './chartExport';
+import LineChart, { type ChartAnnotation, type ChartFlag, type ChartSeries } from './LineChart';
+import { CURRENCY_SYMBOLS, formatExact, formatterForUnit, type NumberSystem } from './format';
+import { seriesColor } from './seriesColors';
+import { api, type Annotation, type CompanyInfo, type Currency, type DashboardPanel, type Derivation, type ForecastMethod, type ForecastPoint, type MetricInfo, type QualityIssue, type SectorAggregateResponse, type SectorStat, type StatementGroup, type Series, type Unit, type Watchlist } from './api';
+import CompanySearch from './CompanySearch';
+import LeagueTable from './LeagueTable';
+import Annotations from './Annotations';
+import Alerts from './Alerts';
+import SavedViews from './SavedViews';
+import DashboardView from './DashboardView';
+import BarChart from './BarChart';
+import StackedAreaChart from './StackedAreaChart';
+import WaterfallChart, { type WaterfallValues } from './WaterfallChart';
+import YearBrush from './YearBrush';
+import type { ChartType, ScaleType } from './chartScale';
+import { readViewState, resolveCompanies, writeViewState, type ViewState } from './urlState';
+import { PERIOD_OPTIONS, formatPosition, periodPosition, type PeriodType } from './fiscal';
+import { panelToView, readStoredUser, storeUser, useSavedViews, viewToPanel } from './userViews';
+import { cachedQuery, isCached, queryKey } from './queryCache';
 
-const API_TIMEOUT = 10000;
 const RETRY_DELAY = 2000;
 const MAX_RETRIES = 3;
 const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
-interface FetchOptions extends RequestInit {
-  headers?: Record<string, string>;
-}
+type ReportedPoint = { year: number; value: number };
 
-const fetchWithTimeout = async (url: string, options: FetchOptions = {}, timeout = API_TIMEOUT) => {
-  const controller = new AbortController();
-  const id = setTimeout(() => controller.abort(), timeout);
-  
-  try {
-    const response = await fetch(url, {
-      ...options,
-      signal: controller.signal,
-      headers: {
-        'Content-Type': 'application/json',
-        ...(options.headers || {})
+const MAX_COMPARE_COMPANIES = 10;
+
+type ExportFormat = 'csv' | 'xlsx' | 'svg' | 'png';
+
+const CURRENCY_OPTIONS: Currency[] = ['INR', 'USD'];
+
+const NUMBER_SYSTEM_OPTIONS: { system: NumberSystem; label: string; title: string }[] = [
+  { system: 'indian', label: 'Lakh/Cr', title: 'Indian grouping: 12,34,567 and lakh/crore' },
+  { system: 'international', label: 'K/M/B', title: 'International grouping: 1,234,567 and K/M/B' }
+];
+
+const FORECAST_OPTIONS: { method: ForecastMethod; label: string }[] = [
+  { method: 'linear', label: 'Linear trend' },
+  { method: 'cagr', label: 'CAGR' },
+  { method: 'holt', label: "Holt's smoothing" }
+];
+
+const FORECAST_HORIZONS = [1, 2, 3, 5, 10];
+
+// A sector's share is a percentage, so it isn't offered next to company values
+const BENCHMARK_OPTIONS: { stat: SectorStat; label: string; suffix: string }[] = [
+  { stat: 'median', label: 'Sector median', suffix: 'median' },
+  { stat: 'mean', label: 'Sector mean', suffix: 'mean' },
+  { stat: 'sum', label: 'Sector total', suffix: 'total' }
+];
+
+const BENCHMARK_COLORS = ['#334155', '#94a3b8', '#78716c'];
+
+const CHART_TYPE_OPTIONS: { type: ChartType; label: string; title: string }[] = [
+  { type: 'line', label: 'Line', title: 'Trend over time' },
+  { type: 'bar', label: 'Bar', title: 'Companies side by side in each period, with the year-on-year change on hover' },
+  { type: 'stacked', label: 'Share', title: "Each company's share of the selection's combined total" },
+  { type: 'waterfall', label: 'Waterfall', title: 'Sales down to EBITDA and PAT for the first company' }
+];
+
+// The waterfall always breaks these down, whatever metric is selected
+const WATERFALL_METRICS = ['SALES', 'EBITDA', 'PAT'] as const;
+
+// Matches .annotation-dot in App.css, for the export legend
+const ANNOTATION_COLOR = '#7c3aed';
+
+const EXPORT_OPTIONS: { format: ExportFormat; label: string }[] = [
+  { format: 'csv', label: 'Data (CSV)' },
+  { format: 'xlsx', label: 'Data (XLSX)' },
+  { format: 'svg', label: 'Chart (SVG)' },
+  { format: 'png', label: 'Chart (PNG)' }
+];
+
+function ExportMenu({ onExport }: { onExport: (format: ExportFormat) => Promise<void> }) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [busyFormat, setBusyFormat] = useState<ExportFormat | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
       }
-    } as RequestInit);
-    clearTimeout(id);
-    return response;
-  } catch (error: unknown) {
-    clearTimeout(id);
-    if (error instanceof Error && error.name === 'AbortError') {
-      throw new Error('Request timed out. Please try again.');
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const handleExport = async (format: ExportFormat) => {
+    setBusyFormat(format);
+    setExportError(null);
+    try {
+      await onExport(format);
+      setIsOpen(false);
+    } catch (e) {
+      console.error('Export failed:', e);
+      setExportError(e instanceof Error ? e.message : 'Export failed');
+    } finally {
+      setBusyFormat(null);
     }
-    throw error;
-  }
-};
-
-type ApiResponse<T> = {
-  success: boolean;
-  error?: string;
-  message?: string;
-} & T;
-
-type CompanyResponse = ApiResponse<{ companies: string[]; count: number }>;
-type MetricResponse = ApiResponse<{ metrics: string[]; count: number }>;
-type DataResponse = ApiResponse<{
-  company: { name: string; ticker: string };
-  metric: string;
-  points: DataPoint[];
-  count: number;
-  found: boolean;
-}>;
-
-type DataPoint = { year: number; value: number }
-
-function LineChart({ points, title }: { points: DataPoint[]; title: string }) {
-  const width = 800
-  const height = 420
-  const margin = { top: 30, right: 30, bottom: 40, left: 70 }
-
-  const years = points.map((p) => p.year)
-  const values = points.map((p) => p.value)
-  const minYear = Math.min(...years)
-  const maxYear = Math.max(...years)
-  const minVal = Math.min(...values)
-  const maxVal = Math.max(...values)
-
-  const xScale = (y: number) => {
-    const rw = width - margin.left - margin.right
-    return margin.left + ((y - minYear) / (maxYear - minYear || 1)) * rw
-  }
-  const yScale = (v: number) => {
-    const rh = height - margin.top - margin.bottom
-    return margin.top + rh - ((v - minVal) / (maxVal - minVal || 1)) * rh
-  }
-
-  const pathD = points
-    .map((p, i) => `${i === 0 ? 'M' : 'L'} ${xScale(p.year)} ${yScale(p.value)}`)
-    .join(' ')
-
-  const xTicks = Array.from(new Set(years))
-  const yTicks = 5
-  const yTickVals = Array.from({ length: yTicks + 1 }, (_, i) => minVal + (i * (maxVal - minVal)) / yTicks)
+  };
 
   return (
-    <svg className="chart" viewBox={`0 0 ${width} ${height}`}>
-      <text x={width / 2} y={18} textAnchor="middle" className="chart-title">{title}</text>
-      {/* axes */}
-      <line x1={margin.left} y1={height - margin.bottom} x2={width - margin.right} y2={height - margin.bottom} className="axis" />
-      <line x1={margin.left} y1={margin.top} x2={margin.left} y2={height - margin.bottom} className="axis" />
-
-      {/* x ticks */}
-      {xTicks.map((yr) => (
-        <g key={yr}>
-          <line x1={xScale(yr)} y1={height - margin.bottom} x2={xScale(yr)} y2={height - margin.bottom + 6} className="tick" />
-          <text x={xScale(yr)} y={height - margin.bottom + 20} textAnchor="middle" className="tick-label">{yr}</text>
-        </g>
-      ))}
-
-      {/* y ticks */}
-      {yTickVals.map((v, i) => (
-        <g key={i}>
-          <line x1={margin.left - 6} y1={yScale(v)} x2={margin.left} y2={yScale(v)} className="tick" />
-          <text x={margin.left - 10} y={yScale(v)} textAnchor="end" dominantBaseline="middle" className="tick-label">
-            {formatNumber(v)}
-          </text>
-          <line x1={margin.left} y1={yScale(v)} x2={width - margin.right} y2={yScale(v)} className="grid" />
-        </g>
-      ))}
-
-      {/* line */}
-      <path d={pathD} className="line" />
-
-      {/* points */}
-      {points.map((p, i) => (
-        <circle key={i} cx={xScale(p.year)} cy={yScale(p.value)} r={3} className="dot" />
-      ))}
-    </svg>
-  )
-}
-
-function formatNumber(n: number) {
-  if (Math.abs(n) >= 1_000_000_000) return (n / 1_000_000_000).toFixed(1) + 'B'
-  if (Math.abs(n) >= 1_000_000) return (n / 1_000_000).toFixed(1) + 'M'
-  if (Math.abs(n) >= 1_000) return (n / 1_000).toFixed(1) + 'K'
-  return n.toFixed(0)
+    <div className="export-menu" ref={menuRef}>
+      <button
+        className="btn secondary"
+        onClick={() => setIsOpen(open => !open)}
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+      >
+        Download ▾
+      </button>
+      {isOpen && (
+        <div className="export-options" role="menu">
+          {EXPORT_OPTIONS.map(({ format, label }) => (
+            <button
+              key={format}
+              role="menuitem"
+              className="export-option"
+              disabled={busyFormat !== null}
+              onClick={() => handleExport(format)}
+            >
+              {busyFormat === format ? 'Preparing...' : label}
+            </button>
+          ))}
+          {exportError && <div className="export-error">{exportError}</div>}
+        </div>
+      )}
+    </div>
+  );
 }
 
 const App: React.FC = () => {
-  const [companies, setCompanies] = useState<string[]>([]);
-  const [metrics, setMetrics] = useState<string[]>([]);
+  const [companies, setCompanies] = useState<CompanyInfo[]>([]);
+  const [metrics, setMetrics] = useState<MetricInfo[]>([]);
+  const [metricGroups, setMetricGroups] = useState<StatementGroup[]>([]);
   
-  const [selectedCompany, setSelectedCompany] = useState<string>('');
+  const [selectedCompanies, setSelectedCompanies] = useState<string[]>([]);
   const [selectedMetric, setSelectedMetric] = useState<string>('');
+  const [periodType, setPeriodType] = useState<PeriodType>('annual');
+  
+  const [seriesData, setSeriesData] = useState<Series[]>([]);
+  const [missingCompanies, setMissingCompanies] = useState<string[]>([]);
+  const [derivation, setDerivation] = useState<Derivation | null>(null);
+  const [seriesUnit, setSeriesUnit] = useState<Unit | null>(null);
+  const [qualityIssues, setQualityIssues] = useState<QualityIssue[]>([]);
+  const [forecastMethod, setForecastMethod] = useState<ForecastMethod | null>(null);
+  const [forecastHorizon, setForecastHorizon] = useState(3);
+  const [forecasts, setForecasts] = useState<Map<string, ForecastPoint[]>>(new Map());
+  const [unforecastable, setUnforecastable] = useState<string[]>([]);
+  const [benchmarkStat, setBenchmarkStat] = useState<SectorStat | null>(null);
+  const [benchmarks, setBenchmarks] = useState<ChartSeries[]>([]);
+  const [annotations, setAnnotations] = useState<Annotation[]>([]);
+  const [waterfallPeriods, setWaterfallPeriods] = useState<Map<number, WaterfallValues>>(new Map());
+  const [waterfallPosition, setWaterfallPosition] = useState<number | null>(null);
+  
+  // Chart options can be restored from the URL straight away; companies and
+  // metric have to wait until the option lists are loaded
+  const [initialView] = useState(() => readViewState(window.location.search));
+  const [scaleType, setScaleType] = useState<ScaleType>(initialView.scale);
+  const [chartType, setChartType] = useState<ChartType>(initialView.chart);
+  const [currency, setCurrency] = useState<Currency>(initialView.currency);
+  const [numberSystem, setNumberSystem] = useState<NumberSystem>(initialView.numbers);
+  const [yearRange, setYearRange] = useState<[number, number] | null>(initialView.yearRange);
+  const [isUrlRestored, setIsUrlRestored] = useState(false);
   
-  const [chartData, setChartData] = useState<DataPoint[]>([]);
+  // Saved watchlists and dashboards belong to the user named in the sidebar
+  const [user, setUser] = useState(readStoredUser);
+  const [activeDashboardId, setActiveDashboardId] = useState<string | null>(null);
+  const savedViews = useSavedViews(user);
   
   const [error, setError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [isLoadingOptions, setIsLoadingOptions] = useState<boolean>(true);
-  const [companyTicker, setCompanyTicker] = useState<string>('');
 
   const retryCountRef = useRef(0);
+  // Set when the next URL write should replace the history entry (restores
+  // and back/forward) rather than push a new one
+  const replaceHistoryRef = useRef(true);
   const lastFetchTimeRef = useRef<number | null>(null);
+  const chartRef = useRef<SVGSVGElement>(null);
   
   useEffect(() => {
     let isMounted = true;
@@ -153,36 +197,8 @@ const App: React.FC = () => {
       
       try {
         const [companiesRes, metricsRes] = await Promise.all([
-          fetchWithTimeout('/api/companies')
-            .then(async r => {
-              if (!r.ok) {
-                const errorData = await r.json().catch(() => ({}));
-                throw new Error(errorData.error || `HTTP error! status: ${r.status}`);
-              }
-              return r.json() as Promise<CompanyResponse>;
-            })
-            .then(data => {
-              if (!data.success) {
-                throw new Error(data.error || 'Failed to load companies');
-              }
-              return data;
-            }),
-          
-          fetchWithTimeout('/api/metrics')
-            .then(async r => {
-              if (!r.ok) {
-                const errorData = await r.json().catch(() => ({}));
-                throw new Error(errorData.error || `HTTP error! status: ${r.status}`);
-              }
-              return r.json() as Promise<MetricResponse>;
-            })
-            .then(data => {
-              if (!data.success) {
-                throw new Error(data.error || 'Failed to load metrics');
-              }
-              return data;
-            }),
-          
+          api.listCompanies(),
+          api.listMetrics(),
           delay(500)
         ]);
         
@@ -190,6 +206,7 @@ const App: React.FC = () => {
         
         setCompanies(companiesRes.companies || []);
         setMetrics(metricsRes.metrics || []);
+        setMetricGroups(metricsRes.statements || []);
         retryCountRef.current = 0; 
         lastFetchTimeRef.current = Date.now();
         
@@ -221,39 +238,56 @@ const App: React.FC = () => {
   }, [])
 
   const fetchData = useCallback(async (retryCount = 0) => {
-    if (!selectedCompany || !selectedMetric) return;
+    if (selectedCompanies.length === 0 || !selectedMetric) return;
     
     setIsLoading(true);
     setError(null);
     
+    // Whole currency units, so the display can abbreviate them either way
+    const seriesParams = {
+      company: selectedCompanies,
+      metric: selectedMetric,
+      period: periodType,
+      currency,
+      scale: 'units' as const
+    };
+    const seriesKey = queryKey('getSeriesBatch', seriesParams);
+    const qualityParams = { company: selectedCompanies, metric: selectedMetric };
+    // A selection seen before renders straight from the cache, without the loading pause
+    const isRepeat = isCached(seriesKey);
+
     try {
-      const [data] = await Promise.all([
-        fetchWithTimeout(
-          `/api/data?company=${encodeURIComponent(selectedCompany)}&metric=${encodeURIComponent(selectedMetric)}`
-        )
-          .then(async r => {
-            if (!r.ok) {
-              const errorData = await r.json().catch(() => ({}));
-              throw new Error(errorData.error || `HTTP error! status: ${r.status}`);
-            }
-            return r.json() as Promise<DataResponse>;
-          })
-          .then(data => {
-            if (!data.success) {
-              throw new Error(data.error || 'No data available');
-            }
-            return data;
-          }),
-        
-        delay(500)
+      const [data, quality] = await Promise.all([
+        cachedQuery(seriesKey, () => api.getSeriesBatch(seriesParams)),
+        // Quality flags are advisory (and annual only); the chart still renders without them
+        periodType === 'annual'
+          ? cachedQuery(queryKey('getQualityReport', qualityParams), () => api.getQualityReport(qualityParams))
+            .catch(e => {
+              console.warn('Could not load data quality report:', e);
+              return null;
+            })
+          : null,
+        isRepeat ? null : delay(500)
       ]);
       
-      if (data.company?.ticker) {
-        setCompanyTicker(data.company.ticker);
-      }
-      
-      const sortedPoints = [...(data.points || [])].sort((a, b) => a.year - b.year);
-      setChartData(sortedPoints);
+      // Keep the user's selection order so colours stay stable across refetches.
+      // From here on a point's year is its chart position (quarters are
+      // fractional years, see fiscal.ts).
+      const byName = new Map((data.series || []).map(s => [s.company.name.toLowerCase(), s]));
+      const ordered = selectedCompanies
+        .map(c => byName.get(c.toLowerCase()))
+        .filter((s): s is Series => Boolean(s))
+        .map(s => ({
+          ...s,
+          points: s.points
+            .map(p => ({ ...p, year: periodPosition(p) }))
+            .sort((a, b) => a.year - b.year)
+        }));
+      setSeriesData(ordered);
+      setMissingCompanies(data.missing || []);
+      setDerivation(data.derivation || null);
+      setSeriesUnit(data.unit || null);
+      setQualityIssues(quality?.issues || []);
       retryCountRef.current = 0; 
       lastFetchTimeRef.current = Date.now();
       
@@ -268,34 +302,382 @@ const App: React.FC = () => {
       }
       
       setError(e?.message || 'Failed to load data. Please try again.');
-      setChartData([]);
+      setSeriesData([]);
+      setMissingCompanies([]);
+      setQualityIssues([]);
     } finally {
       setIsLoading(false);
     }
-  }, [selectedCompany, selectedMetric]);
+  }, [selectedCompanies, selectedMetric, periodType, currency]);
   
   useEffect(() => {
     const controller = new AbortController();
     
-    if (selectedCompany && selectedMetric) {
+    if (selectedCompanies.length > 0 && selectedMetric) {
       fetchData();
     } else {
-      setChartData([]);
+      setSeriesData([]);
+      setMissingCompanies([]);
+      setQualityIssues([]);
       setError(null);
     }
     
     return () => {
       controller.abort();
     };
-  }, [selectedCompany, selectedMetric, fetchData]);
+  }, [selectedCompanies, selectedMetric, fetchData]);
+
+  // Projections are annual only and fetched per company once the series are in;
+  // a company whose history can't be projected is listed under the chart
+  useEffect(() => {
+    if (!forecastMethod || periodType !== 'annual' || seriesData.length === 0) {
+      setForecasts(new Map());
+      setUnforecastable([]);
+      return;
+    }
+    const controller = new AbortController();
+    Promise.all(seriesData.map(s => {
+      const params = {
+        ticker: s.company.ticker,
+        metric: selectedMetric,
+        method: forecastMethod,
+        horizon: forecastHorizon,
+        currency,
+        scale: 'units' as const
+      };
+      return cachedQuery(queryKey('getForecast', params), () => api.getForecast(params), controller.signal)
+        .then(data => [s.company.name, data.forecast] as const)
+        .catch(e => {
+          if (!controller.signal.aborted) console.warn(`Could not forecast ${s.company.name}:`, e);
+          return [s.company.name, null] as const;
+        });
+    }))
+      .then(results => {
+        if (controller.signal.aborted) return;
+        setForecasts(new Map(results.filter((r): r is readonly [string, ForecastPoint[]] => r[1] !== null)));
+        setUnforecastable(results.filter(r => r[1] === null).map(r => r[0]));
+      });
+    return () => controller.abort();
+  }, [seriesData, selectedMetric, forecastMethod, forecastHorizon, periodType, currency]);
+
+  // Annotations change independently of the dataset, so they aren't cached;
+  // loadAnnotations is called again after each edit
+  const plottedTickers = useMemo(() => seriesData.map(s => s.company.ticker), [seriesData]);
+  const loadAnnotations = useCallback((signal?: AbortSignal) => {
+    if (plottedTickers.length === 0) {
+      setAnnotations([]);
+      return;
+    }
+    api.listAnnotations({ ticker: plottedTickers }, { signal })
+      .then(data => setAnnotations([...data.annotations].sort((a, b) =>
+        a.year - b.year || (a.quarter ?? 0) - (b.quarter ?? 0) || a.id - b.id)))
+      .catch(e => {
+        if (!signal?.aborted) console.warn('Could not load annotations:', e);
+      });
+  }, [plottedTickers]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    loadAnnotations(controller.signal);
+    return () => controller.abort();
+  }, [loadAnnotations]);
+
+  const addCompany = (company: CompanyInfo) => {
+    setSelectedCompanies(prev => prev.includes(company.name)
+      ? prev
+      : [...prev, company.name].slice(0, MAX_COMPARE_COMPANIES));
+  };
+
+  const removeCompany = (name: string) => {
+    setSelectedCompanies(prev => {
+      const next = prev.filter(c => c !== name);
+      if (next.length === 0) setSelectedMetric(''); // Reset metric when selection is cleared
+      return next;
+    });
+  };
+
+  // Colours follow the selection order, so a company keeps its colour even
+  // when another selected company has no data for the metric
+  const colorFor = useCallback((name: string) => {
+    const index = selectedCompanies.findIndex(c => c.toLowerCase() === name.toLowerCase());
+    return seriesColor(Math.max(index, 0));
+  }, [selectedCompanies]);
+
+  const companyByName = useMemo(
+    () => new Map(companies.map(c => [c.name, c])),
+    [companies]
+  );
+
+  // One benchmark per sector among the plotted companies, for the same period
+  // and currency as their series. Unclassified companies have none.
+  const plottedSectors = useMemo(() => Array.from(new Set(seriesData
+    .map(s => companyByName.get(s.company.name)?.sector)
+    .filter((key): key is string => Boolean(key)))), [seriesData, companyByName]);
+
+  useEffect(() => {
+    if (!benchmarkStat || plottedSectors.length === 0) {
+      setBenchmarks([]);
+      return;
+    }
+    const suffix = BENCHMARK_OPTIONS.find(o => o.stat === benchmarkStat)?.suffix;
+    const controller = new AbortController();
+    Promise.all(plottedSectors.map(group => {
+      const params = {
+        group,
+        metric: selectedMetric,
+        stat: benchmarkStat,
+        period: periodType,
+        currency,
+        scale: 'units' as const
+      };
+      return cachedQuery(queryKey('getSectorAggregate', params), () => api.getSectorAggregate(params), controller.signal)
+        .catch(e => {
+          if (!controller.signal.aborted) console.warn(`Could not load the ${group} benchmark:`, e);
+          return null;
+        });
+    }))
+      .then(results => {
+        if (controller.signal.aborted) return;
+        setBenchmarks(results
+          .filter((r): r is SectorAggregateResponse => r !== null)
+          .map((r, i) => ({
+            key: `sector:${r.group.key}`,
+            label: `${r.group.name} ${suffix}`,
+            color: BENCHMARK_COLORS[i % BENCHMARK_COLORS.length],
+            points: r.points
+              .map(p => ({ year: periodPosition(p), value: p.value }))
+              .sort((a, b) => a.year - b.year),
+            benchmark: true
+          })));
+      });
+    return () => controller.abort();
+  }, [plottedSectors, selectedMetric, benchmarkStat, periodType, currency]);
+
+  // The waterfall breaks the first company's SALES down to EBITDA and PAT, so
+  // it needs those three series whatever metric is selected. Only periods
+  // that report all three can be drawn.
+  const waterfallCompany = seriesData[0]?.company.name;
+  useEffect(() => {
+    if (chartType !== 'waterfall' || !waterfallCompany) {
+      setWaterfallPeriods(new Map());
+      return;
+    }
+    const controller = new AbortController();
+    Promise.all(WATERFALL_METRICS.map(metric => {
+      const params = { company: waterfallCompany, metric, period: periodType, currency, scale: 'units' as const };
+      return cachedQuery(queryKey('getSeries', params), () => api.getSeries(params), controller.signal);
+    }))
+      .then(([sales, ebitda, pat]) => {
+        if (controller.signal.aborted) return;
+        const byPosition = (points: Series['points']) => new Map(points
+          .filter((p): p is typeof p & { value: number } => p.value !== null)
+          .map(p => [periodPosition(p), p.value]));
+        const ebitdaAt = byPosition(ebitda.points);
+        const patAt = byPosition(pat.points);
+        const periods = new Map<number, WaterfallValues>();
+        for (const [position, value] of Array.from(byPosition(sales.points)).sort((a, b) => a[0] - b[0])) {
+          const ebitdaValue = ebitdaAt.get(position);
+          const patValue = patAt.get(position);
+          if (ebitdaValue !== undefined && patValue !== undefined) {
+            periods.set(position, { sales: value, ebitda: ebitdaValue, pat: patValue });
+          }
+        }
+        setWaterfallPeriods(periods);
+      })
+      .catch(e => {
+        if (controller.signal.aborted) return;
+        console.warn('Could not load the waterfall breakdown:', e);
+        setWaterfallPeriods(new Map());
+      });
+    return () => controller.abort();
+  }, [chartType, waterfallCompany, periodType, currency]);
+
+  const applyView = useCallback((view: ViewState) => {
+    const resolved = resolveCompanies(view.companies, companies)
+      .slice(0, MAX_COMPARE_COMPANIES)
+      .map(c => c.name);
+    const metric = metrics.find(m => m.key.toLowerCase() === view.metric.toLowerCase());
+    setSelectedCompanies(resolved);
+    setSelectedMetric(metric && resolved.length > 0 ? metric.key : '');
+    setPeriodType(view.period);
+    setCurrency(view.currency);
+    setNumberSystem(view.numbers);
+    setYearRange(view.yearRange);
+    setScaleType(view.scale);
+    setChartType(view.chart);
+  }, [companies, metrics]);
+
+  useEffect(() => {
+    if (isUrlRestored || isLoadingOptions || companies.length === 0) return;
+    replaceHistoryRef.current = true;
+    applyView(readViewState(window.location.search));
+    setIsUrlRestored(true);
+  }, [isUrlRestored, isLoadingOptions, companies, applyView]);
+
+  const currentView = useMemo<ViewState>(() => ({
+    companies: selectedCompanies.map(name => companyByName.get(name)?.ticker || name),
+    metric: selectedMetric,
+    period: periodType,
+    currency,
+    numbers: numberSystem,
+    yearRange,
+    scale: scaleType,
+    chart: chartType
+  }), [selectedCompanies, selectedMetric, periodType, currency, numberSystem, yearRange, scaleType, chartType, companyByName]);
+
+  // Keep the URL in step with the view so links and bookmarks restore it
+  useEffect(() => {
+    if (!isUrlRestored) return;
+    const replace = replaceHistoryRef.current;
+    replaceHistoryRef.current = false;
+    const search = writeViewState(currentView);
+    if (search === window.location.search) return;
+    const url = `${window.location.pathname}${search}${window.location.hash}`;
+    if (replace) {
+      window.history.replaceState(null, '', url);
+    } else {
+      window.history.pushState(null, '', url);
+    }
+  }, [isUrlRestored, currentView]);
+
+  useEffect(() => {
+    if (!isUrlRestored) return;
+    const handlePopState = () => {
+      replaceHistoryRef.current = true;
+      applyView(readViewState(window.location.search));
+    };
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, [isUrlRestored, applyView]);
+
+  const changeUser = (next: string) => {
+    storeUser(next);
+    setUser(next);
+    setActiveDashboardId(null);
+  };
+
+  const loadWatchlist = (watchlist: Watchlist) => {
+    setSelectedCompanies(resolveCompanies(watchlist.companies, companies)
+      .slice(0, MAX_COMPARE_COMPANIES)
+      .map(c => c.name));
+    setActiveDashboardId(null);
+  };
+
+  const pinChart = (target: { id: string } | { name: string }) => {
+    const panel = viewToPanel(currentView);
+    if ('name' in target) {
+      return savedViews.createDashboard(target.name, [panel]).then(d => setActiveDashboardId(d.id));
+    }
+    const dashboard = savedViews.dashboards.find(d => d.id === target.id);
+    return savedViews.updateDashboard(target.id, [...(dashboard?.panels || []), panel]);
+  };
+
+  const openPanel = (panel: DashboardPanel) => {
+    applyView(panelToView(panel, { currency, numbers: numberSystem }));
+    setActiveDashboardId(null);
+  };
+
+  const activeDashboard = savedViews.dashboards.find(d => d.id === activeDashboardId) || null;
+
+  const selectedMetricInfo = useMemo(
+    () => metrics.find(m => m.key === selectedMetric) || null,
+    [metrics, selectedMetric]
+  );
+  const isPercentMetric = (selectedMetricInfo?.unit ?? derivation?.unit) === '%';
+  const formatValue = formatterForUnit(isPercentMetric ? '%' : null, numberSystem);
+  const currencySymbol = seriesUnit?.currency ? CURRENCY_SYMBOLS[seriesUnit.currency] ?? '' : '';
+  const unitSuffix = seriesUnit?.currency ? ` (${seriesUnit.currency})` : '';
+  // The metric picker's option groups: one per financial statement
+  const metricOptions = useMemo(() => {
+    const byKey = new Map(metrics.map(m => [m.key, m]));
+    return metricGroups.map(group => ({
+      ...group,
+      metrics: group.metrics.map(key => byKey.get(key)).filter((m): m is MetricInfo => Boolean(m))
+    }));
+  }, [metrics, metricGroups]);
 
   const displayMetric = useMemo(() => {
     if (!selectedMetric) return '';
+    if (selectedMetricInfo) return selectedMetricInfo.name;
+    // Until the catalog has loaded (e.g. a metric from the URL)
     return selectedMetric
       .split(/[\s_]+/)
       .map(word => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
       .join(' ');
-  }, [selectedMetric]);
+  }, [selectedMetric, selectedMetricInfo]);
+
+  // The first selected company drives the single-value summary in the sidebar
+  // (years with no computable value are left out of it)
+  const chartData = useMemo<ReportedPoint[]>(
+    () => (seriesData[0]?.points || []).filter((p): p is ReportedPoint => p.value !== null),
+    [seriesData]
+  );
+  const companyTicker = seriesData[0]?.company.ticker || '';
+  const isComparison = seriesData.length > 1;
+
+  const companySeries = useMemo<ChartSeries[]>(() => seriesData.map(s => ({
+    key: s.company.name,
+    label: s.company.ticker || s.company.name,
+    color: colorFor(s.company.name),
+    points: s.points,
+    projection: forecasts.get(s.company.name)
+  })), [seriesData, colorFor, forecasts]);
+  const chartSeries = useMemo(() => [...companySeries, ...benchmarks], [companySeries, benchmarks]);
+
+  // Shares of a ratio don't add up to anything, so percent metrics fall back
+  // to the line chart. Forecasts, benchmarks and annotations are line-only.
+  const activeChartType: ChartType = chartType === 'stacked' && isPercentMetric ? 'line' : chartType;
+  const legendSeries = useMemo(() => {
+    if (activeChartType === 'line') return chartSeries;
+    return activeChartType === 'waterfall' ? [] : companySeries;
+  }, [activeChartType, chartSeries, companySeries]);
+
+  // Defaults to the latest period that can be drawn
+  const waterfallPositions = useMemo(() => Array.from(waterfallPeriods.keys()), [waterfallPeriods]);
+  const shownWaterfallPosition = waterfallPosition !== null && waterfallPeriods.has(waterfallPosition)
+    ? waterfallPosition
+    : waterfallPositions[waterfallPositions.length - 1] ?? null;
+  const waterfallValues = shownWaterfallPosition === null ? null : waterfallPeriods.get(shownWaterfallPosition) ?? null;
+
+  // Numbered in period order, as in the list under the chart. Annual charts
+  // show a quarter's annotation on its fiscal year.
+  const chartAnnotations = useMemo<ChartAnnotation[]>(() => annotations.flatMap((a, i) => {
+    const series = seriesData.find(s => s.company.ticker === a.ticker);
+    if (!series) return [];
+    return [{
+      key: String(a.id),
+      seriesKey: series.company.name,
+      year: periodType === 'annual' ? a.year : periodPosition(a),
+      label: String(i + 1),
+      title: a.title,
+      detail: a.description || undefined
+    }];
+  }), [annotations, seriesData, periodType]);
+
+  const chartFlags = useMemo<ChartFlag[]>(() => qualityIssues.map(issue => ({
+    seriesKey: issue.company,
+    year: issue.year,
+    severity: issue.severity,
+    message: issue.message
+  })), [qualityIssues]);
+  const qualityWarnings = qualityIssues.filter(issue => issue.severity === 'warning');
+
+  const selectionLabel = useMemo(() => {
+    if (seriesData.length === 0) return selectedCompanies.join(', ');
+    if (seriesData.length === 1) return seriesData[0].company.name;
+    return seriesData.map(s => s.company.ticker || s.company.name).join(' vs ');
+  }, [seriesData, selectedCompanies]);
+
+  const latestBySeries = useMemo(() => seriesData.map(s => {
+    const latest = s.points.filter((p): p is ReportedPoint => p.value !== null).pop();
+    return {
+      name: s.company.name,
+      ticker: s.company.ticker,
+      color: colorFor(s.company.name),
+      year: latest?.year,
+      value: latest ? formatValue(latest.value) : 'N/A'
+    };
+  }), [seriesData, formatValue, colorFor]);
 
   const latestDataPoint = useMemo(() => {
     if (chartData.length === 0) return null;
@@ -306,19 +688,10 @@ const App: React.FC = () => {
     if (!latestDataPoint) return { value: 'N/A', unit: '' };
     
     const value = latestDataPoint.value;
-    let formattedValue = formatNumber(value);
-    let unit = '';
-    
-    if (Math.abs(value) >= 1_000_000_000) {
-      unit = 'B';
-    } else if (Math.abs(value) >= 1_000_000) {
-      unit = 'M';
-    } else if (Math.abs(value) >= 1_000) {
-      unit = 'K';
-    }
+    if (isPercentMetric) return { value: formatValue(value), unit: '' };
     
-    return { value: formattedValue, unit };
-  }, [latestDataPoint]);
+    return { value: `${currencySymbol}${formatValue(value)}`, unit: '' };
+  }, [latestDataPoint, isPercentMetric, formatValue, currencySymbol]);
 
   const percentageChange = useMemo(() => {
     if (chartData.length < 2) return null;
@@ -326,31 +699,100 @@ const App: React.FC = () => {
     const latest = chartData[chartData.length - 1].value;
     const previous = chartData[chartData.length - 2].value;
     
+    // Ratios and growth rates change by percentage points, not by a percentage of themselves
+    if (isPercentMetric) return latest - previous;
+    
     if (Math.abs(previous) < 0.0001) return null;
     
     const change = ((latest - previous) / Math.abs(previous)) * 100;
     
     return Math.abs(change) > 1000000 ? null : change;
-  }, [chartData]);
+  }, [chartData, isPercentMetric]);
+  const changeSuffix = isPercentMetric ? ' pp' : '%';
   
+  // Ignore a zoom range that no longer overlaps the loaded data
+  const visibleRange = useMemo<[number, number] | null>(() => {
+    if (!yearRange) return null;
+    const years = seriesData.flatMap(s => s.points.map(p => p.year));
+    if (years.length === 0) return null;
+    const start = Math.max(yearRange[0], Math.min(...years));
+    const end = Math.min(yearRange[1], Math.max(...years));
+    return start < end ? [start, end] : null;
+  }, [yearRange, seriesData]);
+
+  const formatTooltipValue = useCallback((v: number) => isPercentMetric
+    ? `${v.toFixed(2)}%`
+    : formatExact(v, numberSystem), [isPercentMetric, numberSystem]);
+  const formatPeriod = useCallback((position: number) => {
+    const label = formatPosition(position, periodType);
+    return periodType === 'ttm' ? `TTM ${label}` : label;
+  }, [periodType]);
+
+  // Fiscal years with data for the selection, offered by the league table
+  const fiscalYears = useMemo(
+    () => Array.from(new Set(seriesData.flatMap(s => s.points.map(p => Math.floor(p.year))))).sort((a, b) => a - b),
+    [seriesData]
+  );
+
   const dateRange = useMemo(() => {
-    if (chartData.length === 0) return '';
-    const startYear = chartData[0].year;
-    const endYear = chartData[chartData.length - 1].year;
-    return startYear === endYear ? `${startYear}` : `${startYear} - ${endYear}`;
-  }, [chartData]);
+    const years = seriesData.flatMap(s => s.points.map(p => p.year));
+    if (years.length === 0) return '';
+    const startYear = Math.min(...years);
+    const endYear = Math.max(...years);
+    return startYear === endYear
+      ? formatPeriod(startYear)
+      : `${formatPeriod(startYear)} - ${formatPeriod(endYear)}`;
+  }, [seriesData, formatPeriod]);
   
   const previousPeriodValue = useMemo(() => {
     if (chartData.length < 2) return null;
     const value = chartData[chartData.length - 2].value;
-    return { 
-      value: formatNumber(value),
-      unit: Math.abs(value) >= 1_000_000_000 ? 'B' : 
-            Math.abs(value) >= 1_000_000 ? 'M' :
-            Math.abs(value) >= 1_000 ? 'K' : ''
-    };
-  }, [chartData]);
+    if (isPercentMetric) return { value: formatValue(value), unit: '' };
+    return { value: `${currencySymbol}${formatValue(value)}`, unit: '' };
+  }, [chartData, isPercentMetric, formatValue, currencySymbol]);
   
+  const chartTitle = activeChartType === 'waterfall'
+    ? `${companyTicker || waterfallCompany} - Sales to PAT${shownWaterfallPosition === null ? '' : `, ${formatPeriod(shownWaterfallPosition)}`} (${currency})`
+    : activeChartType === 'stacked'
+      ? `${selectionLabel} - Share of ${displayMetric}`
+      : `${selectionLabel} - ${displayMetric}${unitSuffix}`;
+
+  const handleExport = useCallback(async (format: ExportFormat) => {
+    const tickers = seriesData.map(s => s.company.ticker || s.company.name).join('_');
+    const baseName = `${tickers}_${selectedMetric.toUpperCase()}`.replace(/[^A-Za-z0-9]+/g, '_');
+
+    if (format === 'csv' || format === 'xlsx') {
+      const { blob, filename } = await api.exportSeries({
+        company: seriesData.map(s => s.company.name),
+        metric: selectedMetric,
+        period: periodType,
+        currency,
+        // Analysts expect crore in Indian sheets; million is the international norm
+        scale: numberSystem === 'indian' ? 'crore' : 'million',
+        format
+      });
+      downloadBlob(blob, filename ?? `${baseName}.${format}`);
+      return;
+    }
+
+    if (!chartRef.current) throw new Error('Chart is not ready yet');
+    const legend: LegendEntry[] = [
+      ...legendSeries.map(s => ({
+        label: `${displayMetric} (${s.label})`,
+        color: s.color
+      })),
+      // The markers only carry a number; the export spells out what they mark
+      ...(activeChartType === 'line' ? annotations : []).map((a, i) => ({
+        label: `${i + 1}. ${a.ticker} ${formatPeriod(periodType === 'annual' ? a.year : periodPosition(a))}: ${a.title}`,
+        color: ANNOTATION_COLOR
+      }))
+    ];
+    const blob = format === 'svg'
+      ? chartToSvgBlob(chartRef.current, legend)
+      : await chartToPngBlob(chartRef.current, legend);
+    downloadBlob(blob, `${baseName}.${format}`);
+  }, [seriesData, legendSeries, activeChartType, annotations, selectedMetric, periodType, currency, numberSystem, displayMetric, formatPeriod]);
+
   const lastUpdated = useMemo(() => {
     return lastFetchTimeRef.current ? new Date(lastFetchTimeRef.current).toLocaleTimeString() : null;
   }, [chartData]);
@@ -361,33 +803,38 @@ const App: React.FC = () => {
         <h1 className="title">Financial Dashboard</h1>
         
         <div className="section">
-          <label htmlFor="company-select" className="select-label">Company</label>
-          <div className="select-wrapper">
-            <select 
-              id="company-select"
-              className="select"
-              value={selectedCompany}
-              onChange={(e) => {
-                setSelectedCompany(e.target.value);
-                setSelectedMetric(''); // Reset metric when company changes
-              }}
-              disabled={isLoadingOptions || isLoading}
-              aria-busy={isLoadingOptions}
-              aria-label="Select a company"
-            >
-              <option value="">Select a company</option>
-              {isLoadingOptions ? (
-                <option value="" disabled>Loading companies...</option>
-              ) : (
-                companies.map((c) => (
-                  <option key={c} value={c}>
-                    {c}
-                  </option>
-                ))
-              )}
-            </select>
-            {isLoadingOptions && <div className="select-loading">⌛</div>}
-          </div>
+          <label htmlFor="company-search" className="select-label">
+            Companies
+            {selectedCompanies.length > 0 && (
+              <span className="selection-count">{selectedCompanies.length} selected</span>
+            )}
+          </label>
+          <CompanySearch
+            companies={companies}
+            selected={selectedCompanies}
+            onSelect={addCompany}
+            disabled={isLoadingOptions || isLoading || selectedCompanies.length >= MAX_COMPARE_COMPANIES}
+            isLoading={isLoadingOptions}
+          />
+          {selectedCompanies.length > 0 && (
+            <ul className="company-chips" aria-label="Selected companies">
+              {selectedCompanies.map((name) => (
+                <li key={name} className="company-chip" title={companyByName.get(name)?.isin || name}>
+                  <span className="legend-color" style={{ backgroundColor: colorFor(name) }}></span>
+                  <span>{companyByName.get(name)?.ticker || name}</span>
+                  <button
+                    type="button"
+                    className="chip-remove"
+                    onClick={() => removeCompany(name)}
+                    disabled={isLoading}
+                    aria-label={`Remove ${name}`}
+                  >
+                    ×
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
         </div>
         
         <div className="section">
@@ -398,7 +845,7 @@ const App: React.FC = () => {
               className="select"
               value={selectedMetric}
               onChange={(e) => setSelectedMetric(e.target.value)}
-              disabled={isLoading || !selectedCompany || isLoadingOptions}
+              disabled={isLoading || selectedCompanies.length === 0 || isLoadingOptions}
               aria-busy={isLoadingOptions}
               aria-label="Select a metric"
             >
@@ -406,10 +853,14 @@ const App: React.FC = () => {
               {isLoadingOptions ? (
                 <option value="" disabled>Loading metrics...</option>
               ) : (
-                metrics.map((m) => (
-                  <option key={m} value={m}>
-                    {m.split('_').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ')}
-                  </option>
+                metricOptions.map(group => (
+                  <optgroup key={group.key} label={group.name}>
+                    {group.metrics.map((m) => (
+                      <option key={m.key} value={m.key} title={m.derived ? m.formula : m.description}>
+                        {m.name}
+                      </option>
+                    ))}
+                  </optgroup>
                 ))
               )}
             </select>
@@ -417,7 +868,43 @@ const App: React.FC = () => {
           </div>
         </div>
         
-        {selectedCompany && selectedMetric && (
+        <div className="section">
+          <label htmlFor="period-select" className="select-label">Period</label>
+          <div className="select-wrapper">
+            <select
+              id="period-select"
+              className="select"
+              value={periodType}
+              onChange={(e) => setPeriodType(e.target.value as PeriodType)}
+              disabled={isLoading}
+              title="Fiscal years run April to March"
+            >
+              {PERIOD_OPTIONS.map(({ type, label }) => (
+                <option key={type} value={type}>{label}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+        
+        <div className="section">
+          <label htmlFor="currency-select" className="select-label">Currency</label>
+          <div className="select-wrapper">
+            <select
+              id="currency-select"
+              className="select"
+              value={currency}
+              onChange={(e) => setCurrency(e.target.value as Currency)}
+              disabled={isLoading}
+              title="USD values use each fiscal year's average exchange rate"
+            >
+              {CURRENCY_OPTIONS.map((code) => (
+                <option key={code} value={code}>{CURRENCY_SYMBOLS[code]} {code}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+        
+        {selectedCompanies.length > 0 && selectedMetric && (
           <div className="metric-details">
             {isLoading ? (
               <div className="loading-indicator">
@@ -429,6 +916,31 @@ const App: React.FC = () => {
                 <div className="error-icon">⚠️</div>
                 <div>{error}</div>
               </div>
+            ) : isComparison ? (
+              <>
+                <div className="metric-header">
+                  <h3>{displayMetric}</h3>
+                  <span className="ticker-badge">{seriesData.length} companies</span>
+                </div>
+                
+                <ul className="comparison-list">
+                  {latestBySeries.map((s) => (
+                    <li key={s.name} className="comparison-item" title={s.name}>
+                      <span className="legend-color" style={{ backgroundColor: s.color }}></span>
+                      <span className="comparison-name">{s.ticker || s.name}</span>
+                      <span className="comparison-value">{s.value}</span>
+                      <span className="meta-label">{s.year === undefined ? '' : formatPeriod(s.year)}</span>
+                    </li>
+                  ))}
+                </ul>
+                
+                <div className="metric-meta">
+                  <div className="metric-period">
+                    <span className="meta-label">Period:</span>
+                    <span>{dateRange}</span>
+                  </div>
+                </div>
+              </>
             ) : chartData.length > 0 ? (
               <>
                 <div className="metric-header">
@@ -448,7 +960,7 @@ const App: React.FC = () => {
                       className={`change-indicator ${percentageChange >= 0 ? 'positive' : 'negative'}`}
                       title={percentageChange >= 0 ? 'Increase from previous period' : 'Decrease from previous period'}
                     >
-                      {percentageChange >= 0 ? '▲' : '▼'} {Math.abs(percentageChange).toFixed(2)}%
+                      {percentageChange >= 0 ? '▲' : '▼'} {Math.abs(percentageChange).toFixed(2)}{changeSuffix}
                     </span>
                   )}
                 </div>
@@ -473,6 +985,13 @@ const App: React.FC = () => {
                     <span className="meta-label">Data Points:</span>
                     <span>{chartData.length}</span>
                   </div>
+                  
+                  {derivation?.derived && derivation.formula && (
+                    <div className="derivation" title="How this metric is computed">
+                      <span className="meta-label">Formula:</span>
+                      <span>{derivation.formula}</span>
+                    </div>
+                  )}
                 </div>
               </>
             ) : (
@@ -482,23 +1001,52 @@ const App: React.FC = () => {
             )}
           </div>
         )}
+        
+        <Alerts ticker={companyTicker || null} metric={selectedMetric} author={user} />
+
+        <SavedViews
+          key={user}
+          user={user}
+          onUserChange={changeUser}
+          watchlists={savedViews.watchlists}
+          dashboards={savedViews.dashboards}
+          loadError={savedViews.error}
+          selection={currentView.companies}
+          canPin={currentView.companies.length > 0 && Boolean(selectedMetric)}
+          activeDashboardId={activeDashboardId}
+          onLoadWatchlist={loadWatchlist}
+          onSaveWatchlist={(name) => savedViews.saveWatchlist(name, currentView.companies)}
+          onDeleteWatchlist={savedViews.deleteWatchlist}
+          onOpenDashboard={setActiveDashboardId}
+          onPinChart={pinChart}
+          onDeleteDashboard={savedViews.deleteDashboard}
+        />
       </aside>
       
       <main className="main">
-        {!selectedCompany || !selectedMetric ? (
+        {activeDashboard ? (
+          <DashboardView
+            dashboard={activeDashboard}
+            currency={currency}
+            numberSystem={numberSystem}
+            onChange={(panels) => savedViews.updateDashboard(activeDashboard.id, panels)}
+            onOpenPanel={openPanel}
+            onClose={() => setActiveDashboardId(null)}
+          />
+        ) : selectedCompanies.length === 0 || !selectedMetric ? (
           <div className="welcome-screen">
             <div className="welcome-icon">📊</div>
             <h2>Welcome to Financial Dashboard</h2>
-            <p>Select a company and a metric to visualize financial data trends over time.</p>
+            <p>Select one or more companies and a metric to visualize financial data trends over time.</p>
             <div className="hint">
-              <div>💡 <strong>Tip:</strong> Start by selecting a company from the dropdown.</div>
+              <div>💡 <strong>Tip:</strong> Search by name, ticker or ISIN, and add several companies to overlay them on one chart.</div>
               {isLoadingOptions && <div className="loading-options">Loading data...</div>}
             </div>
           </div>
         ) : isLoading ? (
           <div className="chart-loading">
             <div className="loading-spinner"></div>
-            <div className="loading-text">Loading {displayMetric} data for {selectedCompany}...</div>
+            <div className="loading-text">Loading {displayMetric} data for {selectionLabel}...</div>
           </div>
         ) : error ? (
           <div className="error-state">
@@ -517,7 +1065,7 @@ const App: React.FC = () => {
               <button 
                 className="btn secondary"
                 onClick={() => {
-                  setSelectedCompany('');
+                  setSelectedCompanies([]);
                   setSelectedMetric('');
                   setError(null);
                 }}
@@ -530,7 +1078,7 @@ const App: React.FC = () => {
           <div className="no-data-state">
             <div className="no-data-icon">📭</div>
             <h3>No Data Available</h3>
-            <p>We couldn't find any data for {selectedCompany} - {displayMetric}.</p>
+            <p>We couldn't find any data for {selectionLabel} - {displayMetric}.</p>
             <div className="suggestions">
               <p>Try:</p>
               <ul>
@@ -551,36 +1099,250 @@ const App: React.FC = () => {
         ) : (
           <div className="chart-container">
             <div className="chart-header">
-              <h2>{selectedCompany} - {displayMetric}</h2>
-              <div className="chart-period">{dateRange}</div>
+              <h2>{chartTitle}</h2>
+              <div className="chart-period">
+                {visibleRange
+                  ? `${formatPeriod(visibleRange[0])} - ${formatPeriod(visibleRange[1])} (of ${dateRange})`
+                  : dateRange}
+              </div>
+              <div className="chart-toolbar">
+                {visibleRange && (
+                  <button className="btn secondary" onClick={() => setYearRange(null)}>
+                    Reset zoom
+                  </button>
+                )}
+                <div className="segmented" role="group" aria-label="Chart type">
+                  {CHART_TYPE_OPTIONS.map(({ type, label, title }) => {
+                    const isUnavailable = type === 'stacked' && isPercentMetric;
+                    return (
+                      <button
+                        key={type}
+                        className={`segmented-option ${activeChartType === type ? 'active' : ''}`}
+                        aria-pressed={activeChartType === type}
+                        title={isUnavailable ? 'Shares need an amount, not a ratio or growth rate' : title}
+                        disabled={isUnavailable}
+                        onClick={() => setChartType(type)}
+                      >
+                        {label}
+                      </button>
+                    );
+                  })}
+                </div>
+                {activeChartType === 'waterfall' && waterfallPositions.length > 0 && (
+                  <select
+                    className="select compact"
+                    value={shownWaterfallPosition ?? ''}
+                    onChange={(e) => setWaterfallPosition(Number(e.target.value))}
+                    aria-label="Waterfall period"
+                  >
+                    {[...waterfallPositions].reverse().map(position => (
+                      <option key={position} value={position}>{formatPeriod(position)}</option>
+                    ))}
+                  </select>
+                )}
+                <div className="segmented" role="group" aria-label="Number format">
+                  {NUMBER_SYSTEM_OPTIONS.map(({ system, label, title }) => (
+                    <button
+                      key={system}
+                      className={`segmented-option ${numberSystem === system ? 'active' : ''}`}
+                      aria-pressed={numberSystem === system}
+                      title={title}
+                      onClick={() => setNumberSystem(system)}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+                {activeChartType === 'line' && (
+                  <>
+                    <div className="segmented" role="group" aria-label="Y-axis scale">
+                      {(['linear', 'log'] as const).map((type) => (
+                        <button
+                          key={type}
+                          className={`segmented-option ${scaleType === type ? 'active' : ''}`}
+                          aria-pressed={scaleType === type}
+                          onClick={() => setScaleType(type)}
+                        >
+                          {type === 'linear' ? 'Linear' : 'Log'}
+                        </button>
+                      ))}
+                    </div>
+                    <select
+                      className="select compact"
+                      value={forecastMethod ?? ''}
+                      onChange={(e) => setForecastMethod(e.target.value ? e.target.value as ForecastMethod : null)}
+                      disabled={periodType !== 'annual'}
+                      aria-label="Forecast"
+                      title={periodType === 'annual' ? 'Project the series past the last reported year' : 'Forecasts are available for annual data'}
+                    >
+                      <option value="">No forecast</option>
+                      {FORECAST_OPTIONS.map(({ method, label }) => (
+                        <option key={method} value={method}>{label}</option>
+                      ))}
+                    </select>
+                    {forecastMethod && periodType === 'annual' && (
+                      <select
+                        className="select compact"
+                        value={forecastHorizon}
+                        onChange={(e) => setForecastHorizon(Number(e.target.value))}
+                        aria-label="Forecast horizon"
+                      >
+                        {FORECAST_HORIZONS.map(h => (
+                          <option key={h} value={h}>+{h} {h === 1 ? 'year' : 'years'}</option>
+                        ))}
+                      </select>
+                    )}
+                    <select
+                      className="select compact"
+                      value={benchmarkStat ?? ''}
+                      onChange={(e) => setBenchmarkStat(e.target.value ? e.target.value as SectorStat : null)}
+                      disabled={plottedSectors.length === 0}
+                      aria-label="Sector benchmark"
+                      title={plottedSectors.length > 0 ? 'Plot the aggregate of each company\'s sector' : 'None of these companies has a sector'}
+                    >
+                      <option value="">No benchmark</option>
+                      {BENCHMARK_OPTIONS.map(({ stat, label }) => (
+                        <option
+                          key={stat}
+                          value={stat}
+                          disabled={stat === 'sum' && Boolean(selectedMetricInfo?.derived)}
+                        >
+                          {label}
+                        </option>
+                      ))}
+                    </select>
+                  </>
+                )}
+                <ExportMenu onExport={handleExport} />
+              </div>
             </div>
             <div className="chart-wrapper">
-              <LineChart 
-                points={chartData} 
-                title={`${selectedCompany} - ${displayMetric}`}
-              />
+              {activeChartType === 'line' && (
+                <LineChart 
+                  series={chartSeries} 
+                  title={chartTitle}
+                  svgRef={chartRef}
+                  numberSystem={numberSystem}
+                  formatValue={formatValue}
+                  formatTooltipValue={formatTooltipValue}
+                  formatPeriod={formatPeriod}
+                  scale={scaleType}
+                  yearRange={visibleRange}
+                  flags={chartFlags}
+                  annotations={chartAnnotations}
+                />
+              )}
+              {activeChartType === 'bar' && (
+                <BarChart
+                  series={companySeries}
+                  title={chartTitle}
+                  svgRef={chartRef}
+                  formatValue={formatValue}
+                  formatTooltipValue={formatTooltipValue}
+                  formatPeriod={formatPeriod}
+                  yearRange={visibleRange}
+                />
+              )}
+              {activeChartType === 'stacked' && (
+                <StackedAreaChart
+                  series={companySeries}
+                  title={chartTitle}
+                  svgRef={chartRef}
+                  formatTooltipValue={formatTooltipValue}
+                  formatPeriod={formatPeriod}
+                  yearRange={visibleRange}
+                />
+              )}
+              {activeChartType === 'waterfall' && (waterfallValues ? (
+                <WaterfallChart
+                  values={waterfallValues}
+                  title={chartTitle}
+                  svgRef={chartRef}
+                  formatValue={formatterForUnit(null, numberSystem)}
+                  formatTooltipValue={(v) => formatExact(v, numberSystem)}
+                />
+              ) : (
+                <div className="chart-empty">
+                  No period has SALES, EBITDA and PAT for {companyTicker || waterfallCompany}
+                </div>
+              ))}
+              {activeChartType !== 'waterfall' && (
+                <YearBrush
+                  series={legendSeries}
+                  range={visibleRange}
+                  onChange={setYearRange}
+                  formatPeriod={formatPeriod}
+                />
+              )}
             </div>
             <div className="chart-footer">
               <div className="chart-legend">
-                <div className="legend-item">
-                  <span className="legend-color" style={{ backgroundColor: '#3b82f6' }}></span>
-                  <span>{displayMetric} ({companyTicker || selectedCompany})</span>
-                </div>
-                {percentageChange !== null && (
+                {legendSeries.map((s) => (
+                  <div key={s.key} className="legend-item" title={s.key}>
+                    <span className={`legend-color ${s.benchmark ? 'benchmark' : ''}`} style={{ backgroundColor: s.color }}></span>
+                    <span>{displayMetric} ({s.label})</span>
+                  </div>
+                ))}
+                {!isComparison && percentageChange !== null && (
                   <div className="legend-change" title="Change from previous period">
                     <span>Period Change: </span>
                     <span className={percentageChange >= 0 ? 'positive' : 'negative'}>
-                      {percentageChange >= 0 ? '▲' : '▼'} {Math.abs(percentageChange).toFixed(2)}%
+                      {percentageChange >= 0 ? '▲' : '▼'} {Math.abs(percentageChange).toFixed(2)}{changeSuffix}
                     </span>
                   </div>
                 )}
               </div>
+              {activeChartType === 'line' && forecasts.size > 0 && (
+                <div className="forecast-note" title="Projections are estimates, not reported figures">
+                  Dashed: {FORECAST_OPTIONS.find(o => o.method === forecastMethod)?.label} projection, shaded 95% band
+                </div>
+              )}
+              {activeChartType === 'line' && unforecastable.length > 0 && (
+                <div className="forecast-note" title="Too little history, or non-positive values for CAGR">
+                  No projection: {unforecastable.join(', ')}
+                </div>
+              )}
+              {activeChartType === 'line' && benchmarks.length > 0 && (
+                <div className="forecast-note" title="Aggregated over every company in the sector, not only the selected ones">
+                  Dotted: {benchmarks.map(b => b.label).join(', ')}
+                </div>
+              )}
+              {missingCompanies.length > 0 && (
+                <div className="missing-series" title="No data for this metric">
+                  No {displayMetric} data: {missingCompanies.join(', ')}
+                </div>
+              )}
+              {qualityWarnings.length > 0 && (
+                <div
+                  className="quality-summary"
+                  title={qualityWarnings.map(issue => `${issue.ticker} ${formatPeriod(issue.year)}: ${issue.message}`).join('\n')}
+                >
+                  ⚠ {qualityWarnings.length} data quality warning{qualityWarnings.length === 1 ? '' : 's'}
+                </div>
+              )}
               {lastUpdated && (
                 <div className="last-updated" title="Last data refresh time">
                   Updated: {lastUpdated}
                 </div>
               )}
             </div>
+            <Annotations
+              annotations={annotations}
+              companies={seriesData.map(s => s.company)}
+              years={fiscalYears}
+              author={user}
+              onChanged={loadAnnotations}
+            />
+            <LeagueTable
+              metric={selectedMetric}
+              metricLabel={displayMetric}
+              isDerived={Boolean(selectedMetricInfo?.derived)}
+              years={fiscalYears}
+              currency={currency}
+              numberSystem={numberSystem}
+              selected={selectedCompanies}
+              onSelect={addCompany}
+            />
           </div>
         )}
       </main>
@@ -0,0 +1,128 @@
+import { useState } from 'react'
+import { formatNumber } from './format'
+import { bandScale, linearScale, linearTicks, nearestTo, plotArea, pointerX, yearTicks, zeroBasedDomain } from './chartScale'
+import { ChartAxes, ChartTooltip } from './ChartFrame'
+import type { ChartSeries } from './LineChart'
+
+type BarChartProps = {
+  series: ChartSeries[]
+  title: string
+  svgRef?: React.Ref<SVGSVGElement>
+  formatValue?: (value: number) => string
+  formatTooltipValue?: (value: number) => string
+  formatPeriod?: (year: number) => string
+  yearRange?: [number, number] | null
+}
+
+// Change on the same period a year earlier, e.g. '+12.4%'; null when there's
+// nothing to compare with
+function yearOnYear(s: ChartSeries, year: number) {
+  const current = s.points.find((p) => p.year === year)?.value
+  const previous = s.points.find((p) => p.year === year - 1)?.value
+  if (current == null || previous == null || previous === 0) return null
+  const change = ((current - previous) / Math.abs(previous)) * 100
+  return `${change >= 0 ? '+' : ''}${change.toFixed(1)}%`
+}
+
+// Grouped bars: one group per period, one bar per company, so the companies
+// compare side by side and each one's year-on-year change reads across groups
+function BarChart({
+  series,
+  title,
+  svgRef,
+  formatValue = formatNumber,
+  formatTooltipValue = formatNumber,
+  formatPeriod = String,
+  yearRange = null
+}: BarChartProps) {
+  const area = plotArea()
+  const { width, height, left, right, top, bottom } = area
+  const [hoverYear, setHoverYear] = useState<number | null>(null)
+
+  const inRange = (year: number) => !yearRange || (year >= yearRange[0] && year <= yearRange[1])
+  const years = Array.from(new Set(series.flatMap((s) => s.points.map((p) => p.year)).filter(inRange))).sort((a, b) => a - b)
+  const valueAt = (s: ChartSeries, year: number) => s.points.find((p) => p.year === year)?.value ?? null
+  const values = series.flatMap((s) => years.map((y) => valueAt(s, y)).filter((v): v is number => v !== null))
+
+  const domain = zeroBasedDomain(values)
+  const yScale = linearScale(domain, [bottom, top])
+  const band = bandScale(years.length, [left, right])
+  const barWidth = band.bandwidth / Math.max(series.length, 1)
+  const indexOf = new Map(years.map((y, i) => [y, i]))
+  const xTicks = yearTicks(years, right - left).map((yr) => ({ x: band.center(indexOf.get(yr) ?? 0), label: formatPeriod(yr) }))
+
+  const handleMouseMove = (e: React.MouseEvent<SVGRectElement>) => {
+    const x = pointerX(e, width)
+    if (x !== null) setHoverYear(nearestTo(years, x, (y) => band.center(indexOf.get(y) ?? 0)))
+  }
+  const activeIndex = hoverYear === null ? undefined : indexOf.get(hoverYear)
+
+  return (
+    <svg ref={svgRef} className="chart" viewBox={`0 0 ${width} ${height}`}>
+      <ChartAxes
+        area={area}
+        title={title}
+        xTicks={xTicks}
+        yTicks={values.length === 0 ? [] : linearTicks(domain[0], domain[1])}
+        yScale={yScale}
+        formatValue={formatValue}
+      />
+      {domain[0] < 0 && <line x1={left} y1={yScale(0)} x2={right} y2={yScale(0)} className="axis" />}
+
+      {activeIndex !== undefined && (
+        <rect x={left + activeIndex * band.step} y={top} width={band.step} height={bottom - top} className="bar-hover" />
+      )}
+
+      {years.map((year, i) => (
+        <g key={year}>
+          {series.map((s, j) => {
+            const value = valueAt(s, year)
+            if (value === null) return null
+            return (
+              <rect
+                key={s.key}
+                x={band.start(i) + j * barWidth}
+                y={Math.min(yScale(value), yScale(0))}
+                width={Math.max(barWidth - 1, 1)}
+                height={Math.abs(yScale(value) - yScale(0))}
+                className="bar"
+                style={{ fill: s.color }}
+              />
+            )
+          })}
+        </g>
+      ))}
+
+      {hoverYear !== null && activeIndex !== undefined && (
+        <ChartTooltip
+          area={area}
+          x={band.center(activeIndex)}
+          title={formatPeriod(hoverYear)}
+          crosshair={false}
+          rows={series.map((s) => {
+            const value = valueAt(s, hoverYear)
+            const change = yearOnYear(s, hoverYear)
+            return {
+              key: s.key,
+              color: s.color,
+              label: s.label,
+              value: value === null ? '—' : `${formatTooltipValue(value)}${change ? ` (${change})` : ''}`
+            }
+          })}
+        />
+      )}
+
+      <rect
+        x={left}
+        y={top}
+        width={right - left}
+        height={bottom - top}
+        fill="transparent"
+        onMouseMove={handleMouseMove}
+        onMouseLeave={() => setHoverYear(null)}
+      />
+    </svg>
+  )
+}
+
+export default BarChart
@@ -0,0 +1,93 @@
+import type { PlotArea } from './chartScale'
+
+type AxesProps = {
+  area: PlotArea
+  title: string
+  // Labelled x ticks, already thinned so the labels don't overlap
+  xTicks: { x: number; label: string }[]
+  // Short unlabelled marks, e.g. one per year
+  xMarks?: number[]
+  yTicks: number[]
+  yScale: (value: number) => number
+  formatValue: (value: number) => string
+}
+
+// Title, axes, ticks and grid lines shared by every chart type
+export function ChartAxes({ area, title, xTicks, xMarks = [], yTicks, yScale, formatValue }: AxesProps) {
+  const { width, left, right, top, bottom } = area
+  return (
+    <g>
+      <text x={width / 2} y={18} textAnchor="middle" className="chart-title">{title}</text>
+      <line x1={left} y1={bottom} x2={right} y2={bottom} className="axis" />
+      <line x1={left} y1={top} x2={left} y2={bottom} className="axis" />
+
+      {xMarks.map((x) => (
+        <line key={x} x1={x} y1={bottom} x2={x} y2={bottom + 4} className="tick" />
+      ))}
+      {xTicks.map(({ x, label }) => (
+        <g key={x}>
+          <line x1={x} y1={bottom} x2={x} y2={bottom + 6} className="tick" />
+          <text x={x} y={bottom + 20} textAnchor="middle" className="tick-label">{label}</text>
+        </g>
+      ))}
+
+      {yTicks.map((v, i) => (
+        <g key={i}>
+          <line x1={left - 6} y1={yScale(v)} x2={left} y2={yScale(v)} className="tick" />
+          <text x={left - 10} y={yScale(v)} textAnchor="end" dominantBaseline="middle" className="tick-label">
+            {formatValue(v)}
+          </text>
+          <line x1={left} y1={yScale(v)} x2={right} y2={yScale(v)} className="grid" />
+        </g>
+      ))}
+    </g>
+  )
+}
+
+export type TooltipRow = { key: string; color: string; label: string; value: string }
+export type TooltipNote = { key: string; text: string; className: string }
+
+type TooltipProps = {
+  area: PlotArea
+  // Where the hovered period is drawn; the box sits beside it
+  x: number
+  title: string
+  rows: TooltipRow[]
+  // Full-width lines under the rows (quality flags, annotations)
+  notes?: TooltipNote[]
+  crosshair?: boolean
+}
+
+const ROW_HEIGHT = 18
+const NOTE_HEIGHT = 16
+
+// Hover box listing each series' value for one period
+export function ChartTooltip({ area, x, title, rows, notes = [], crosshair = true }: TooltipProps) {
+  // Widen the box when it has to fit notes
+  const width = notes.length > 0 ? 380 : 210
+  const height = 24 + rows.length * ROW_HEIGHT + (notes.length > 0 ? 6 + notes.length * NOTE_HEIGHT : 0)
+  const boxX = x + width + 12 > area.right ? x - width - 12 : x + 12
+  const notesTop = area.top + 30 + rows.length * ROW_HEIGHT
+
+  return (
+    <g className="chart-tooltip" pointerEvents="none">
+      {crosshair && <line x1={x} y1={area.top} x2={x} y2={area.bottom} className="crosshair" />}
+      <rect x={boxX} y={area.top} width={width} height={height} rx={6} className="tooltip-box" />
+      <text x={boxX + 10} y={area.top + 16} className="tooltip-title">{title}</text>
+      {rows.map((row, i) => (
+        <g key={row.key}>
+          <circle cx={boxX + 14} cy={area.top + 30 + i * ROW_HEIGHT} r={4} style={{ fill: row.color }} />
+          <text x={boxX + 24} y={area.top + 34 + i * ROW_HEIGHT} className="tooltip-label">{row.label}</text>
+          <text x={boxX + width - 10} y={area.top + 34 + i * ROW_HEIGHT} textAnchor="end" className="tooltip-value">
+            {row.value}
+          </text>
+        </g>
+      ))}
+      {notes.map((note, i) => (
+        <text key={note.key} x={boxX + 10} y={notesTop + 6 + i * NOTE_HEIGHT} className={note.className}>
+          {note.text}
+        </text>
+      ))}
+    </g>
+  )
+}
@@ -0,0 +1,158 @@
+import { useEffect, useId, useMemo, useRef, useState } from 'react';
+import { api, type CompanyInfo } from './api';
+
+const SEARCH_DEBOUNCE = 150;
+
+type CompanySearchProps = {
+  companies: CompanyInfo[];
+  selected: string[];
+  onSelect: (company: CompanyInfo) => void;
+  disabled?: boolean;
+  isLoading?: boolean;
+};
+
+// Searchable combobox: an empty query lists every company, typing queries
+// /api/search for prefix and fuzzy matches on name, ticker and ISIN.
+function CompanySearch({ companies, selected, onSelect, disabled, isLoading }: CompanySearchProps) {
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<CompanyInfo[] | null>(null);
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [isSearching, setIsSearching] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const listId = useId();
+
+  useEffect(() => {
+    const q = query.trim();
+    if (!q) {
+      setResults(null);
+      setIsSearching(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    const id = setTimeout(async () => {
+      setIsSearching(true);
+      try {
+        const data = await api.searchCompanies({ q, limit: 20 }, { signal: controller.signal });
+        setResults(data.results);
+      } catch (e) {
+        if (controller.signal.aborted) return;
+        console.error('Company search failed:', e);
+        // Fall back to a local substring match so the picker keeps working
+        const lower = q.toLowerCase();
+        setResults(companies.filter(c =>
+          c.name.toLowerCase().includes(lower) ||
+          c.ticker.toLowerCase().includes(lower) ||
+          c.isin.toLowerCase().includes(lower)
+        ));
+      } finally {
+        if (!controller.signal.aborted) setIsSearching(false);
+      }
+    }, SEARCH_DEBOUNCE);
+
+    return () => {
+      clearTimeout(id);
+      controller.abort();
+    };
+  }, [query, companies]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const options = useMemo(
+    () => (results ?? companies).filter(c => !selected.includes(c.name)),
+    [results, companies, selected]
+  );
+
+  const choose = (company: CompanyInfo) => {
+    onSelect(company);
+    setQuery('');
+    setActiveIndex(0);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setIsOpen(true);
+      setActiveIndex(i => Math.min(i + 1, options.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(i => Math.max(i - 1, 0));
+    } else if (e.key === 'Enter') {
+      if (isOpen && options[activeIndex]) {
+        e.preventDefault();
+        choose(options[activeIndex]);
+      }
+    } else if (e.key === 'Escape') {
+      setIsOpen(false);
+    }
+  };
+
+  const activeOptionId = isOpen && options[activeIndex] ? `${listId}-${activeIndex}` : undefined;
+
+  return (
+    <div className="combobox" ref={containerRef}>
+      <input
+        id="company-search"
+        className="select combobox-input"
+        type="text"
+        role="combobox"
+        placeholder={isLoading ? 'Loading companies...' : 'Search name, ticker or ISIN'}
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setActiveIndex(0);
+          setIsOpen(true);
+        }}
+        onFocus={() => setIsOpen(true)}
+        onKeyDown={handleKeyDown}
+        disabled={disabled}
+        autoComplete="off"
+        aria-expanded={isOpen}
+        aria-controls={listId}
+        aria-activedescendant={activeOptionId}
+        aria-autocomplete="list"
+        aria-busy={isLoading || isSearching}
+      />
+      {isOpen && !disabled && (
+        <ul className="combobox-options" id={listId} role="listbox">
+          {options.length === 0 ? (
+            <li className="combobox-empty">
+              {isSearching ? 'Searching...' : query.trim() ? 'No matching companies' : 'All companies selected'}
+            </li>
+          ) : (
+            options.map((c, i) => (
+              <li
+                key={c.ticker}
+                id={`${listId}-${i}`}
+                role="option"
+                aria-selected={i === activeIndex}
+                className={`combobox-option ${i === activeIndex ? 'active' : ''}`}
+                onMouseEnter={() => setActiveIndex(i)}
+                onMouseDown={(e) => {
+                  // Keep focus in the input so the list stays open for the next pick
+                  e.preventDefault();
+                  choose(c);
+                }}
+              >
+                <span className="combobox-name">{c.name}</span>
+                <span className="combobox-meta">{c.ticker}{c.isin ? ` · ${c.isin}` : ''}</span>
+              </li>
+            ))
+          )}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default CompanySearch;
@@ -0,0 +1,161 @@
+import { useEffect, useState } from 'react';
+import { api, type Currency, type Dashboard, type DashboardPanel, type Series, type Unit } from './api';
+import LineChart, { type ChartSeries } from './LineChart';
+import { formatExact, formatterForUnit, type NumberSystem } from './format';
+import { formatPosition, periodPosition } from './fiscal';
+import { seriesColor } from './seriesColors';
+import { cachedQuery, queryKey } from './queryCache';
+
+type DashboardViewProps = {
+  dashboard: Dashboard;
+  currency: Currency;
+  numberSystem: NumberSystem;
+  onChange: (panels: DashboardPanel[]) => Promise<unknown>;
+  onOpenPanel: (panel: DashboardPanel) => void;
+  onClose: () => void;
+};
+
+type PanelProps = {
+  panel: DashboardPanel;
+  currency: Currency;
+  numberSystem: NumberSystem;
+};
+
+// One chart of the grid; fetches its own series so panels load independently
+function PanelChart({ panel, currency, numberSystem }: PanelProps) {
+  const [series, setSeries] = useState<Series[]>([]);
+  const [unit, setUnit] = useState<Unit | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const period = panel.period ?? 'annual';
+  // Saving the dashboard returns new panel objects; refetch only when the content changes
+  const tickers = panel.companies.join(',');
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setError(null);
+    const params = { ticker: tickers.split(','), metric: panel.metric, period, currency, scale: 'units' as const };
+    cachedQuery(queryKey('getSeriesBatch', params), () => api.getSeriesBatch(params), controller.signal)
+      .then(data => {
+        setSeries(data.series.map(s => ({
+          ...s,
+          points: s.points
+            .map(p => ({ ...p, year: periodPosition(p) }))
+            .sort((a, b) => a.year - b.year)
+        })));
+        setUnit(data.unit);
+      })
+      .catch(e => {
+        if (controller.signal.aborted) return;
+        setSeries([]);
+        setError(e instanceof Error ? e.message : 'Failed to load data');
+      });
+    return () => controller.abort();
+  }, [tickers, panel.metric, period, currency]);
+
+  if (error) return <div className="panel-empty">{error}</div>;
+  if (series.length === 0) return <div className="panel-empty">Loading...</div>;
+
+  const isPercent = unit?.label === '%';
+  const chartSeries: ChartSeries[] = series.map((s, i) => ({
+    key: s.company.name,
+    label: s.company.ticker || s.company.name,
+    color: seriesColor(i),
+    points: s.points
+  }));
+  const hasRange = (panel.from ?? null) !== null || (panel.to ?? null) !== null;
+
+  return (
+    <LineChart
+      series={chartSeries}
+      title={`${chartSeries.map(s => s.label).join(' vs ')} - ${panel.metric}${unit?.currency ? ` (${unit.currency})` : ''}`}
+      numberSystem={numberSystem}
+      formatValue={formatterForUnit(isPercent ? '%' : null, numberSystem)}
+      formatTooltipValue={(v) => (isPercent ? `${v.toFixed(2)}%` : formatExact(v, numberSystem))}
+      formatPeriod={(position) => formatPosition(position, period)}
+      scale={panel.scale ?? 'linear'}
+      yearRange={hasRange ? [panel.from ?? -Infinity, panel.to ?? Infinity] : null}
+    />
+  );
+}
+
+// A saved dashboard: its panels in a two-column grid, each of which can be
+// widened, moved, removed or opened in the main chart
+function DashboardView({ dashboard, currency, numberSystem, onChange, onOpenPanel, onClose }: DashboardViewProps) {
+  const [error, setError] = useState<string | null>(null);
+  const { panels } = dashboard;
+
+  const save = (next: DashboardPanel[]) => {
+    setError(null);
+    onChange(next).catch(e => setError(e instanceof Error ? e.message : 'Could not save the dashboard'));
+  };
+
+  const move = (index: number, offset: number) => {
+    const next = [...panels];
+    const [panel] = next.splice(index, 1);
+    next.splice(index + offset, 0, panel);
+    save(next);
+  };
+
+  return (
+    <div className="dashboard-view">
+      <div className="chart-header">
+        <h2>{dashboard.name}</h2>
+        <div className="chart-period">{panels.length} panel{panels.length === 1 ? '' : 's'}</div>
+        <div className="chart-toolbar">
+          <button className="btn secondary" onClick={onClose}>Close dashboard</button>
+        </div>
+      </div>
+      {error && <div className="saved-error">{error}</div>}
+      {panels.length === 0 ? (
+        <div className="panel-empty">This dashboard is empty. Pin a chart to it from the sidebar.</div>
+      ) : (
+        <div className="dashboard-grid">
+          {panels.map((panel, i) => (
+            // Panels have no id of their own; position plus content is stable enough
+            <section
+              key={`${i}-${panel.metric}-${panel.companies.join(',')}`}
+              className={`dashboard-panel ${(panel.width ?? 1) === 2 ? 'wide' : ''}`}
+            >
+              <div className="panel-toolbar">
+                <button type="button" className="panel-action" onClick={() => onOpenPanel(panel)} title="Open in the main chart">
+                  Open
+                </button>
+                <button
+                  type="button"
+                  className="panel-action"
+                  onClick={() => save(panels.map((p, j) => (j === i ? { ...p, width: (p.width ?? 1) === 2 ? 1 : 2 } : p)))}
+                  title={(panel.width ?? 1) === 2 ? 'Half width' : 'Full width'}
+                >
+                  ⇔
+                </button>
+                <button type="button" className="panel-action" onClick={() => move(i, -1)} disabled={i === 0} aria-label="Move earlier">
+                  ←
+                </button>
+                <button
+                  type="button"
+                  className="panel-action"
+                  onClick={() => move(i, 1)}
+                  disabled={i === panels.length - 1}
+                  aria-label="Move later"
+                >
+                  →
+                </button>
+                <button
+                  type="button"
+                  className="panel-action"
+                  onClick={() => save(panels.filter((_, j) => j !== i))}
+                  aria-label="Remove panel"
+                >
+                  ×
+                </button>
+              </div>
+              <PanelChart panel={panel} currency={currency} numberSystem={numberSystem} />
+            </section>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default DashboardView;
@@ -0,0 +1,194 @@
+import { useEffect, useMemo, useState } from 'react';
+import { api, ApiError, type CompanyInfo, type Currency, type Ranking, type RankingsResponse } from './api';
+import { fiscalYearLabel } from './fiscal';
+import { formatterForUnit, type NumberSystem } from './format';
+import { cachedQuery, queryKey } from './queryCache';
+
+type SortKey = 'rank' | 'company' | 'value' | 'rankChange' | 'percentile';
+
+type LeagueTableProps = {
+  metric: string;
+  metricLabel: string;
+  // Reported metrics can also be ranked on their growth over a window
+  isDerived: boolean;
+  years: number[];
+  currency: Currency;
+  numberSystem: NumberSystem;
+  selected: string[];
+  onSelect: (company: CompanyInfo) => void;
+};
+
+const GROWTH_WINDOWS = [3, 5, 10];
+
+const COLUMNS: { key: SortKey; label: string; numeric: boolean }[] = [
+  { key: 'rank', label: '#', numeric: true },
+  { key: 'company', label: 'Company', numeric: false },
+  { key: 'value', label: 'Value', numeric: true },
+  { key: 'rankChange', label: 'vs prev. year', numeric: true },
+  { key: 'percentile', label: 'Percentile', numeric: true }
+];
+
+function sortValue(row: Ranking, key: SortKey) {
+  if (key === 'company') return row.company.ticker || row.company.name;
+  if (key === 'rankChange') return row.rankChange ?? -Infinity;
+  return row[key];
+}
+
+function RankChange({ change }: { change: number | null }) {
+  if (change === null) return <span className="rank-change new" title="Not ranked the year before">new</span>;
+  if (change === 0) return <span className="rank-change same">–</span>;
+  return (
+    <span className={`rank-change ${change > 0 ? 'positive' : 'negative'}`}>
+      {change > 0 ? '▲' : '▼'} {Math.abs(change)}
+    </span>
+  );
+}
+
+// League table of every company for the selected metric: rank, value, places
+// moved since the previous fiscal year and the peer-group percentile band.
+// Clicking a row adds the company to the chart.
+function LeagueTable({ metric, metricLabel, isDerived, years, currency, numberSystem, selected, onSelect }: LeagueTableProps) {
+  const [year, setYear] = useState<number | null>(null);
+  const [windowYears, setWindowYears] = useState<number | null>(null);
+  const [data, setData] = useState<RankingsResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [sort, setSort] = useState<{ key: SortKey; ascending: boolean }>({ key: 'rank', ascending: true });
+
+  // Growth windows don't apply to ratios and growth rates
+  const growthWindow = isDerived ? null : windowYears;
+  // Fall back to the latest year when the chosen one isn't in the data
+  const rankedYear = year !== null && years.includes(year) ? year : null;
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setIsLoading(true);
+    setError(null);
+    const params = {
+      metric,
+      year: rankedYear ?? undefined,
+      window: growthWindow ?? undefined,
+      currency,
+      scale: 'units' as const
+    };
+    cachedQuery(queryKey('getRankings', params), () => api.getRankings(params), controller.signal)
+      .then(setData)
+      .catch(e => {
+        if (controller.signal.aborted) return;
+        setData(null);
+        setError(e instanceof ApiError && e.status === 404
+          ? 'No company has a value for this selection.'
+          : e instanceof Error ? e.message : 'Failed to load rankings');
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsLoading(false);
+      });
+    return () => controller.abort();
+  }, [metric, rankedYear, growthWindow, currency]);
+
+  const rows = useMemo(() => {
+    const list = [...(data?.rankings || [])];
+    const direction = sort.ascending ? 1 : -1;
+    return list.sort((a, b) => {
+      const x = sortValue(a, sort.key);
+      const y = sortValue(b, sort.key);
+      const order = typeof x === 'string' && typeof y === 'string' ? x.localeCompare(y) : Number(x) - Number(y);
+      return order * direction || a.rank - b.rank;
+    });
+  }, [data, sort]);
+
+  const formatValue = formatterForUnit(data?.unit.label === '%' ? '%' : null, numberSystem);
+  const selectedNames = new Set(selected.map(name => name.toLowerCase()));
+
+  const toggleSort = (key: SortKey) => {
+    setSort(prev => prev.key === key
+      ? { key, ascending: !prev.ascending }
+      // Text sorts A-Z first, numbers largest first (rank smallest first)
+      : { key, ascending: key === 'company' || key === 'rank' });
+  };
+
+  return (
+    <section className="league-table" aria-label="League table">
+      <div className="league-header">
+        <h3>
+          League table: {growthWindow ? `${metricLabel} ${growthWindow}Y CAGR` : metricLabel}
+          {data && <span className="league-year">{fiscalYearLabel(data.year)}</span>}
+        </h3>
+        <div className="league-controls">
+          <select
+            className="select compact"
+            value={rankedYear ?? ''}
+            onChange={(e) => setYear(e.target.value ? Number(e.target.value) : null)}
+            aria-label="Fiscal year"
+          >
+            <option value="">Latest year</option>
+            {[...years].reverse().map(y => (
+              <option key={y} value={y}>{fiscalYearLabel(y)}</option>
+            ))}
+          </select>
+          {!isDerived && (
+            <select
+              className="select compact"
+              value={windowYears ?? ''}
+              onChange={(e) => setWindowYears(e.target.value ? Number(e.target.value) : null)}
+              aria-label="Rank on"
+            >
+              <option value="">Value</option>
+              {GROWTH_WINDOWS.map(w => (
+                <option key={w} value={w}>{w}Y CAGR</option>
+              ))}
+            </select>
+          )}
+        </div>
+      </div>
+
+      {error ? (
+        <div className="league-empty">{error}</div>
+      ) : !data ? (
+        <div className="league-empty">{isLoading ? 'Loading rankings...' : ''}</div>
+      ) : (
+        <table className={isLoading ? 'loading' : undefined}>
+          <thead>
+            <tr>
+              {COLUMNS.map(({ key, label, numeric }) => (
+                <th
+                  key={key}
+                  className={numeric ? 'numeric' : undefined}
+                  aria-sort={sort.key === key ? (sort.ascending ? 'ascending' : 'descending') : 'none'}
+                >
+                  <button type="button" className="sort-button" onClick={() => toggleSort(key)}>
+                    {label}
+                    {sort.key === key && <span aria-hidden="true">{sort.ascending ? ' ↑' : ' ↓'}</span>}
+                  </button>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => (
+              <tr
+                key={row.company.ticker}
+                className={selectedNames.has(row.company.name.toLowerCase()) ? 'selected' : undefined}
+                onClick={() => onSelect(row.company)}
+                title={`Add ${row.company.name} to the chart`}
+              >
+                <td className="numeric">{row.rank}</td>
+                <td>{row.company.ticker || row.company.name}</td>
+                <td className="numeric">{formatValue(row.value)}</td>
+                <td className="numeric"><RankChange change={row.rankChange} /></td>
+                <td className="numeric">
+                  <span className={`band band-${row.band}`} title={`${row.band} quartile`}>P{row.percentile}</span>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      {data && data.missing.length > 0 && (
+        <div className="league-missing">Not ranked (no value): {data.missing.join(', ')}</div>
+      )}
+    </section>
+  );
+}
+
+export default LeagueTable;
@@ -0,0 +1,323 @@
+import { useState } from 'react'
+import { formatExact, formatterForUnit, type NumberSystem } from './format'
+import { linearScale, nearestTo, plotArea, pointerX, valueScale, valueTicks, yearTicks, type ScaleType } from './chartScale'
+import { ChartAxes, ChartTooltip, type TooltipNote } from './ChartFrame'
+
+// year is the x position: a fiscal year, or a fractional year for quarters
+// (see fiscal.ts). value is null where a derived metric's inputs are missing.
+export type DataPoint = { year: number; value: number | null }
+
+type PlotPoint = { year: number; value: number }
+
+// A forecast year with its confidence band
+export type ProjectedPoint = { year: number; value: number; lower: number; upper: number }
+
+export type ChartSeries = {
+  key: string
+  label: string
+  color: string
+  points: DataPoint[]
+  // Years past the last reported one; drawn dashed over a shaded band
+  projection?: ProjectedPoint[]
+  // A peer-group aggregate rather than a company; drawn dotted, without markers
+  benchmark?: boolean
+}
+
+// A data quality issue pinned to one point of a series
+export type ChartFlag = {
+  seriesKey: string
+  year: number
+  severity: 'warning' | 'info'
+  message: string
+}
+
+// A corporate event or note pinned to one period of a series; `label` is the
+// short marker text (a number matching the list under the chart)
+export type ChartAnnotation = {
+  key: string
+  seriesKey: string
+  year: number
+  label: string
+  title: string
+  detail?: string
+}
+
+const ANNOTATION_DETAIL_CHARS = 60
+
+// Splits a series into runs of consecutive years so that a missing (or null)
+// year breaks the line instead of being bridged.
+function toSegments(points: PlotPoint[], years: number[]) {
+  const byYear = new Map(points.map((p) => [p.year, p.value]))
+  const segments: PlotPoint[][] = []
+  let current: PlotPoint[] = []
+  for (const year of years) {
+    const value = byYear.get(year)
+    if (value === undefined) {
+      if (current.length) segments.push(current)
+      current = []
+      continue
+    }
+    current.push({ year, value })
+  }
+  if (current.length) segments.push(current)
+  return segments
+}
+
+type LineChartProps = {
+  series: ChartSeries[]
+  title: string
+  svgRef?: React.Ref<SVGSVGElement>
+  // Digit grouping of the default formatters (lakh/crore or thousands)
+  numberSystem?: NumberSystem
+  formatValue?: (value: number) => string
+  // Used in the hover tooltip, where the full value is shown
+  formatTooltipValue?: (value: number) => string
+  // Axis and tooltip label for an x position, e.g. FY24
+  formatPeriod?: (year: number) => string
+  scale?: ScaleType
+  yearRange?: [number, number] | null
+  flags?: ChartFlag[]
+  annotations?: ChartAnnotation[]
+}
+
+function LineChart({
+  series,
+  title,
+  svgRef,
+  numberSystem = 'international',
+  formatValue = formatterForUnit(null, numberSystem),
+  formatTooltipValue = (value) => formatExact(value, numberSystem),
+  formatPeriod = String,
+  scale = 'linear',
+  yearRange = null,
+  flags = [],
+  annotations = []
+}: LineChartProps) {
+  const area = plotArea()
+  const { width, height, left, right, top, bottom } = area
+
+  const [hoverYear, setHoverYear] = useState<number | null>(null)
+
+  const inRange = (year: number) => !yearRange || (year >= yearRange[0] && year <= yearRange[1])
+  // Log axes can't place zero or negative values; those years become gaps
+  const plottable = (value: number | null): value is number =>
+    value !== null && (scale !== 'log' || value > 0)
+
+  const visibleSeries = series.map((s) => ({
+    ...s,
+    plotPoints: s.points.filter((p): p is PlotPoint => inRange(p.year) && plottable(p.value))
+  }))
+  // A projection continues from the series' last reported point and is shown
+  // while that point is in view, even past the end of the zoom range
+  const projections = visibleSeries.flatMap((s) => {
+    const lastReported = s.points.filter((p) => p.value !== null).pop()
+    const anchor = s.plotPoints.find((p) => p.year === lastReported?.year)
+    const points = (s.projection || []).filter((p) => anchor && p.year > anchor.year && plottable(p.value))
+    if (!anchor || points.length === 0) return []
+    // A log axis can't draw a band that reaches zero
+    const showBand = scale !== 'log' || points.every((p) => p.lower > 0)
+    return [{ key: s.key, color: s.color, anchor, points, showBand }]
+  })
+  const years = Array.from(
+    new Set([
+      ...series.flatMap((s) => s.points.map((p) => p.year)).filter(inRange),
+      ...projections.flatMap((p) => p.points.map((point) => point.year))
+    ])
+  ).sort((a, b) => a - b)
+  const values = [
+    ...visibleSeries.flatMap((s) => s.plotPoints.map((p) => p.value)),
+    ...projections.flatMap((p) => p.points.flatMap((point) => p.showBand ? [point.lower, point.upper] : [point.value]))
+  ]
+  const hiddenCount = series.reduce(
+    (n, s) => n + s.points.filter((p) => inRange(p.year) && p.value !== null && !plottable(p.value)).length,
+    0
+  )
+
+  const domain: [number, number] = [Math.min(...values), Math.max(...values)]
+  const xScale = linearScale([years[0], years[years.length - 1]], [left, right])
+  const yScale = valueScale(scale, domain, [bottom, top])
+
+  const pathD = (points: PlotPoint[]) =>
+    toSegments(points, years)
+      .map((segment) => segment.map((p, i) => `${i === 0 ? 'M' : 'L'} ${xScale(p.year)} ${yScale(p.value)}`).join(' '))
+      .join(' ')
+
+  const projectionD = (anchor: PlotPoint, points: ProjectedPoint[]) =>
+    [anchor, ...points].map((p, i) => `${i === 0 ? 'M' : 'L'} ${xScale(p.year)} ${yScale(p.value)}`).join(' ')
+  // Upper bound forwards, lower bound back, pinched to the last reported point
+  const bandD = (anchor: PlotPoint, points: ProjectedPoint[]) =>
+    [
+      `M ${xScale(anchor.year)} ${yScale(anchor.value)}`,
+      ...points.map((p) => `L ${xScale(p.year)} ${yScale(p.upper)}`),
+      ...[...points].reverse().map((p) => `L ${xScale(p.year)} ${yScale(p.lower)}`),
+      'Z'
+    ].join(' ')
+  const forecastStart = projections.length > 0 ? Math.max(...projections.map((p) => p.anchor.year)) : null
+
+  const xTicks = yearTicks(years, right - left).map((yr) => ({ x: xScale(yr), label: formatPeriod(yr) }))
+  const yTicks = values.length === 0 ? [] : valueTicks(scale, domain)
+
+  const handleMouseMove = (e: React.MouseEvent<SVGRectElement>) => {
+    const x = pointerX(e, width)
+    if (x !== null) setHoverYear(nearestTo(years, x, xScale))
+  }
+
+  const activeYear = hoverYear !== null && years.includes(hoverYear) ? hoverYear : null
+  const tooltipRows = activeYear === null
+    ? []
+    : series.map((s) => {
+      const reported = s.points.find((p) => p.year === activeYear)?.value
+      const projected = projections.find((p) => p.key === s.key)?.points.find((p) => p.year === activeYear)
+      const value = reported === undefined && projected
+        ? `${formatTooltipValue(projected.value)} (proj.)`
+        : reported === undefined || reported === null ? '—' : formatTooltipValue(reported)
+      return { key: s.key, color: s.color, label: s.label, value }
+    })
+  const labelFor = (key: string) => series.find((s) => s.key === key)?.label ?? key
+  // Markers for annotations on a plotted year; several on one year stack downwards
+  const visibleAnnotations = annotations
+    .filter((a) => years.includes(a.year) && series.some((s) => s.key === a.seriesKey))
+    .map((a, _, list) => ({ ...a, stack: list.filter((b) => b.year === a.year).indexOf(a) }))
+  const tooltipNotes: TooltipNote[] = activeYear === null
+    ? []
+    : [
+      ...flags
+        .filter((f) => f.year === activeYear && series.some((s) => s.key === f.seriesKey))
+        .map((flag, i) => ({
+          key: `flag-${i}`,
+          text: `⚠ ${labelFor(flag.seriesKey)}: ${flag.message}`,
+          className: `tooltip-flag flag-${flag.severity}`
+        })),
+      ...visibleAnnotations.filter((a) => a.year === activeYear).flatMap((a) => [
+        { key: `annotation-${a.key}`, text: `${a.label}. ${labelFor(a.seriesKey)}: ${a.title}`, className: 'tooltip-annotation' },
+        ...(a.detail
+          ? [{
+            key: `annotation-${a.key}-detail`,
+            text: a.detail.length > ANNOTATION_DETAIL_CHARS ? `${a.detail.slice(0, ANNOTATION_DETAIL_CHARS - 1)}…` : a.detail,
+            className: 'tooltip-annotation'
+          }]
+          : [])
+      ])
+    ]
+
+  return (
+    <svg ref={svgRef} className="chart" viewBox={`0 0 ${width} ${height}`}>
+      <ChartAxes
+        area={area}
+        title={title}
+        xTicks={xTicks}
+        xMarks={years.map(xScale)}
+        yTicks={yTicks}
+        yScale={yScale}
+        formatValue={formatValue}
+      />
+
+      {scale === 'log' && (
+        <text x={left + 6} y={top - 8} className="tick-label">
+          log scale{hiddenCount > 0 ? ` · ${hiddenCount} non-positive value${hiddenCount === 1 ? '' : 's'} not shown` : ''}
+        </text>
+      )}
+
+      {/* forecast bands sit under the reported lines */}
+      {forecastStart !== null && (
+        <g>
+          <line x1={xScale(forecastStart)} y1={top} x2={xScale(forecastStart)} y2={bottom} className="projection-divider" />
+          <text x={xScale(forecastStart) + 6} y={top + 12} className="tick-label">Forecast →</text>
+        </g>
+      )}
+      {projections.filter((p) => p.showBand).map((p) => (
+        <path key={p.key} d={bandD(p.anchor, p.points)} className="projection-band" style={{ fill: p.color }} />
+      ))}
+
+      {/* lines and points */}
+      {visibleSeries.map((s) => (
+        <g key={s.key}>
+          <path d={pathD(s.plotPoints)} className={s.benchmark ? 'line benchmark-line' : 'line'} style={{ stroke: s.color }} />
+          {!s.benchmark && s.plotPoints.map((p) => (
+            <circle
+              key={p.year}
+              cx={xScale(p.year)}
+              cy={yScale(p.value)}
+              r={p.year === activeYear ? 5 : 3}
+              className="dot"
+              style={{ fill: s.color }}
+            />
+          ))}
+        </g>
+      ))}
+
+      {/* projected values, dashed so they read apart from reported data */}
+      {projections.map((p) => (
+        <g key={p.key}>
+          <path d={projectionD(p.anchor, p.points)} className="projection-line" style={{ stroke: p.color }} />
+          {p.points.map((point) => (
+            <circle
+              key={point.year}
+              cx={xScale(point.year)}
+              cy={yScale(point.value)}
+              r={point.year === activeYear ? 5 : 3}
+              className="projection-dot"
+              style={{ stroke: p.color }}
+            />
+          ))}
+        </g>
+      ))}
+
+      {/* data quality markers above the flagged points */}
+      {visibleSeries.map((s) =>
+        s.plotPoints
+          .filter((p) => flags.some((f) => f.seriesKey === s.key && f.year === p.year))
+          .map((p) => {
+            const severity = flags.some((f) => f.seriesKey === s.key && f.year === p.year && f.severity === 'warning')
+              ? 'warning'
+              : 'info'
+            const x = xScale(p.year)
+            const y = yScale(p.value) - 10
+            return (
+              <path
+                key={`${s.key}-${p.year}`}
+                d={`M ${x} ${y - 6} L ${x + 5} ${y + 3} L ${x - 5} ${y + 3} Z`}
+                className={`flag-marker flag-${severity}`}
+              />
+            )
+          })
+      )}
+
+      {/* annotation markers along the top of the plot, over a guide line */}
+      {visibleAnnotations.map((a) => (
+        <g key={a.key} className="annotation-marker">
+          {a.stack === 0 && (
+            <line x1={xScale(a.year)} y1={top} x2={xScale(a.year)} y2={bottom} className="annotation-line" />
+          )}
+          <circle cx={xScale(a.year)} cy={top + 8 + a.stack * 18} r={8} className="annotation-dot" />
+          <text x={xScale(a.year)} y={top + 8 + a.stack * 18} textAnchor="middle" dominantBaseline="central" className="annotation-label">
+            {a.label}
+          </text>
+        </g>
+      ))}
+
+      {/* hover crosshair and tooltip */}
+      {activeYear !== null && (
+        <ChartTooltip
+          area={area}
+          x={xScale(activeYear)}
+          title={formatPeriod(activeYear)}
+          rows={tooltipRows}
+          notes={tooltipNotes}
+        />
+      )}
+
+      <rect
+        x={left}
+        y={top}
+        width={right - left}
+        height={bottom - top}
+        fill="transparent"
+        onMouseMove={handleMouseMove}
+        onMouseLeave={() => setHoverYear(null)}
+      />
+    </svg>
+  )
+}
+
+export default LineChart
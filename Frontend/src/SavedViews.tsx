@@ -0,0 +1,211 @@
+import { useState } from 'react';
+import type { Dashboard, Watchlist } from './api';
+import { USER_PATTERN } from './userViews';
+
+type SavedViewsProps = {
+  user: string;
+  onUserChange: (user: string) => void;
+  watchlists: Watchlist[];
+  dashboards: Dashboard[];
+  loadError: string | null;
+  // Tickers of the companies on the chart; empty when nothing is selected
+  selection: string[];
+  canPin: boolean;
+  activeDashboardId: string | null;
+  onLoadWatchlist: (watchlist: Watchlist) => void;
+  onSaveWatchlist: (name: string) => Promise<unknown>;
+  onDeleteWatchlist: (id: string) => Promise<unknown>;
+  onOpenDashboard: (id: string) => void;
+  // Adds the current chart to a dashboard, creating it when `target` is a new name
+  onPinChart: (target: { id: string } | { name: string }) => Promise<unknown>;
+  onDeleteDashboard: (id: string) => Promise<unknown>;
+};
+
+const NEW_DASHBOARD = '__new__';
+
+// Sidebar list of the user's watchlists and dashboards. Loading a watchlist
+// replaces the selected companies; opening a dashboard shows its panel grid
+// in place of the chart.
+function SavedViews({
+  user,
+  onUserChange,
+  watchlists,
+  dashboards,
+  loadError,
+  selection,
+  canPin,
+  activeDashboardId,
+  onLoadWatchlist,
+  onSaveWatchlist,
+  onDeleteWatchlist,
+  onOpenDashboard,
+  onPinChart,
+  onDeleteDashboard
+}: SavedViewsProps) {
+  const [userDraft, setUserDraft] = useState(user);
+  const [watchlistName, setWatchlistName] = useState('');
+  const [pinTarget, setPinTarget] = useState<string>(NEW_DASHBOARD);
+  const [dashboardName, setDashboardName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // The chosen dashboard may have been deleted since
+  const isNewDashboard = pinTarget === NEW_DASHBOARD || !dashboards.some(d => d.id === pinTarget);
+
+  // Runs one change at a time and shows its failure under the lists
+  const run = async (change: () => Promise<unknown>) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await change();
+      return true;
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not save');
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const commitUser = () => {
+    const next = userDraft.trim();
+    if (next === user) return;
+    if (!USER_PATTERN.test(next)) {
+      setError('User names may contain letters, digits, dot, dash and underscore, and cannot be __proto__ or constructor');
+      setUserDraft(user);
+      return;
+    }
+    setError(null);
+    onUserChange(next);
+  };
+
+  const saveWatchlist = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await run(() => onSaveWatchlist(watchlistName.trim()))) setWatchlistName('');
+  };
+
+  const pinChart = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const target = isNewDashboard ? { name: dashboardName.trim() } : { id: pinTarget };
+    if (await run(() => onPinChart(target))) setDashboardName('');
+  };
+
+  return (
+    <div className="section saved-views">
+      <div className="saved-user">
+        <label htmlFor="saved-user" className="select-label">Saved views for</label>
+        <input
+          id="saved-user"
+          className="saved-input"
+          value={userDraft}
+          onChange={(e) => setUserDraft(e.target.value)}
+          onBlur={commitUser}
+          onKeyDown={(e) => e.key === 'Enter' && commitUser()}
+          maxLength={64}
+          spellCheck={false}
+        />
+      </div>
+
+      <h4 className="saved-heading">Watchlists</h4>
+      {watchlists.length === 0 ? (
+        <div className="saved-empty">No watchlists yet</div>
+      ) : (
+        <ul className="saved-list">
+          {watchlists.map(w => (
+            <li key={w.id} className="saved-item">
+              <button
+                type="button"
+                className="saved-open"
+                onClick={() => onLoadWatchlist(w)}
+                title={`Chart ${w.companies.join(', ')}`}
+              >
+                {w.name} <span className="saved-count">{w.companies.length}</span>
+              </button>
+              <button
+                type="button"
+                className="saved-delete"
+                onClick={() => run(() => onDeleteWatchlist(w.id))}
+                aria-label={`Delete watchlist ${w.name}`}
+                disabled={isSaving}
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <form className="saved-form" onSubmit={saveWatchlist}>
+        <input
+          className="saved-input"
+          value={watchlistName}
+          onChange={(e) => setWatchlistName(e.target.value)}
+          placeholder="Name this selection"
+          maxLength={80}
+          aria-label="Watchlist name"
+        />
+        <button type="submit" className="btn secondary" disabled={isSaving || !watchlistName.trim() || selection.length === 0}>
+          Save
+        </button>
+      </form>
+
+      <h4 className="saved-heading">Dashboards</h4>
+      {dashboards.length === 0 ? (
+        <div className="saved-empty">No dashboards yet</div>
+      ) : (
+        <ul className="saved-list">
+          {dashboards.map(d => (
+            <li key={d.id} className={`saved-item ${d.id === activeDashboardId ? 'active' : ''}`}>
+              <button type="button" className="saved-open" onClick={() => onOpenDashboard(d.id)}>
+                {d.name} <span className="saved-count">{d.panels.length}</span>
+              </button>
+              <button
+                type="button"
+                className="saved-delete"
+                onClick={() => run(() => onDeleteDashboard(d.id))}
+                aria-label={`Delete dashboard ${d.name}`}
+                disabled={isSaving}
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <form className="saved-form" onSubmit={pinChart}>
+        <select
+          className="select compact"
+          value={isNewDashboard ? NEW_DASHBOARD : pinTarget}
+          onChange={(e) => setPinTarget(e.target.value)}
+          aria-label="Dashboard to add the chart to"
+        >
+          <option value={NEW_DASHBOARD}>New dashboard…</option>
+          {dashboards.map(d => (
+            <option key={d.id} value={d.id}>{d.name}</option>
+          ))}
+        </select>
+        {isNewDashboard && (
+          <input
+            className="saved-input"
+            value={dashboardName}
+            onChange={(e) => setDashboardName(e.target.value)}
+            placeholder="Dashboard name"
+            maxLength={80}
+            aria-label="Dashboard name"
+          />
+        )}
+        <button
+          type="submit"
+          className="btn secondary"
+          disabled={isSaving || !canPin || (isNewDashboard && !dashboardName.trim())}
+          title={canPin ? 'Add the current chart as a panel' : 'Select companies and a metric first'}
+        >
+          Pin chart
+        </button>
+      </form>
+
+      {(error || loadError) && <div className="saved-error">{error || loadError}</div>}
+    </div>
+  );
+}
+
+export default SavedViews;
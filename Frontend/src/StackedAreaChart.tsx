@@ -0,0 +1,135 @@
+import { useState } from 'react'
+import { formatNumber } from './format'
+import { linearScale, linearTicks, nearestTo, plotArea, pointerX, yearTicks } from './chartScale'
+import { ChartAxes, ChartTooltip } from './ChartFrame'
+import type { ChartSeries } from './LineChart'
+
+type StackedAreaChartProps = {
+  series: ChartSeries[]
+  title: string
+  svgRef?: React.Ref<SVGSVGElement>
+  formatTooltipValue?: (value: number) => string
+  formatPeriod?: (year: number) => string
+  yearRange?: [number, number] | null
+}
+
+type Layer = { key: string; color: string; label: string; bands: { year: number; lower: number; upper: number; value: number | null }[] }
+
+const formatShare = (share: number) => `${share.toFixed(1)}%`
+
+// Each company's share of the selection's combined total, stacked to 100% per
+// period. Shares of a negative total mean nothing, so negative and missing
+// values count as zero, and periods where nothing is positive are left out.
+function StackedAreaChart({
+  series,
+  title,
+  svgRef,
+  formatTooltipValue = formatNumber,
+  formatPeriod = String,
+  yearRange = null
+}: StackedAreaChartProps) {
+  const area = plotArea()
+  const { width, height, left, right, top, bottom } = area
+  const [hoverYear, setHoverYear] = useState<number | null>(null)
+
+  const inRange = (year: number) => !yearRange || (year >= yearRange[0] && year <= yearRange[1])
+  const valueAt = (s: ChartSeries, year: number) => s.points.find((p) => p.year === year)?.value ?? null
+  const totals = new Map<number, number>()
+  for (const year of new Set(series.flatMap((s) => s.points.map((p) => p.year)).filter(inRange))) {
+    const total = series.reduce((sum, s) => sum + Math.max(valueAt(s, year) ?? 0, 0), 0)
+    if (total > 0) totals.set(year, total)
+  }
+  const years = Array.from(totals.keys()).sort((a, b) => a - b)
+
+  const layers: Layer[] = []
+  const stacked = new Map(years.map((y) => [y, 0]))
+  for (const s of series) {
+    layers.push({
+      key: s.key,
+      color: s.color,
+      label: s.label,
+      bands: years.map((year) => {
+        const value = valueAt(s, year)
+        const lower = stacked.get(year) ?? 0
+        const upper = lower + (Math.max(value ?? 0, 0) / (totals.get(year) ?? 1)) * 100
+        stacked.set(year, upper)
+        return { year, lower, upper, value }
+      })
+    })
+  }
+
+  const xScale = linearScale([years[0], years[years.length - 1]], [left, right])
+  const yScale = linearScale([0, 100], [bottom, top])
+  const areaD = (layer: Layer) =>
+    [
+      ...layer.bands.map((b, i) => `${i === 0 ? 'M' : 'L'} ${xScale(b.year)} ${yScale(b.upper)}`),
+      ...[...layer.bands].reverse().map((b) => `L ${xScale(b.year)} ${yScale(b.lower)}`),
+      'Z'
+    ].join(' ')
+
+  const handleMouseMove = (e: React.MouseEvent<SVGRectElement>) => {
+    const x = pointerX(e, width)
+    if (x !== null) setHoverYear(nearestTo(years, x, xScale))
+  }
+  const activeYear = hoverYear !== null && totals.has(hoverYear) ? hoverYear : null
+
+  return (
+    <svg ref={svgRef} className="chart" viewBox={`0 0 ${width} ${height}`}>
+      <ChartAxes
+        area={area}
+        title={title}
+        xTicks={yearTicks(years, right - left).map((yr) => ({ x: xScale(yr), label: formatPeriod(yr) }))}
+        xMarks={years.map(xScale)}
+        yTicks={years.length === 0 ? [] : linearTicks(0, 100)}
+        yScale={yScale}
+        formatValue={(v) => `${Math.round(v)}%`}
+      />
+
+      {/* a single period has no width, so it's drawn as one stacked column */}
+      {layers.map((layer) => years.length > 1
+        ? <path key={layer.key} d={areaD(layer)} className="area" style={{ fill: layer.color }} />
+        : (
+          <line
+            key={layer.key}
+            x1={xScale(years[0])}
+            y1={yScale(layer.bands[0]?.lower ?? 0)}
+            x2={xScale(years[0])}
+            y2={yScale(layer.bands[0]?.upper ?? 0)}
+            className="area-column"
+            style={{ stroke: layer.color }}
+          />
+        ))}
+
+      {activeYear !== null && (
+        <ChartTooltip
+          area={area}
+          x={xScale(activeYear)}
+          title={formatPeriod(activeYear)}
+          rows={[...layers].reverse().map((layer) => {
+            const band = layer.bands.find((b) => b.year === activeYear)
+            return {
+              key: layer.key,
+              color: layer.color,
+              label: layer.label,
+              value: !band || band.value === null
+                ? '—'
+                : `${formatShare(band.upper - band.lower)} · ${formatTooltipValue(band.value)}`
+            }
+          })}
+        />
+      )}
+
+      <rect
+        x={left}
+        y={top}
+        width={right - left}
+        height={bottom - top}
+        fill="transparent"
+        onMouseMove={handleMouseMove}
+        onMouseLeave={() => setHoverYear(null)}
+      />
+    </svg>
+  )
+}
+
+export default StackedAreaChart
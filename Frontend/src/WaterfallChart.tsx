@@ -0,0 +1,129 @@
+import { useState } from 'react'
+import { formatNumber } from './format'
+import { bandScale, linearScale, linearTicks, nearestTo, plotArea, pointerX, zeroBasedDomain } from './chartScale'
+import { ChartAxes, ChartTooltip } from './ChartFrame'
+
+// One company's reported SALES, EBITDA and PAT for one period
+export type WaterfallValues = { sales: number; ebitda: number; pat: number }
+
+type WaterfallChartProps = {
+  values: WaterfallValues
+  title: string
+  svgRef?: React.Ref<SVGSVGElement>
+  formatValue?: (value: number) => string
+  formatTooltipValue?: (value: number) => string
+}
+
+type Step = { key: string; label: string; from: number; to: number; total: boolean }
+
+// Totals stand on the axis; the steps between them float from the previous
+// total to the next, so the gaps read as what was deducted on the way
+function toSteps({ sales, ebitda, pat }: WaterfallValues): Step[] {
+  return [
+    { key: 'sales', label: 'Sales', from: 0, to: sales, total: true },
+    { key: 'opex', label: 'Operating costs', from: sales, to: ebitda, total: false },
+    { key: 'ebitda', label: 'EBITDA', from: 0, to: ebitda, total: true },
+    { key: 'below', label: 'D&A, interest, tax', from: ebitda, to: pat, total: false },
+    { key: 'pat', label: 'PAT', from: 0, to: pat, total: true }
+  ]
+}
+
+const stepClass = (step: Step) =>
+  step.total ? 'waterfall-total' : step.to < step.from ? 'waterfall-decrease' : 'waterfall-increase'
+
+// SALES broken down to EBITDA and PAT for one company and period
+function WaterfallChart({
+  values,
+  title,
+  svgRef,
+  formatValue = formatNumber,
+  formatTooltipValue = formatNumber
+}: WaterfallChartProps) {
+  const area = plotArea()
+  const { width, height, left, right, top, bottom } = area
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null)
+
+  const steps = toSteps(values)
+  const domain = zeroBasedDomain(steps.flatMap((s) => [s.from, s.to]))
+  const yScale = linearScale(domain, [bottom, top])
+  const band = bandScale(steps.length, [left, right], 0.6)
+  const indexes = steps.map((_, i) => i)
+
+  const handleMouseMove = (e: React.MouseEvent<SVGRectElement>) => {
+    const x = pointerX(e, width)
+    if (x !== null) setHoverIndex(nearestTo(indexes, x, band.center))
+  }
+  const hovered = hoverIndex === null ? null : steps[hoverIndex]
+  const ofSales = (amount: number) => (values.sales === 0 ? '' : ` (${((amount / values.sales) * 100).toFixed(1)}% of sales)`)
+
+  return (
+    <svg ref={svgRef} className="chart" viewBox={`0 0 ${width} ${height}`}>
+      <ChartAxes
+        area={area}
+        title={title}
+        xTicks={steps.map((s, i) => ({ x: band.center(i), label: s.label }))}
+        yTicks={linearTicks(domain[0], domain[1])}
+        yScale={yScale}
+        formatValue={formatValue}
+      />
+      {domain[0] < 0 && <line x1={left} y1={yScale(0)} x2={right} y2={yScale(0)} className="axis" />}
+
+      {steps.map((step, i) => (
+        <g key={step.key}>
+          <rect
+            x={band.start(i)}
+            y={Math.min(yScale(step.from), yScale(step.to))}
+            width={band.bandwidth}
+            height={Math.max(Math.abs(yScale(step.to) - yScale(step.from)), 1)}
+            className={`waterfall-bar ${stepClass(step)}`}
+          />
+          <text
+            x={band.center(i)}
+            y={Math.min(yScale(step.from), yScale(step.to)) - 6}
+            textAnchor="middle"
+            className="waterfall-value"
+          >
+            {formatValue(step.total ? step.to : step.to - step.from)}
+          </text>
+          {/* connector from this bar's end to where the next one starts */}
+          {i < steps.length - 1 && (
+            <line
+              x1={band.start(i) + band.bandwidth}
+              y1={yScale(step.to)}
+              x2={band.start(i + 1)}
+              y2={yScale(step.to)}
+              className="waterfall-connector"
+            />
+          )}
+        </g>
+      ))}
+
+      {hovered && hoverIndex !== null && (
+        <ChartTooltip
+          area={area}
+          x={band.center(hoverIndex)}
+          title={hovered.label}
+          crosshair={false}
+          rows={[{
+            key: hovered.key,
+            color: hovered.total ? '#3b82f6' : hovered.to < hovered.from ? '#ef4444' : '#10b981',
+            label: hovered.total ? 'Amount' : 'Change',
+            value: `${formatTooltipValue(hovered.to - hovered.from)}${ofSales(hovered.to - hovered.from)}`
+          }]}
+        />
+      )}
+
+      <rect
+        x={left}
+        y={top}
+        width={right - left}
+        height={bottom - top}
+        fill="transparent"
+        onMouseMove={handleMouseMove}
+        onMouseLeave={() => setHoverIndex(null)}
+      />
+    </svg>
+  )
+}
+
+export default WaterfallChart
@@ -0,0 +1,161 @@
+import { useRef, useState } from 'react'
+import type { ChartSeries } from './LineChart'
+import { CHART_MARGIN, CHART_WIDTH, linearScale } from './chartScale'
+
+type Range = [number, number]
+type DragMode = 'select' | 'move' | 'start' | 'end'
+
+type YearBrushProps = {
+  series: ChartSeries[]
+  range: Range | null
+  onChange: (range: Range | null) => void
+  formatPeriod?: (year: number) => string
+}
+
+const HEIGHT = 64
+const PAD_Y = 8
+// How close (in viewBox units) the pointer must be to a handle to grab it
+const HANDLE_HIT = 8
+
+// Overview strip under the chart: drag to pick a year range, drag the
+// selection to pan it, drag its edges to resize, click outside it to reset.
+function YearBrush({ series, range, onChange, formatPeriod = String }: YearBrushProps) {
+  const margin = CHART_MARGIN
+  const width = CHART_WIDTH
+  const plotWidth = width - margin.left - margin.right
+
+  const [draft, setDraft] = useState<Range | null>(null)
+  const dragRef = useRef<{ mode: DragMode; anchor: number; origin: Range | null; moved: boolean } | null>(null)
+
+  const years = Array.from(new Set(series.flatMap((s) => s.points.map((p) => p.year)))).sort((a, b) => a - b)
+  const values = series.flatMap((s) => s.points.flatMap((p) => (p.value === null ? [] : [p.value])))
+  if (years.length < 2 || values.length === 0) return null
+
+  const minYear = years[0]
+  const maxYear = years[years.length - 1]
+  const minVal = Math.min(...values)
+  const maxVal = Math.max(...values)
+
+  const xScale = linearScale([minYear, maxYear], [margin.left, margin.left + plotWidth])
+  const yScale = linearScale([minVal, maxVal], [HEIGHT - PAD_Y, PAD_Y])
+  // Snaps to the nearest data position, so quarterly data zooms by quarter
+  const yearAt = (x: number) => {
+    const raw = minYear + ((x - margin.left) / plotWidth) * (maxYear - minYear)
+    return years.reduce((nearest, y) => (Math.abs(y - raw) < Math.abs(nearest - raw) ? y : nearest), minYear)
+  }
+  const toViewBoxX = (e: React.PointerEvent<SVGRectElement>) => {
+    const rect = e.currentTarget.ownerSVGElement!.getBoundingClientRect()
+    return ((e.clientX - rect.left) / rect.width) * width
+  }
+
+  const shown = draft ?? range
+  const normalize = ([a, b]: Range): Range => (a <= b ? [a, b] : [b, a])
+
+  const handlePointerDown = (e: React.PointerEvent<SVGRectElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId)
+    const x = toViewBoxX(e)
+    const year = yearAt(x)
+    let mode: DragMode = 'select'
+    if (range) {
+      if (Math.abs(x - xScale(range[0])) <= HANDLE_HIT) mode = 'start'
+      else if (Math.abs(x - xScale(range[1])) <= HANDLE_HIT) mode = 'end'
+      else if (year > range[0] && year < range[1]) mode = 'move'
+    }
+    dragRef.current = { mode, anchor: year, origin: range, moved: false }
+    if (mode === 'select') setDraft([year, year])
+  }
+
+  const handlePointerMove = (e: React.PointerEvent<SVGRectElement>) => {
+    const drag = dragRef.current
+    if (!drag) return
+    const year = yearAt(toViewBoxX(e))
+    if (year !== drag.anchor) drag.moved = true
+
+    if (drag.mode === 'select') {
+      setDraft([drag.anchor, year])
+    } else if (drag.origin && drag.mode === 'move') {
+      const span = drag.origin[1] - drag.origin[0]
+      const start = Math.min(maxYear - span, Math.max(minYear, drag.origin[0] + year - drag.anchor))
+      setDraft([start, start + span])
+    } else if (drag.origin && drag.mode === 'start') {
+      setDraft([year, drag.origin[1]])
+    } else if (drag.origin && drag.mode === 'end') {
+      setDraft([drag.origin[0], year])
+    }
+  }
+
+  const handlePointerUp = () => {
+    const drag = dragRef.current
+    dragRef.current = null
+    const next = draft ? normalize(draft) : null
+    setDraft(null)
+    if (!drag) return
+
+    // A plain click outside the selection resets the zoom
+    if (!drag.moved) {
+      if (drag.mode === 'select') onChange(null)
+      return
+    }
+    if (!next || next[0] === next[1] || (next[0] === minYear && next[1] === maxYear)) {
+      onChange(null)
+      return
+    }
+    onChange(next)
+  }
+
+  const pathFor = (s: ChartSeries) => {
+    let d = ''
+    let penDown = false
+    for (const p of s.points) {
+      if (p.value === null) {
+        penDown = false
+        continue
+      }
+      d += `${penDown ? 'L' : 'M'} ${xScale(p.year)} ${yScale(p.value)} `
+      penDown = true
+    }
+    return d
+  }
+
+  const [selStart, selEnd] = shown ? normalize(shown) : [minYear, maxYear]
+
+  return (
+    <svg className="chart brush" viewBox={`0 0 ${width} ${HEIGHT + 16}`} aria-label="Year range selector">
+      <rect x={margin.left} y={0} width={plotWidth} height={HEIGHT} className="brush-background" />
+      {series.map((s) => (
+        <path key={s.key} d={pathFor(s)} className="brush-line" style={{ stroke: s.color }} />
+      ))}
+
+      {shown && (
+        <>
+          <rect x={margin.left} y={0} width={xScale(selStart) - margin.left} height={HEIGHT} className="brush-mask" />
+          <rect x={xScale(selEnd)} y={0} width={width - margin.right - xScale(selEnd)} height={HEIGHT} className="brush-mask" />
+          <rect x={xScale(selStart)} y={0} width={xScale(selEnd) - xScale(selStart)} height={HEIGHT} className="brush-selection" />
+          <rect x={xScale(selStart) - 3} y={HEIGHT / 2 - 10} width={6} height={20} rx={2} className="brush-handle" />
+          <rect x={xScale(selEnd) - 3} y={HEIGHT / 2 - 10} width={6} height={20} rx={2} className="brush-handle" />
+        </>
+      )}
+
+      <text x={margin.left} y={HEIGHT + 13} className="tick-label">{formatPeriod(selStart)}</text>
+      <text x={width - margin.right} y={HEIGHT + 13} textAnchor="end" className="tick-label">{formatPeriod(selEnd)}</text>
+      {!shown && (
+        <text x={width / 2} y={HEIGHT + 13} textAnchor="middle" className="tick-label">Drag to zoom into a year range</text>
+      )}
+
+      <rect
+        x={margin.left - HANDLE_HIT}
+        y={0}
+        width={plotWidth + 2 * HANDLE_HIT}
+        height={HEIGHT}
+        fill="transparent"
+        className="brush-overlay"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      />
+    </svg>
+  )
+}
+
+export default YearBrush
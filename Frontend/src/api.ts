@@ -0,0 +1,43 @@
+// Shared client instance for the backend API. The client and its types are
+// generated from the backend's OpenAPI document (see generated/apiClient.ts).
+import { API_CONFIG } from './config';
+import { createApiClient, type ForecastResponse, type GetSectorAggregateParams, type Unit } from './generated/apiClient';
+import { clearQueryCache, noteDatasetTag } from './queryCache';
+
+// Uploads and admin edits change the dataset, so cached queries are dropped
+// once one succeeds rather than when the next ETag shows the change
+const changesDataset = (path: string) => path === '/upload' || path.startsWith('/admin/');
+
+export const api = createApiClient({
+  baseUrl: API_CONFIG.BASE_URL,
+  onResponse: (response, { method, path }) => {
+    if (method !== 'GET' && changesDataset(path)) clearQueryCache();
+    else noteDatasetTag(response.headers.get('ETag'));
+  }
+});
+
+export {
+  ApiError,
+  type Alert,
+  type AlertRule,
+  type Annotation,
+  type Company as CompanyInfo,
+  type Dashboard,
+  type DashboardPanel,
+  type Derivation,
+  type ForecastPoint,
+  type MetricInfo,
+  type QualityIssue,
+  type Ranking,
+  type SectorAggregateResponse,
+  type RankingsResponse,
+  type Series,
+  type SearchResult,
+  type StatementGroup,
+  type Unit,
+  type Watchlist
+} from './generated/apiClient';
+
+export type Currency = NonNullable<Unit['currency']>;
+export type ForecastMethod = ForecastResponse['method'];
+export type SectorStat = NonNullable<GetSectorAggregateParams['stat']>;
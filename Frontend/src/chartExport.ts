@@ -0,0 +1,133 @@
+// Client-side chart export: serializes the rendered chart SVG into a
+// standalone file (styles, background and legend inlined) or a PNG.
+
+export type LegendEntry = { label: string; color: string }
+
+const SVG_NS = 'http://www.w3.org/2000/svg'
+const LEGEND_ROW_HEIGHT = 22
+const PNG_SCALE = 2
+
+// Mirrors the chart rules in App.css; CSS classes don't apply once the SVG
+// leaves the page.
+const CHART_STYLES = `
+  text { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; }
+  .chart-title { font-size: 14px; fill: #475569; font-weight: 500; }
+  .axis { stroke: #cbd5e1; stroke-width: 1; }
+  .tick { stroke: #cbd5e1; }
+  .tick-label { font-size: 11px; fill: #64748b; }
+  .grid { stroke: #f1f5f9; stroke-dasharray: 3 3; shape-rendering: crispEdges; }
+  .line { fill: none; stroke: #3b82f6; stroke-width: 2.5; stroke-linecap: round; stroke-linejoin: round; }
+  .dot { fill: #3b82f6; stroke: white; stroke-width: 1.5; }
+  .legend-label { font-size: 12px; fill: #334155; }
+  .flag-marker { stroke: white; stroke-width: 1; }
+  .flag-warning { fill: #f59e0b; }
+  .flag-info { fill: #94a3b8; }
+  .projection-line { fill: none; stroke-width: 2; stroke-dasharray: 6 4; stroke-linecap: round; }
+  .projection-band { fill-opacity: 0.12; stroke: none; }
+  .projection-dot { fill: white; stroke-width: 1.5; }
+  .projection-divider { stroke: #cbd5e1; stroke-dasharray: 2 4; }
+  .benchmark-line { stroke-width: 2; stroke-dasharray: 1 5; }
+  .annotation-line { stroke: #a78bfa; stroke-dasharray: 4 3; }
+  .annotation-dot { fill: #7c3aed; stroke: white; stroke-width: 1.5; }
+  .annotation-label { font-size: 10px; font-weight: 600; fill: white; }
+  .bar { stroke: none; }
+  .bar-hover { fill: #f1f5f9; }
+  .area { fill-opacity: 0.75; stroke: white; stroke-width: 0.5; }
+  .area-column { stroke-width: 24; }
+  .waterfall-total { fill: #3b82f6; }
+  .waterfall-decrease { fill: #ef4444; }
+  .waterfall-increase { fill: #10b981; }
+  .waterfall-value { font-size: 11px; fill: #334155; }
+  .waterfall-connector { stroke: #94a3b8; stroke-dasharray: 3 3; }
+`
+
+export function serializeChart(svg: SVGSVGElement, legend: LegendEntry[]): { markup: string; width: number; height: number } {
+  const clone = svg.cloneNode(true) as SVGSVGElement
+  const { width, height: chartHeight } = svg.viewBox.baseVal
+  const height = chartHeight + legend.length * LEGEND_ROW_HEIGHT + (legend.length ? 10 : 0)
+
+  clone.setAttribute('xmlns', SVG_NS)
+  clone.setAttribute('viewBox', `0 0 ${width} ${height}`)
+  clone.setAttribute('width', String(width))
+  clone.setAttribute('height', String(height))
+  clone.removeAttribute('class')
+
+  const style = document.createElementNS(SVG_NS, 'style')
+  style.textContent = CHART_STYLES
+  clone.insertBefore(style, clone.firstChild)
+
+  const background = document.createElementNS(SVG_NS, 'rect')
+  background.setAttribute('width', '100%')
+  background.setAttribute('height', '100%')
+  background.setAttribute('fill', 'white')
+  clone.insertBefore(background, style.nextSibling)
+
+  legend.forEach((entry, i) => {
+    const y = chartHeight + i * LEGEND_ROW_HEIGHT
+    const group = document.createElementNS(SVG_NS, 'g')
+    const swatch = document.createElementNS(SVG_NS, 'rect')
+    swatch.setAttribute('x', '70')
+    swatch.setAttribute('y', String(y))
+    swatch.setAttribute('width', '12')
+    swatch.setAttribute('height', '12')
+    swatch.setAttribute('rx', '2')
+    swatch.setAttribute('fill', entry.color)
+    const label = document.createElementNS(SVG_NS, 'text')
+    label.setAttribute('x', '90')
+    label.setAttribute('y', String(y + 10))
+    label.setAttribute('class', 'legend-label')
+    label.textContent = entry.label
+    group.append(swatch, label)
+    clone.appendChild(group)
+  })
+
+  const markup = '<?xml version="1.0" encoding="UTF-8"?>\n' + new XMLSerializer().serializeToString(clone)
+  return { markup, width, height }
+}
+
+export function chartToSvgBlob(svg: SVGSVGElement, legend: LegendEntry[]): Blob {
+  return new Blob([serializeChart(svg, legend).markup], { type: 'image/svg+xml;charset=utf-8' })
+}
+
+export function chartToPngBlob(svg: SVGSVGElement, legend: LegendEntry[]): Promise<Blob> {
+  const { markup, width, height } = serializeChart(svg, legend)
+  const url = URL.createObjectURL(new Blob([markup], { type: 'image/svg+xml;charset=utf-8' }))
+
+  return new Promise<Blob>((resolve, reject) => {
+    const image = new Image()
+    image.onload = () => {
+      const canvas = document.createElement('canvas')
+      canvas.width = width * PNG_SCALE
+      canvas.height = height * PNG_SCALE
+      const context = canvas.getContext('2d')
+      if (!context) {
+        URL.revokeObjectURL(url)
+        reject(new Error('Canvas is not supported in this browser'))
+        return
+      }
+      context.scale(PNG_SCALE, PNG_SCALE)
+      context.drawImage(image, 0, 0, width, height)
+      URL.revokeObjectURL(url)
+      canvas.toBlob(
+        (blob) => (blob ? resolve(blob) : reject(new Error('Failed to render PNG'))),
+        'image/png'
+      )
+    }
+    image.onerror = () => {
+      URL.revokeObjectURL(url)
+      reject(new Error('Failed to render chart image'))
+    }
+    image.src = url
+  })
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest'
+import { bandScale, linearScale, linearTicks, logScale, logTicks, yearTicks, zeroBasedDomain } from './chartScale'
+
+describe('linearScale', () => {
+  it('maps the domain onto the range, inverted ranges included', () => {
+    const scale = linearScale([0, 100], [380, 30])
+    expect(scale(0)).toBe(380)
+    expect(scale(100)).toBe(30)
+    expect(scale(50)).toBe(205)
+  })
+
+  it('maps a zero-width domain to the start of the range', () => {
+    const scale = linearScale([2024, 2024], [70, 770])
+    expect(scale(2024)).toBe(70)
+    expect(Number.isFinite(scale(2025))).toBe(true)
+  })
+})
+
+describe('logScale', () => {
+  it('spaces decades evenly', () => {
+    const scale = logScale([1, 1000], [0, 300])
+    expect(scale(1)).toBeCloseTo(0)
+    expect(scale(10)).toBeCloseTo(100)
+    expect(scale(100)).toBeCloseTo(200)
+  })
+
+  it('maps a single-point domain to the start of the range', () => {
+    const scale = logScale([50, 50], [380, 30])
+    expect(scale(50)).toBe(380)
+  })
+})
+
+describe('zeroBasedDomain', () => {
+  it('always includes zero', () => {
+    expect(zeroBasedDomain([5, 12])).toEqual([0, 12])
+    expect(zeroBasedDomain([-4, 12])).toEqual([-4, 12])
+    expect(zeroBasedDomain([-4, -1])).toEqual([-4, 0])
+  })
+
+  it('is [0, 0] without values, which linearScale still handles', () => {
+    const domain = zeroBasedDomain([])
+    expect(domain).toEqual([0, 0])
+    expect(linearScale(domain, [380, 30])(0)).toBe(380)
+  })
+})
+
+describe('bandScale', () => {
+  it('splits the range into equal slots with centred bars', () => {
+    const band = bandScale(4, [0, 400], 0.5)
+    expect(band.step).toBe(100)
+    expect(band.bandwidth).toBe(50)
+    expect(band.start(1)).toBe(125)
+    expect(band.center(1)).toBe(150)
+  })
+
+  it('treats a count of 0 as one slot instead of dividing by zero', () => {
+    const band = bandScale(0, [0, 400])
+    expect(band.step).toBe(400)
+    expect(Number.isFinite(band.center(0))).toBe(true)
+  })
+})
+
+describe('linearTicks', () => {
+  it('divides the interval evenly, both ends included', () => {
+    expect(linearTicks(0, 100, 4)).toEqual([0, 25, 50, 75, 100])
+  })
+})
+
+describe('logTicks', () => {
+  it('places one tick per decade over a wide range', () => {
+    expect(logTicks(1, 100000)).toEqual([1, 10, 100, 1000, 10000, 100000])
+  })
+
+  it('fills in 2x and 5x over two decades or fewer', () => {
+    expect(logTicks(1, 100)).toEqual([1, 2, 5, 10, 20, 50, 100])
+  })
+
+  it('falls back to the ends when no round value fits', () => {
+    expect(logTicks(31, 39)).toEqual([31, 39])
+  })
+})
+
+describe('yearTicks', () => {
+  const range = (from: number, to: number) => Array.from({ length: to - from + 1 }, (_, i) => from + i)
+
+  it('labels every year when they fit', () => {
+    expect(yearTicks(range(2020, 2024), 700)).toEqual(range(2020, 2024))
+  })
+
+  it('thins years to multiples of a round step', () => {
+    const ticks = yearTicks(range(1990, 2024), 300)
+    expect(ticks).toEqual([1990, 2000, 2010, 2020])
+  })
+
+  it('is empty without years', () => {
+    expect(yearTicks([], 700)).toEqual([])
+  })
+
+  it('labels every quarter when they fit', () => {
+    const quarters = [2024, 2024.25, 2024.5, 2024.75]
+    expect(yearTicks(quarters, 700)).toEqual(quarters)
+  })
+
+  it('labels the first reported quarter of each year when quarters are thinned', () => {
+    // Q2-Q4 only, so no position is a whole year
+    const quarters = range(2015, 2024).flatMap((y) => [y + 0.25, y + 0.5, y + 0.75])
+    const ticks = yearTicks(quarters, 700)
+    expect(ticks.length).toBeGreaterThan(0)
+    expect(ticks).toEqual(range(2015, 2024).map((y) => y + 0.25))
+  })
+})
@@ -0,0 +1,135 @@
+// Layout, scale and tick helpers shared by the charts and the year brush.
+// Everything is in viewBox units; the svg scales to its container.
+
+export type ScaleType = 'linear' | 'log'
+
+export type ChartType = 'line' | 'bar' | 'stacked' | 'waterfall'
+
+export const CHART_WIDTH = 800
+export const CHART_HEIGHT = 420
+export const CHART_MARGIN = { top: 30, right: 30, bottom: 40, left: 70 }
+
+export type PlotArea = {
+  width: number
+  height: number
+  left: number
+  right: number
+  top: number
+  bottom: number
+}
+
+// The rectangle inside the margins where data is drawn
+export function plotArea(width = CHART_WIDTH, height = CHART_HEIGHT, margin = CHART_MARGIN): PlotArea {
+  return {
+    width,
+    height,
+    left: margin.left,
+    right: width - margin.right,
+    top: margin.top,
+    bottom: height - margin.bottom
+  }
+}
+
+type Interval = [number, number]
+
+// Maps the domain interval onto the range interval. A domain of zero width
+// (a single year, or equal values) maps to the start of the range instead of
+// dividing by zero.
+export function linearScale([d0, d1]: Interval, [r0, r1]: Interval) {
+  const span = d1 - d0 || 1
+  return (v: number) => r0 + ((v - d0) / span) * (r1 - r0)
+}
+
+// As linearScale on log10 of the values; the domain must be positive
+export function logScale([d0, d1]: Interval, [r0, r1]: Interval) {
+  const lo = Math.log10(d0)
+  const span = Math.log10(d1) - lo || 1
+  return (v: number) => r0 + ((Math.log10(v) - lo) / span) * (r1 - r0)
+}
+
+export function valueScale(type: ScaleType, domain: Interval, range: Interval) {
+  return type === 'log' ? logScale(domain, range) : linearScale(domain, range)
+}
+
+export function valueTicks(type: ScaleType, [min, max]: Interval) {
+  return type === 'log' ? logTicks(min, max) : linearTicks(min, max)
+}
+
+// Bars and areas grow from zero, so their domain always includes it
+export function zeroBasedDomain(values: number[]): Interval {
+  return [Math.min(0, ...values), Math.max(0, ...values)]
+}
+
+// `count` equal slots across the range (one per year on a bar chart); bars
+// take `fill` of their slot's width, centred in it
+export function bandScale(count: number, [r0, r1]: Interval, fill = 0.7) {
+  const step = (r1 - r0) / Math.max(count, 1)
+  return {
+    step,
+    bandwidth: step * fill,
+    start: (i: number) => r0 + i * step + (step * (1 - fill)) / 2,
+    center: (i: number) => r0 + (i + 0.5) * step
+  }
+}
+
+// The x position in viewBox units of a pointer event on an element of the chart
+export function pointerX(e: { clientX: number; currentTarget: Element }, width = CHART_WIDTH) {
+  const svg = e.currentTarget instanceof SVGSVGElement ? e.currentTarget : (e.currentTarget as SVGElement).ownerSVGElement
+  const rect = svg?.getBoundingClientRect()
+  if (!rect || rect.width === 0) return null
+  return ((e.clientX - rect.left) / rect.width) * width
+}
+
+// The candidate drawn closest to x
+export function nearestTo<T>(candidates: T[], x: number, toX: (candidate: T) => number) {
+  let nearest: T | null = null
+  for (const c of candidates) {
+    if (nearest === null || Math.abs(toX(c) - x) < Math.abs(toX(nearest) - x)) nearest = c
+  }
+  return nearest
+}
+
+// Smallest horizontal gap between two year labels, in viewBox units
+const MIN_YEAR_LABEL_SPACING = 44
+// Quarter labels ('Q1 FY24') are wider
+const MIN_QUARTER_LABEL_SPACING = 60
+const YEAR_STEPS = [1, 2, 5, 10, 20, 25, 50]
+
+// Thins year labels to a round step (1, 2, 5, 10...) so they never overlap.
+// Labels are aligned to multiples of the step, e.g. 2000, 2005, 2010.
+// Quarterly positions (2024.25 for Q2) are all labelled when they fit and
+// otherwise only at the first reported quarter of the labelled years, which
+// needn't be Q1.
+export function yearTicks(years: number[], plotWidth: number) {
+  if (years.length === 0) return []
+  const span = Math.floor(years[years.length - 1]) - Math.floor(years[0]) + 1
+  const quarterly = years.some((y) => !Number.isInteger(y))
+  const maxLabels = Math.max(2, Math.floor(plotWidth / (quarterly ? MIN_QUARTER_LABEL_SPACING : MIN_YEAR_LABEL_SPACING)))
+  if (quarterly && years.length <= maxLabels) return years
+  const firstOfYear = quarterly
+    ? years.filter((y, i) => i === 0 || Math.floor(years[i - 1]) !== Math.floor(y))
+    : years
+  const step = YEAR_STEPS.find((s) => Math.ceil(span / s) <= maxLabels) ?? Math.ceil(span / maxLabels)
+  if (step === 1) return firstOfYear
+  return firstOfYear.filter((y) => Math.floor(y) % step === 0)
+}
+
+export function linearTicks(min: number, max: number, count = 5) {
+  return Array.from({ length: count + 1 }, (_, i) => min + (i * (max - min)) / count)
+}
+
+// Powers of ten inside [min, max], filled in with 2x and 5x when the range
+// covers too few decades to read
+export function logTicks(min: number, max: number) {
+  const lo = Math.floor(Math.log10(min))
+  const hi = Math.ceil(Math.log10(max))
+  const multipliers = hi - lo <= 2 ? [1, 2, 5] : [1]
+  const ticks: number[] = []
+  for (let exp = lo; exp <= hi; exp++) {
+    for (const m of multipliers) {
+      const v = m * 10 ** exp
+      if (v >= min && v <= max) ticks.push(v)
+    }
+  }
+  return ticks.length >= 2 ? ticks : [min, max]
+}
@@ -0,0 +1,44 @@
+// Fiscal periods on the chart's x axis. Fiscal years run April-March and are
+// named after the year they end in (2024 is FY24). Quarterly points are
+// placed a quarter apart: Q1 FY24 sits at 2024, Q2 FY24 at 2024.25.
+
+export type PeriodType = 'annual' | 'quarterly' | 'ttm'
+
+export const PERIOD_OPTIONS: { type: PeriodType; label: string }[] = [
+  { type: 'annual', label: 'Annual' },
+  { type: 'quarterly', label: 'Quarterly' },
+  { type: 'ttm', label: 'TTM' }
+]
+
+export function periodPosition({ year, quarter }: { year: number; quarter?: number | null }) {
+  return quarter ? year + (quarter - 1) / 4 : year
+}
+
+export function positionToPeriod(position: number) {
+  const year = Math.floor(position)
+  const quarter = Math.round((position - year) * 4) + 1
+  return { year, quarter }
+}
+
+export function fiscalYearLabel(year: number) {
+  return `FY${String(year % 100).padStart(2, '0')}`
+}
+
+// FY24 for annual data, Q1 FY24 for quarterly and TTM positions
+export function formatPosition(position: number, period: PeriodType) {
+  if (period === 'annual') return fiscalYearLabel(Math.round(position))
+  const { year, quarter } = positionToPeriod(position)
+  return `Q${quarter} ${fiscalYearLabel(year)}`
+}
+
+// URL form of a position: 2024 for a whole year, 2024Q2 for a later quarter
+export function positionKey(position: number) {
+  const { year, quarter } = positionToPeriod(position)
+  return quarter === 1 ? String(year) : `${year}Q${quarter}`
+}
+
+export function parsePositionKey(value: string) {
+  const match = /^(\d{4})(?:Q([1-4]))?$/i.exec(value)
+  if (!match) return null
+  return periodPosition({ year: Number(match[1]), quarter: match[2] ? Number(match[2]) : null })
+}
@@ -0,0 +1,38 @@
+// Indian formatting groups digits as 12,34,56,789 and abbreviates with lakh
+// (1,00,000) and crore (1,00,00,000); international uses K/M/B
+export type NumberSystem = 'indian' | 'international'
+
+export function formatNumber(n: number) {
+  if (Math.abs(n) >= 1_000_000_000) return (n / 1_000_000_000).toFixed(1) + 'B'
+  if (Math.abs(n) >= 1_000_000) return (n / 1_000_000).toFixed(1) + 'M'
+  if (Math.abs(n) >= 1_000) return (n / 1_000).toFixed(1) + 'K'
+  return n.toFixed(0)
+}
+
+const groupIndian = (n: number, decimals: number) =>
+  n.toLocaleString('en-IN', { minimumFractionDigits: decimals, maximumFractionDigits: decimals })
+
+export function formatIndian(n: number) {
+  const abs = Math.abs(n)
+  // Large crore figures read better whole: 2,55,324 Cr
+  if (abs >= 1e7) return `${groupIndian(n / 1e7, abs >= 1e10 ? 0 : 1)} Cr`
+  if (abs >= 1e5) return `${groupIndian(n / 1e5, 1)} L`
+  return groupIndian(n, 0)
+}
+
+export function formatPercent(n: number) {
+  return `${n.toFixed(1)}%`
+}
+
+// Full value with the system's digit grouping, for tooltips
+export function formatExact(n: number, system: NumberSystem = 'international') {
+  return n.toLocaleString(system === 'indian' ? 'en-IN' : undefined, { maximumFractionDigits: 2 })
+}
+
+// Picks the formatter for a metric's unit ('%' for derived ratios/growth)
+export function formatterForUnit(unit: string | null | undefined, system: NumberSystem = 'international') {
+  if (unit === '%') return formatPercent
+  return system === 'indian' ? formatIndian : formatNumber
+}
+
+export const CURRENCY_SYMBOLS: Record<string, string> = { INR: '₹', USD: '$' }
@@ -0,0 +1,1091 @@
+// Generated by Backend/scripts/generateClient.js from the OpenAPI document
+// (Tilak Karveran Financial Data API 1.0.0). DO NOT EDIT: change
+// Backend/openapi.js and run `npm run generate:client` in Backend/.
+
+export const API_BASE_PATH = '/api/v1'
+const DEFAULT_TIMEOUT = 10000
+
+export type Company = {
+  name: string
+  ticker: string
+  /** Empty when unknown */
+  isin: string
+  /** Sector key from /sectors; null when unclassified */
+  sector?: string | null
+  /** Industry key from /sectors; null when unclassified */
+  industry?: string | null
+}
+
+export type MetricInfo = {
+  key: string
+  /** Display name */
+  name: string
+  derived: boolean
+  /** '%' for derived metrics, otherwise the stored unit (INR million) */
+  unit: string | null
+  /** Financial statement the metric comes from; derived metrics take their first input's */
+  statement: 'pnl' | 'balance_sheet' | 'cash_flow' | 'other'
+  /** Reported metrics only. flow: quarters add up to the year; stock: a period-end balance */
+  aggregation?: 'flow' | 'stock'
+  /** Whether rankings put the highest value first by default */
+  higherIsBetter: boolean
+  description?: string
+  formula?: string
+  inputs?: string[]
+}
+
+export type StatementGroup = {
+  key: 'pnl' | 'balance_sheet' | 'cash_flow' | 'other'
+  name: string
+  /** Metric keys, reported before derived */
+  metrics: string[]
+}
+
+/** Units of the returned values */
+export type Unit = {
+  /** null for percentages */
+  currency: 'INR' | 'USD' | null
+  /** null for percentages */
+  scale: 'units' | 'thousand' | 'lakh' | 'million' | 'crore' | 'billion' | null
+  /** e.g. 'INR crore', 'USD' or '%' */
+  label: string
+}
+
+/** How the returned values were computed */
+export type Derivation = {
+  derived: boolean
+  unit: string | null
+  name?: string
+  type?: 'ratio' | 'yoy' | 'cagr'
+  formula?: string
+  inputs?: string[]
+  window?: number
+}
+
+export type DataPoint = {
+  /** Fiscal year (April-March), named after the year it ends in */
+  year: number
+  /** Fiscal quarter; quarterly and TTM series only */
+  quarter?: number
+  /** null when a derived input is missing */
+  value: number | null
+  /** Set when an annual value was filled in from quarters (summed, or Q4 for balance-sheet items) */
+  source?: 'quarters'
+}
+
+export type Series = {
+  company: Company
+  unit: Unit
+  points: DataPoint[]
+  count: number
+}
+
+export type CompaniesResponse = {
+  success: boolean
+  count: number
+  companies: Company[]
+}
+
+export type MetricsResponse = {
+  success: boolean
+  count: number
+  metrics: MetricInfo[]
+  /** Statements that have metrics, in P&L, balance sheet, cash flow order */
+  statements: StatementGroup[]
+}
+
+export type DataResponse = {
+  success: boolean
+  company: Company
+  metric: string
+  period: 'annual' | 'quarterly' | 'ttm'
+  unit: Unit
+  derivation: Derivation
+  points: DataPoint[]
+  count: number
+  found: boolean
+}
+
+export type BatchDataResponse = {
+  success: boolean
+  metric: string
+  period: 'annual' | 'quarterly' | 'ttm'
+  unit: Unit
+  derivation: Derivation
+  series: Series[]
+  /** Union of all series years */
+  years: number[]
+  /** Requested companies without data */
+  missing: string[]
+  count: number
+  found: boolean
+}
+
+export type SearchResult = {
+  name: string
+  ticker: string
+  isin: string
+  score: number
+  matchedOn: 'ticker' | 'isin' | 'name' | 'fuzzy'
+}
+
+export type SearchResponse = {
+  success: boolean
+  query: string
+  count: number
+  results: SearchResult[]
+}
+
+export type QualityIssue = {
+  company: string
+  ticker: string
+  check: 'gap' | 'sign_flip' | 'yoy_jump' | 'pat_above_ebitda' | 'ebitda_above_sales' | 'precision'
+  severity: 'warning' | 'info'
+  /** Lowercase metrics the issue affects */
+  metrics: string[]
+  /** Year of the affected point */
+  year: number
+  value?: number
+  /** Previous year's value, for sign flips and jumps */
+  previous?: number
+  message: string
+}
+
+export type QualityResponse = {
+  success: boolean
+  threshold: number
+  issues: QualityIssue[]
+  count: number
+  /** Issue count per check */
+  summary: {
+    gap: number
+    sign_flip: number
+    yoy_jump: number
+    pat_above_ebitda: number
+    ebitda_above_sales: number
+    precision: number
+  }
+  /** Requested companies that are unknown */
+  missing?: string[]
+}
+
+export type Ranking = {
+  /** Tied values share a rank */
+  rank: number
+  company: Company
+  value: number
+  /** Value in the previous fiscal year */
+  previousValue: number | null
+  /** Rank in the previous fiscal year */
+  previousRank: number | null
+  /** Places gained since the previous year (negative when lost) */
+  rankChange: number | null
+  /** Position within the peer group, 100 = best */
+  percentile: number
+  /** Quartile of the peer group */
+  band: 'top' | 'upper' | 'lower' | 'bottom'
+}
+
+export type RankingsResponse = {
+  success: boolean
+  /** Metric ranked on, e.g. sales_cagr_5y when a window was given */
+  metric: string
+  year: number
+  window: number | null
+  order: 'desc' | 'asc'
+  unit: Unit
+  derivation: Derivation
+  rankings: Ranking[]
+  count: number
+  /** Companies without a value for the year */
+  missing: string[]
+  found: boolean
+}
+
+export type ForecastPoint = {
+  /** Projected fiscal year */
+  year: number
+  value: number
+  /** Lower bound of the confidence band */
+  lower: number
+  /** Upper bound of the confidence band */
+  upper: number
+}
+
+export type ForecastResponse = {
+  success: boolean
+  company: Company
+  metric: string
+  method: 'linear' | 'cagr' | 'holt'
+  horizon: number
+  /** Coverage of the band, e.g. 0.95 */
+  confidence: number
+  /** Last fiscal year the projection starts from */
+  lastReportedYear: number
+  /** Fitted parameters: slope/intercept (linear), growth %/window (cagr), alpha/beta (holt) */
+  params: Record<string, number>
+  unit: Unit
+  forecast: ForecastPoint[]
+  found: boolean
+}
+
+export type PeerGroup = {
+  key: string
+  name?: string
+  /** Tickers classified here */
+  companies: string[]
+}
+
+export type Sector = {
+  key: string
+  name: string
+  /** Tickers in any of its industries */
+  companies: string[]
+  industries: PeerGroup[]
+}
+
+export type SectorsResponse = {
+  success: boolean
+  count: number
+  sectors: Sector[]
+  /** Tickers with no industry */
+  unclassified: string[]
+}
+
+export type AggregatePoint = {
+  year: number
+  quarter?: number
+  /** null for a share when the group total is zero */
+  value: number | null
+  /** Members with a value for the period */
+  count: number
+}
+
+export type SectorAggregateResponse = {
+  success: boolean
+  group: {
+    key: string
+    name: string
+    level: 'sector' | 'industry'
+  }
+  metric: string
+  stat: 'median' | 'mean' | 'sum' | 'share'
+  period: 'annual' | 'quarterly' | 'ttm'
+  unit: Unit
+  company?: Company
+  /** Tickers that have the metric */
+  members: string[]
+  /** Members without data for the metric */
+  missing: string[]
+  points: AggregatePoint[]
+  count: number
+  found: boolean
+}
+
+export type IngestIssue = {
+  sheet?: string
+  /** 1-based spreadsheet row; null for file-level problems */
+  row: number | null
+  column?: string | null
+  message: string
+}
+
+export type IngestReport = {
+  file: string
+  sheets: string[]
+  rowsRead: number
+  rowsAccepted: number
+  rowsRejected: number
+  errors: IngestIssue[]
+}
+
+export type UploadResponse = {
+  success: boolean
+  companies: string[]
+  /** Companies new to the database */
+  created: number
+  /** Values added or changed; unchanged ones are skipped */
+  values: number
+  report: IngestReport
+}
+
+/** Metric key -> period (2024, or 2024Q1 for a quarter) -> value, as in companyData */
+export type Financials = Record<string, Record<string, number>>
+
+export type CreateCompanyRequest = {
+  name: string
+  ticker: string
+  isin?: string
+  /** Industry key from /sectors; sets the sector too */
+  industry?: 'it_services' | 'software_products' | 'banks' | 'nbfc' | 'insurance' | 'fmcg' | 'food_beverages' | 'oil_gas' | 'power' | 'capital_goods' | 'construction' | 'metals_mining' | 'cement' | 'chemicals' | 'pharmaceuticals' | 'hospitals' | 'automobiles' | 'retail' | 'telecom' | 'media' | null
+  financials?: Financials
+}
+
+export type UpdateCompanyRequest = {
+  name?: string
+  isin?: string
+  /** Industry key from /sectors; sets the sector too; null clears it */
+  industry?: 'it_services' | 'software_products' | 'banks' | 'nbfc' | 'insurance' | 'fmcg' | 'food_beverages' | 'oil_gas' | 'power' | 'capital_goods' | 'construction' | 'metals_mining' | 'cement' | 'chemicals' | 'pharmaceuticals' | 'hospitals' | 'automobiles' | 'retail' | 'telecom' | 'media' | null
+}
+
+export type SetValueRequest = {
+  value: number
+}
+
+export type Watchlist = {
+  id: string
+  name: string
+  /** Tickers, in the order they were added */
+  companies: string[]
+  createdAt: string
+  updatedAt: string
+}
+
+export type SaveWatchlistRequest = {
+  name: string
+  companies: string[]
+}
+
+export type UpdateWatchlistRequest = {
+  name?: string
+  companies?: string[]
+}
+
+export type WatchlistResponse = {
+  success: boolean
+  watchlist: Watchlist
+}
+
+export type WatchlistsResponse = {
+  success: boolean
+  user: string
+  watchlists: Watchlist[]
+}
+
+/** One chart of a dashboard; panels fill a two-column grid in order */
+export type DashboardPanel = {
+  companies: string[]
+  metric: string
+  period?: 'annual' | 'quarterly' | 'ttm'
+  /** First period shown (a fiscal year; quarters are fractional) */
+  from?: number | null
+  /** Last period shown */
+  to?: number | null
+  scale?: 'linear' | 'log'
+  /** Grid columns the panel spans */
+  width?: number
+}
+
+export type Dashboard = {
+  id: string
+  name: string
+  panels: DashboardPanel[]
+  createdAt: string
+  updatedAt: string
+}
+
+export type SaveDashboardRequest = {
+  name: string
+  panels: DashboardPanel[]
+}
+
+export type UpdateDashboardRequest = {
+  name?: string
+  panels?: DashboardPanel[]
+}
+
+export type DashboardResponse = {
+  success: boolean
+  dashboard: Dashboard
+}
+
+export type DashboardsResponse = {
+  success: boolean
+  user: string
+  dashboards: Dashboard[]
+}
+
+export type DeleteSavedItemResponse = {
+  success: boolean
+  id: string
+}
+
+export type CompanyResponse = {
+  success: boolean
+  company: Company
+  /** Yearly values stored with a new company */
+  values?: number
+}
+
+export type DeleteCompanyResponse = {
+  success: boolean
+  ticker: string
+}
+
+export type ValueResponse = {
+  success: boolean
+  ticker: string
+  metric: string
+  year: number
+  /** null for an annual value */
+  quarter: number | null
+  /** null after a delete */
+  value: number | null
+  /** null when the value was new */
+  previous: number | null
+}
+
+export type AuditEntry = {
+  id: number
+  at: string
+  /** Admin user that made the change */
+  actor: string
+  action: 'create' | 'update' | 'delete'
+  entity: 'company' | 'value'
+  ticker: string
+  metric: string | null
+  year: number | null
+  quarter: number | null
+  /** Value before the change; a number for values, an object for companies */
+  oldValue: unknown
+  /** Value after the change */
+  newValue: unknown
+}
+
+export type AuditResponse = {
+  success: boolean
+  count: number
+  entries: AuditEntry[]
+}
+
+export type Annotation = {
+  id: number
+  ticker: string
+  /** Fiscal year, named after the year it ends in */
+  year: number
+  /** Fiscal quarter; null for the whole year */
+  quarter: number | null
+  kind: 'merger' | 'split' | 'accounting_change' | 'event' | 'note'
+  title: string
+  /** Empty when there are no details */
+  description: string
+  author: string | null
+  createdAt: string
+  updatedAt: string
+}
+
+export type CreateAnnotationRequest = {
+  ticker: string
+  /** Fiscal year, named after the year it ends in */
+  year: number
+  /** Fiscal quarter (Q1 is April-June); omit or null for the whole year */
+  quarter?: number | null
+  kind: 'merger' | 'split' | 'accounting_change' | 'event' | 'note'
+  title: string
+  description?: string
+  author?: string | null
+}
+
+export type UpdateAnnotationRequest = {
+  ticker?: string
+  /** Fiscal year, named after the year it ends in */
+  year?: number
+  /** Fiscal quarter (Q1 is April-June); omit or null for the whole year */
+  quarter?: number | null
+  kind?: 'merger' | 'split' | 'accounting_change' | 'event' | 'note'
+  title?: string
+  description?: string
+  author?: string | null
+}
+
+export type AnnotationResponse = {
+  success: boolean
+  annotation: Annotation
+}
+
+export type AnnotationsResponse = {
+  success: boolean
+  count: number
+  annotations: Annotation[]
+}
+
+export type DeleteAnnotationResponse = {
+  success: boolean
+  id: number
+}
+
+export type AlertRule = {
+  id: number
+  name: string
+  ticker: string
+  /** Reported or derived metric key, upper-case */
+  metric: string
+  period: 'annual' | 'quarterly' | 'ttm'
+  condition: 'below' | 'above' | 'outside_top'
+  /** Value to compare with, or N for outside_top */
+  threshold: number
+  author: string | null
+  /** Period key (2024, 2024Q2) the rule last alerted for; null while the condition does not hold */
+  triggeredPeriod: string | null
+  createdAt: string
+}
+
+export type CreateAlertRuleRequest = {
+  /** Defaults to a description of the condition */
+  name?: string
+  ticker: string
+  /** Base metric (e.g. EBITDA) or derived metric key (e.g. PAT_MARGIN, SALES_YOY) */
+  metric: string
+  /** outside_top rules rank fiscal years, so they must be annual */
+  period?: 'annual' | 'quarterly' | 'ttm'
+  /** outside_top ranks best first like /rankings: lowest first for metrics where lower is better */
+  condition: 'below' | 'above' | 'outside_top'
+  /** Value to compare the latest one with; for outside_top, how many top places count (1-50) */
+  threshold: number
+  author?: string | null
+}
+
+export type Alert = {
+  id: number
+  /** May no longer exist; the history outlives its rules */
+  ruleId: number
+  ruleName: string
+  ticker: string
+  metric: string
+  /** Fiscal year of the value that triggered the alert */
+  year: number
+  /** Fiscal quarter; null for annual rules */
+  quarter: number | null
+  value: number
+  /** The company's rank; outside_top rules only */
+  rank: number | null
+  message: string
+  triggeredAt: string
+  /** Webhook delivery; disabled when ALERT_WEBHOOK_URL is not set */
+  delivery: 'pending' | 'delivered' | 'failed' | 'disabled'
+  deliveryError: string | null
+}
+
+export type AlertsResponse = {
+  success: boolean
+  count: number
+  alerts: Alert[]
+}
+
+export type AlertRulesResponse = {
+  success: boolean
+  count: number
+  rules: AlertRule[]
+}
+
+export type CreateAlertRuleResponse = {
+  success: boolean
+  rule: AlertRule
+  /** Raised straight away when the condition already holds */
+  alerts: Alert[]
+}
+
+export type DeleteAlertRuleResponse = {
+  success: boolean
+  id: number
+}
+
+export type ValidationIssue = {
+  in: 'query' | 'path' | 'body'
+  name: string
+  message: string
+}
+
+export type ErrorResponse = {
+  success: false
+  /** Machine-readable error code, e.g. NOT_FOUND or VALIDATION_FAILED */
+  code: string
+  message: string
+  /** Same as message; kept for older clients */
+  error: string
+  /** Same as the X-Request-Id response header; quote it when reporting a problem */
+  requestId: string
+  details?: ValidationIssue[]
+  report?: IngestReport
+}
+
+export type GetSeriesParams = {
+  /** Company name */
+  company?: string
+  ticker?: string
+  isin?: string
+  /** Base metric (e.g. SALES) or derived metric key (e.g. PAT_MARGIN, SALES_YOY, SALES_CAGR_5Y); case-insensitive */
+  metric: string
+  /** Fiscal years, fiscal quarters or trailing twelve months at each quarter */
+  period?: 'annual' | 'quarterly' | 'ttm'
+  /** USD values use the yearly average rate for each fiscal year */
+  currency?: 'INR' | 'USD'
+  /** Unit the values are expressed in, e.g. crore (10 million) */
+  scale?: 'units' | 'thousand' | 'lakh' | 'million' | 'crore' | 'billion'
+}
+
+export type GetSeriesBatchParams = {
+  company?: string[]
+  ticker?: string[]
+  isin?: string[]
+  /** Base metric (e.g. SALES) or derived metric key (e.g. PAT_MARGIN, SALES_YOY, SALES_CAGR_5Y); case-insensitive */
+  metric: string
+  /** Fiscal years, fiscal quarters or trailing twelve months at each quarter */
+  period?: 'annual' | 'quarterly' | 'ttm'
+  /** USD values use the yearly average rate for each fiscal year */
+  currency?: 'INR' | 'USD'
+  /** Unit the values are expressed in, e.g. crore (10 million) */
+  scale?: 'units' | 'thousand' | 'lakh' | 'million' | 'crore' | 'billion'
+}
+
+export type ExportSeriesParams = {
+  company?: string[]
+  ticker?: string[]
+  isin?: string[]
+  /** Base metric (e.g. SALES) or derived metric key (e.g. PAT_MARGIN, SALES_YOY, SALES_CAGR_5Y); case-insensitive */
+  metric: string
+  /** Fiscal years, fiscal quarters or trailing twelve months at each quarter */
+  period?: 'annual' | 'quarterly' | 'ttm'
+  /** USD values use the yearly average rate for each fiscal year */
+  currency?: 'INR' | 'USD'
+  /** Unit the values are expressed in, e.g. crore (10 million) */
+  scale?: 'units' | 'thousand' | 'lakh' | 'million' | 'crore' | 'billion'
+  format?: 'csv' | 'xlsx'
+}
+
+export type SearchCompaniesParams = {
+  q: string
+  limit?: number
+}
+
+export type GetQualityReportParams = {
+  company?: string[]
+  ticker?: string[]
+  isin?: string[]
+  /** Only issues affecting this base metric */
+  metric?: string
+  /** Relative YoY change flagged as a jump (0.5 = 50%); defaults to QUALITY_YOY_THRESHOLD */
+  threshold?: number
+}
+
+export type GetRankingsParams = {
+  /** Base metric (e.g. SALES) or derived metric key (e.g. PAT_MARGIN, SALES_YOY, SALES_CAGR_5Y); case-insensitive */
+  metric: string
+  /** Fiscal year; defaults to the latest year with data */
+  year?: number
+  /** Rank on the N-year CAGR of a reported metric instead of its value */
+  window?: number
+  /** desc ranks the highest value first; defaults to the metric's higherIsBetter */
+  order?: 'desc' | 'asc'
+  /** USD values use the yearly average rate for each fiscal year */
+  currency?: 'INR' | 'USD'
+  /** Unit the values are expressed in, e.g. crore (10 million) */
+  scale?: 'units' | 'thousand' | 'lakh' | 'million' | 'crore' | 'billion'
+}
+
+export type GetForecastParams = {
+  /** Company name */
+  company?: string
+  ticker?: string
+  isin?: string
+  /** Base metric (e.g. SALES) or derived metric key (e.g. PAT_MARGIN, SALES_YOY, SALES_CAGR_5Y); case-insensitive */
+  metric: string
+  /** Number of fiscal years to project */
+  horizon?: number
+  /** Linear trend, CAGR extrapolation or Holt's exponential smoothing */
+  method?: 'linear' | 'cagr' | 'holt'
+  /** USD values use the yearly average rate for each fiscal year */
+  currency?: 'INR' | 'USD'
+  /** Unit the values are expressed in, e.g. crore (10 million) */
+  scale?: 'units' | 'thousand' | 'lakh' | 'million' | 'crore' | 'billion'
+}
+
+export type GetSectorAggregateParams = {
+  /** Sector or industry key, e.g. it_services */
+  group: string
+  /** Base metric (e.g. SALES) or derived metric key (e.g. PAT_MARGIN, SALES_YOY, SALES_CAGR_5Y); case-insensitive */
+  metric: string
+  stat?: 'median' | 'mean' | 'sum' | 'share'
+  /** Member whose share to return (stat=share) */
+  ticker?: string
+  /** Fiscal years, fiscal quarters or trailing twelve months at each quarter */
+  period?: 'annual' | 'quarterly' | 'ttm'
+  /** USD values use the yearly average rate for each fiscal year */
+  currency?: 'INR' | 'USD'
+  /** Unit the values are expressed in, e.g. crore (10 million) */
+  scale?: 'units' | 'thousand' | 'lakh' | 'million' | 'crore' | 'billion'
+}
+
+export type ListWatchlistsParams = {
+  /** User name; watchlists and dashboards are saved per user */
+  user: string
+}
+
+export type CreateWatchlistParams = {
+  /** User name; watchlists and dashboards are saved per user */
+  user: string
+}
+
+export type UpdateWatchlistParams = {
+  /** User name; watchlists and dashboards are saved per user */
+  user: string
+  id: string
+}
+
+export type DeleteWatchlistParams = {
+  /** User name; watchlists and dashboards are saved per user */
+  user: string
+  id: string
+}
+
+export type ListDashboardsParams = {
+  /** User name; watchlists and dashboards are saved per user */
+  user: string
+}
+
+export type CreateDashboardParams = {
+  /** User name; watchlists and dashboards are saved per user */
+  user: string
+}
+
+export type UpdateDashboardParams = {
+  /** User name; watchlists and dashboards are saved per user */
+  user: string
+  id: string
+}
+
+export type DeleteDashboardParams = {
+  /** User name; watchlists and dashboards are saved per user */
+  user: string
+  id: string
+}
+
+export type ListAnnotationsParams = {
+  ticker?: string[]
+  kind?: 'merger' | 'split' | 'accounting_change' | 'event' | 'note'
+}
+
+export type GetAnnotationParams = {
+  id: number
+}
+
+export type UpdateAnnotationParams = {
+  id: number
+}
+
+export type DeleteAnnotationParams = {
+  id: number
+}
+
+export type ListAlertsParams = {
+  /** Only alerts raised by this rule */
+  rule?: number
+  ticker?: string
+  limit?: number
+}
+
+export type DeleteAlertRuleParams = {
+  id: number
+}
+
+export type UploadWorkbookBody = {
+  file: Blob
+}
+
+export type UpdateCompanyParams = {
+  ticker: string
+}
+
+export type DeleteCompanyParams = {
+  ticker: string
+}
+
+export type SetFinancialValueParams = {
+  ticker: string
+  /** Base metric, e.g. SALES */
+  metric: string
+  /** Fiscal year, named after the year it ends in */
+  year: number
+  /** Fiscal quarter (Q1 is April-June); omit for the annual value */
+  quarter?: number
+}
+
+export type DeleteFinancialValueParams = {
+  ticker: string
+  /** Base metric, e.g. SALES */
+  metric: string
+  /** Fiscal year, named after the year it ends in */
+  year: number
+  /** Fiscal quarter (Q1 is April-June); omit for the annual value */
+  quarter?: number
+}
+
+export type ListAuditLogParams = {
+  ticker?: string
+  limit?: number
+}
+
+export type FileDownload = { blob: Blob; filename: string | null }
+
+export type RequestOptions = { signal?: AbortSignal }
+
+export type ApiClientOptions = {
+  /** Origin the API is served from; empty for same-origin */
+  baseUrl?: string
+  timeout?: number
+  /** Bearer token sent to operations that require one (the admin routes) */
+  token?: string
+  /** Partner API key sent with every request; without one the anonymous rate limit applies */
+  apiKey?: string
+  /** Called with every successful response before its body is read, e.g. to watch the dataset ETag */
+  onResponse?: (response: Response, request: { method: string; path: string }) => void
+}
+
+type Params = Record<string, string | number | string[] | undefined>
+
+type Request = {
+  method: string
+  /** Route with {name} placeholders filled from params; other params go in the query string */
+  path: string
+  params?: Params
+  form?: Record<string, Blob>
+  json?: unknown
+  auth?: boolean
+}
+
+// Thrown for any non-2xx response; body is the parsed ErrorResponse when the
+// server sent one
+export class ApiError extends Error {
+  status: number
+  body: ErrorResponse | null
+
+  constructor(status: number, body: ErrorResponse | null) {
+    super(body?.message || body?.error || `HTTP error! status: ${status}`)
+    this.name = 'ApiError'
+    this.status = status
+    this.body = body
+  }
+}
+
+// Arrays become repeated params (?company=A&company=B)
+function toSearchParams(query: Params) {
+  const params = new URLSearchParams()
+  for (const [key, value] of Object.entries(query)) {
+    if (value === undefined || value === '') continue
+    for (const item of Array.isArray(value) ? value : [value]) params.append(key, String(item))
+  }
+  return params
+}
+
+function toDownload(response: Response): Promise<FileDownload> {
+  const header = response.headers.get('Content-Disposition') || ''
+  const match = /filename="?([^";]+)"?/i.exec(header)
+  return response.blob().then((blob) => ({ blob, filename: match ? match[1] : null }))
+}
+
+function buildPath(path: string, params: Params = {}) {
+  const query: Params = { ...params }
+  const filled = path.replace(/\{(\w+)\}/g, (_, name: string) => {
+    delete query[name]
+    return encodeURIComponent(String(params[name]))
+  })
+  const search = toSearchParams(query).toString()
+  return search ? `${filled}?${search}` : filled
+}
+
+export function createApiClient({ baseUrl = '', timeout = DEFAULT_TIMEOUT, token, apiKey, onResponse }: ApiClientOptions = {}) {
+  async function send({ method, path, params, form, json, auth }: Request, options: RequestOptions = {}) {
+    const controller = new AbortController()
+    let timedOut = false
+    const id = setTimeout(() => {
+      timedOut = true
+      controller.abort()
+    }, timeout)
+    // Let callers cancel too (e.g. a superseded search), without reporting a timeout
+    const onCallerAbort = () => controller.abort()
+    options.signal?.addEventListener('abort', onCallerAbort)
+
+    const headers: Record<string, string> = {}
+    let body: FormData | string | undefined
+    if (form) {
+      body = new FormData()
+      for (const [key, value] of Object.entries(form)) body.append(key, value)
+    } else if (json !== undefined) {
+      body = JSON.stringify(json)
+      headers['Content-Type'] = 'application/json'
+    }
+    if (auth && token) headers.Authorization = `Bearer ${token}`
+    if (apiKey) headers['X-API-Key'] = apiKey
+
+    try {
+      const response = await fetch(`${baseUrl}${API_BASE_PATH}${buildPath(path, params)}`, {
+        method,
+        headers,
+        body,
+        signal: controller.signal
+      })
+      if (!response.ok) {
+        const errorBody = await response.json().catch(() => null) as ErrorResponse | null
+        throw new ApiError(response.status, errorBody)
+      }
+      onResponse?.(response, { method, path })
+      return response
+    } catch (error: unknown) {
+      if (timedOut && error instanceof Error && error.name === 'AbortError') {
+        throw new Error('Request timed out. Please try again.')
+      }
+      throw error
+    } finally {
+      clearTimeout(id)
+      options.signal?.removeEventListener('abort', onCallerAbort)
+    }
+  }
+
+  return {
+    /** List all companies */
+    listCompanies: (options?: RequestOptions) =>
+      send({ method: 'GET', path: '/companies' }, options).then((r) => r.json() as Promise<CompaniesResponse>),
+
+    /** List base and derived metrics with their catalog metadata */
+    listMetrics: (options?: RequestOptions) =>
+      send({ method: 'GET', path: '/metrics' }, options).then((r) => r.json() as Promise<MetricsResponse>),
+
+    /** One company's annual, quarterly or TTM series for a metric. Identify the company with exactly one of company, ticker or isin. */
+    getSeries: (params: GetSeriesParams, options?: RequestOptions) =>
+      send({ method: 'GET', path: '/data', params }, options).then((r) => r.json() as Promise<DataResponse>),
+
+    /** Several companies for one metric in a single request */
+    getSeriesBatch: (params: GetSeriesBatchParams, options?: RequestOptions) =>
+      send({ method: 'GET', path: '/data/batch', params }, options).then((r) => r.json() as Promise<BatchDataResponse>),
+
+    /** Download series as CSV or XLSX */
+    exportSeries: (params: ExportSeriesParams, options?: RequestOptions) =>
+      send({ method: 'GET', path: '/export', params }, options).then(toDownload),
+
+    /** Prefix and fuzzy search across company name, ticker and ISIN */
+    searchCompanies: (params: SearchCompaniesParams, options?: RequestOptions) =>
+      send({ method: 'GET', path: '/search', params }, options).then((r) => r.json() as Promise<SearchResponse>),
+
+    /** Data quality issues: year gaps, sign flips, YoY jumps, PAT > EBITDA, EBITDA > SALES, FX noise. Without company, ticker or isin every company is checked. */
+    getQualityReport: (params: GetQualityReportParams, options?: RequestOptions) =>
+      send({ method: 'GET', path: '/quality', params }, options).then((r) => r.json() as Promise<QualityResponse>),
+
+    /** League table of every company for one metric and fiscal year */
+    getRankings: (params: GetRankingsParams, options?: RequestOptions) =>
+      send({ method: 'GET', path: '/rankings', params }, options).then((r) => r.json() as Promise<RankingsResponse>),
+
+    /** Projection of one company's annual series past its last reported year. Identify the company with exactly one of company, ticker or isin. */
+    getForecast: (params: GetForecastParams, options?: RequestOptions) =>
+      send({ method: 'GET', path: '/forecast', params }, options).then((r) => r.json() as Promise<ForecastResponse>),
+
+    /** Sector and industry taxonomy with the companies classified under each */
+    listSectors: (options?: RequestOptions) =>
+      send({ method: 'GET', path: '/sectors' }, options).then((r) => r.json() as Promise<SectorsResponse>),
+
+    /** Aggregate series for a sector's or industry's companies. median and mean work for any metric; sum and share need a reported one. share returns one member's percentage of the group total and needs ticker. */
+    getSectorAggregate: (params: GetSectorAggregateParams, options?: RequestOptions) =>
+      send({ method: 'GET', path: '/sectors/{group}/aggregate', params }, options).then((r) => r.json() as Promise<SectorAggregateResponse>),
+
+    /** A user's saved watchlists */
+    listWatchlists: (params: ListWatchlistsParams, options?: RequestOptions) =>
+      send({ method: 'GET', path: '/users/{user}/watchlists', params }, options).then((r) => r.json() as Promise<WatchlistsResponse>),
+
+    /** Save a named list of companies. At most 50 watchlists per user; names are unique per user. */
+    createWatchlist: (params: CreateWatchlistParams, body: SaveWatchlistRequest, options?: RequestOptions) =>
+      send({ method: 'POST', path: '/users/{user}/watchlists', params, json: body }, options).then((r) => r.json() as Promise<WatchlistResponse>),
+
+    /** Rename a watchlist or replace its companies */
+    updateWatchlist: (params: UpdateWatchlistParams, body: UpdateWatchlistRequest, options?: RequestOptions) =>
+      send({ method: 'PUT', path: '/users/{user}/watchlists/{id}', params, json: body }, options).then((r) => r.json() as Promise<WatchlistResponse>),
+
+    /** Remove a watchlist */
+    deleteWatchlist: (params: DeleteWatchlistParams, options?: RequestOptions) =>
+      send({ method: 'DELETE', path: '/users/{user}/watchlists/{id}', params }, options).then((r) => r.json() as Promise<DeleteSavedItemResponse>),
+
+    /** A user's saved dashboards */
+    listDashboards: (params: ListDashboardsParams, options?: RequestOptions) =>
+      send({ method: 'GET', path: '/users/{user}/dashboards', params }, options).then((r) => r.json() as Promise<DashboardsResponse>),
+
+    /** Save a named grid of chart panels. At most 50 dashboards per user and 12 panels each. */
+    createDashboard: (params: CreateDashboardParams, body: SaveDashboardRequest, options?: RequestOptions) =>
+      send({ method: 'POST', path: '/users/{user}/dashboards', params, json: body }, options).then((r) => r.json() as Promise<DashboardResponse>),
+
+    /** Rename a dashboard or replace its panels */
+    updateDashboard: (params: UpdateDashboardParams, body: UpdateDashboardRequest, options?: RequestOptions) =>
+      send({ method: 'PUT', path: '/users/{user}/dashboards/{id}', params, json: body }, options).then((r) => r.json() as Promise<DashboardResponse>),
+
+    /** Remove a dashboard */
+    deleteDashboard: (params: DeleteDashboardParams, options?: RequestOptions) =>
+      send({ method: 'DELETE', path: '/users/{user}/dashboards/{id}', params }, options).then((r) => r.json() as Promise<DeleteSavedItemResponse>),
+
+    /** Corporate events and notes pinned to company periods */
+    listAnnotations: (params: ListAnnotationsParams, options?: RequestOptions) =>
+      send({ method: 'GET', path: '/annotations', params }, options).then((r) => r.json() as Promise<AnnotationsResponse>),
+
+    /** Pin an event or note to a company period */
+    createAnnotation: (body: CreateAnnotationRequest, options?: RequestOptions) =>
+      send({ method: 'POST', path: '/annotations', json: body }, options).then((r) => r.json() as Promise<AnnotationResponse>),
+
+    /** One annotation */
+    getAnnotation: (params: GetAnnotationParams, options?: RequestOptions) =>
+      send({ method: 'GET', path: '/annotations/{id}', params }, options).then((r) => r.json() as Promise<AnnotationResponse>),
+
+    /** Change an annotation */
+    updateAnnotation: (params: UpdateAnnotationParams, body: UpdateAnnotationRequest, options?: RequestOptions) =>
+      send({ method: 'PUT', path: '/annotations/{id}', params, json: body }, options).then((r) => r.json() as Promise<AnnotationResponse>),
+
+    /** Remove an annotation */
+    deleteAnnotation: (params: DeleteAnnotationParams, options?: RequestOptions) =>
+      send({ method: 'DELETE', path: '/annotations/{id}', params }, options).then((r) => r.json() as Promise<DeleteAnnotationResponse>),
+
+    /** Alerts raised by the alert rules, newest first */
+    listAlerts: (params: ListAlertsParams, options?: RequestOptions) =>
+      send({ method: 'GET', path: '/alerts', params }, options).then((r) => r.json() as Promise<AlertsResponse>),
+
+    /** Conditions checked whenever the dataset is reloaded or edited */
+    listAlertRules: (options?: RequestOptions) =>
+      send({ method: 'GET', path: '/alerts/rules' }, options).then((r) => r.json() as Promise<AlertRulesResponse>),
+
+    /** Add an alert rule; it is checked against the current data straight away */
+    createAlertRule: (body: CreateAlertRuleRequest, options?: RequestOptions) =>
+      send({ method: 'POST', path: '/alerts/rules', json: body }, options).then((r) => r.json() as Promise<CreateAlertRuleResponse>),
+
+    /** Remove an alert rule; its alerts stay in the history */
+    deleteAlertRule: (params: DeleteAlertRuleParams, options?: RequestOptions) =>
+      send({ method: 'DELETE', path: '/alerts/rules/{id}', params }, options).then((r) => r.json() as Promise<DeleteAlertRuleResponse>),
+
+    /** Write an .xlsx, .xls or .csv workbook into the database */
+    uploadWorkbook: (body: UploadWorkbookBody, options?: RequestOptions) =>
+      send({ method: 'POST', path: '/upload', form: body, auth: true }, options).then((r) => r.json() as Promise<UploadResponse>),
+
+    /** Add a company, optionally with its financials */
+    createCompany: (body: CreateCompanyRequest, options?: RequestOptions) =>
+      send({ method: 'POST', path: '/admin/companies', json: body, auth: true }, options).then((r) => r.json() as Promise<CompanyResponse>),
+
+    /** Change a company's name, ISIN or industry */
+    updateCompany: (params: UpdateCompanyParams, body: UpdateCompanyRequest, options?: RequestOptions) =>
+      send({ method: 'PUT', path: '/admin/companies/{ticker}', params, json: body, auth: true }, options).then((r) => r.json() as Promise<CompanyResponse>),
+
+    /** Remove a company and all of its values */
+    deleteCompany: (params: DeleteCompanyParams, options?: RequestOptions) =>
+      send({ method: 'DELETE', path: '/admin/companies/{ticker}', params, auth: true }, options).then((r) => r.json() as Promise<DeleteCompanyResponse>),
+
+    /** Add or correct one year's or quarter's value */
+    setFinancialValue: (params: SetFinancialValueParams, body: SetValueRequest, options?: RequestOptions) =>
+      send({ method: 'PUT', path: '/admin/companies/{ticker}/financials/{metric}/{year}', params, json: body, auth: true }, options).then((r) => r.json() as Promise<ValueResponse>),
+
+    /** Remove one year's or quarter's value */
+    deleteFinancialValue: (params: DeleteFinancialValueParams, options?: RequestOptions) =>
+      send({ method: 'DELETE', path: '/admin/companies/{ticker}/financials/{metric}/{year}', params, auth: true }, options).then((r) => r.json() as Promise<ValueResponse>),
+
+    /** Change history, newest first */
+    listAuditLog: (params: ListAuditLogParams, options?: RequestOptions) =>
+      send({ method: 'GET', path: '/admin/audit', params, auth: true }, options).then((r) => r.json() as Promise<AuditResponse>),
+
+    /** This document */
+    getOpenApiDocument: (options?: RequestOptions) =>
+      send({ method: 'GET', path: '/openapi.json' }, options).then((r) => r.json() as Promise<Record<string, unknown>>),
+  }
+}
+
+export type ApiClient = ReturnType<typeof createApiClient>
@@ -0,0 +1,49 @@
+import { describe, expect, it, vi } from 'vitest'
+import { cachedQuery, clearQueryCache, isCached, noteDatasetTag, queryKey } from './queryCache'
+
+describe('cachedQuery', () => {
+  it('shares one load between calls with the same key', async () => {
+    const load = vi.fn(() => Promise.resolve(1))
+    const key = queryKey('shared')
+    await Promise.all([cachedQuery(key, load), cachedQuery(key, load)])
+    await cachedQuery(key, load)
+    expect(load).toHaveBeenCalledTimes(1)
+  })
+
+  it('does not keep failures', async () => {
+    const key = queryKey('failing')
+    await expect(cachedQuery(key, () => Promise.reject(new Error('down')))).rejects.toThrow('down')
+    expect(isCached(key)).toBe(false)
+  })
+})
+
+describe('noteDatasetTag', () => {
+  it('keeps loaded entries while the tag stays the same', async () => {
+    const key = queryKey('same-tag')
+    noteDatasetTag('W/"1.0.0-a"')
+    await cachedQuery(key, () => Promise.resolve(1))
+    noteDatasetTag('W/"1.0.0-a"')
+    noteDatasetTag(null)
+    expect(isCached(key)).toBe(true)
+  })
+
+  it('drops loaded entries when the dataset tag changes', async () => {
+    const key = queryKey('new-tag')
+    noteDatasetTag('W/"1.0.0-b"')
+    await cachedQuery(key, () => Promise.resolve(1))
+    noteDatasetTag('W/"1.0.0-c"')
+    expect(isCached(key)).toBe(false)
+  })
+})
+
+describe('clearQueryCache', () => {
+  it('keeps requests in flight', async () => {
+    const loaded = queryKey('loaded')
+    const pending = queryKey('pending')
+    await cachedQuery(loaded, () => Promise.resolve(1))
+    cachedQuery(pending, () => new Promise(() => {}))
+    clearQueryCache()
+    expect(isCached(loaded)).toBe(false)
+    expect(isCached(pending)).toBe(true)
+  })
+})
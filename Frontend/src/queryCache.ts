@@ -0,0 +1,73 @@
+// In-memory cache for read-only API queries. Calls with the same key while a
+// request is in flight share it, and a result is reused for CACHE_TTL_MS, so
+// going back to an earlier selection renders without a round trip. Failures
+// aren't kept. After the TTL the browser revalidates with the server's ETag,
+// which is cheap when the dataset hasn't changed.
+//
+// The dataset routes' ETag carries the dataset hash. A response with a new
+// one means an upload or admin edit happened, so every loaded entry is
+// dropped (see noteDatasetTag); the TTL bounds how long a selection answered
+// only from memory can miss that.
+
+const CACHE_TTL_MS = 30 * 1000
+const MAX_ENTRIES = 200
+
+type Entry = { promise: Promise<unknown>; loadedAt: number | null }
+
+const entries = new Map<string, Entry>()
+let datasetTag: string | null = null
+
+export const queryKey = (...parts: unknown[]) => JSON.stringify(parts)
+
+function fresh(entry: Entry | undefined): entry is Entry {
+  if (!entry) return false
+  return entry.loadedAt === null || Date.now() - entry.loadedAt < CACHE_TTL_MS
+}
+
+// Drops every result loaded so far; requests in flight keep their entries
+export function clearQueryCache() {
+  for (const [key, entry] of entries) {
+    if (entry.loadedAt !== null) entries.delete(key)
+  }
+}
+
+// Called with the ETag of each API response (null for routes without one)
+export function noteDatasetTag(tag: string | null) {
+  if (!tag) return
+  if (datasetTag !== null && tag !== datasetTag) clearQueryCache()
+  datasetTag = tag
+}
+
+// True when cachedQuery would answer from memory (loaded or in flight)
+export function isCached(key: string) {
+  return fresh(entries.get(key))
+}
+
+// Aborting `signal` only rejects this caller's promise; the shared request
+// finishes and is cached for the next one
+export function cachedQuery<T>(key: string, load: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+  let entry = entries.get(key)
+  if (fresh(entry)) {
+    // Most recently used goes last, so eviction takes the oldest
+    entries.delete(key)
+    entries.set(key, entry)
+  } else {
+    const created: Entry = { promise: load(), loadedAt: null }
+    created.promise.then(
+      () => { created.loadedAt = Date.now() },
+      () => { if (entries.get(key) === created) entries.delete(key) }
+    )
+    entries.set(key, created)
+    if (entries.size > MAX_ENTRIES) entries.delete(entries.keys().next().value!)
+    entry = created
+  }
+
+  const promise = entry.promise as Promise<T>
+  if (!signal) return promise
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new DOMException('Aborted', 'AbortError'))
+    if (signal.aborted) return onAbort()
+    signal.addEventListener('abort', onAbort, { once: true })
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort))
+  })
+}
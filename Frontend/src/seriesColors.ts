@@ -0,0 +1,16 @@
+// Distinct, colour-blind friendly palette; the first entry matches the
+// original single-series line colour.
+export const SERIES_COLORS = [
+  '#3b82f6',
+  '#f97316',
+  '#10b981',
+  '#a855f7',
+  '#ef4444',
+  '#eab308',
+  '#06b6d4',
+  '#ec4899',
+  '#64748b',
+  '#84cc16'
+]
+
+export const seriesColor = (index: number) => SERIES_COLORS[index % SERIES_COLORS.length]
@@ -0,0 +1,106 @@
+// Dashboard view state <-> URL query string, e.g.
+//   ?companies=TCS,INFY&metric=PAT&period=quarterly&currency=USD&numbers=international&from=2010&to=2024Q3&scale=log&chart=bar
+// Companies are written as tickers to keep links short; names are accepted
+// too. Parsing never throws: anything unrecognised is dropped.
+import type { ChartType, ScaleType } from './chartScale'
+import type { Currency } from './api'
+import type { NumberSystem } from './format'
+import { PERIOD_OPTIONS, parsePositionKey, positionKey, type PeriodType } from './fiscal'
+
+export type ViewState = {
+  // Tickers or names as they appear in the URL, not yet checked
+  companies: string[]
+  metric: string
+  period: PeriodType
+  currency: Currency
+  numbers: NumberSystem
+  // Chart positions (see fiscal.ts). Either end may be open (±Infinity) when only from= or to= is given
+  yearRange: [number, number] | null
+  scale: ScaleType
+  chart: ChartType
+}
+
+const SCALES: ScaleType[] = ['linear', 'log']
+const CHART_TYPES: ChartType[] = ['line', 'bar', 'stacked', 'waterfall']
+const CURRENCIES: Currency[] = ['INR', 'USD']
+const NUMBER_SYSTEMS: NumberSystem[] = ['indian', 'international']
+const MIN_YEAR = 1900
+const MAX_YEAR = 2100
+
+// A fiscal year (2024) or quarter (2024Q2)
+function parseYear(value: string | null) {
+  const position = value ? parsePositionKey(value) : null
+  if (position === null) return null
+  return position >= MIN_YEAR && position < MAX_YEAR + 1 ? position : null
+}
+
+export function readViewState(search: string): ViewState {
+  const params = new URLSearchParams(search)
+
+  const companies = params.getAll('companies')
+    .flatMap((value) => value.split(','))
+    .map((value) => value.trim())
+    .filter(Boolean)
+
+  const from = parseYear(params.get('from'))
+  const to = parseYear(params.get('to'))
+  let yearRange: [number, number] | null = null
+  if (from !== null || to !== null) {
+    const start = from ?? -Infinity
+    const end = to ?? Infinity
+    yearRange = start < end ? [start, end] : null
+  }
+
+  const scale = params.get('scale')?.toLowerCase() as ScaleType | undefined
+  const chart = params.get('chart')?.toLowerCase() as ChartType | undefined
+  const period = params.get('period')?.toLowerCase()
+  const currency = params.get('currency')?.toUpperCase() as Currency | undefined
+  const numbers = params.get('numbers')?.toLowerCase() as NumberSystem | undefined
+
+  return {
+    companies: Array.from(new Set(companies)),
+    metric: params.get('metric')?.trim() ?? '',
+    period: PERIOD_OPTIONS.find((option) => option.type === period)?.type ?? 'annual',
+    currency: currency && CURRENCIES.includes(currency) ? currency : 'INR',
+    numbers: numbers && NUMBER_SYSTEMS.includes(numbers) ? numbers : 'indian',
+    yearRange,
+    scale: scale && SCALES.includes(scale) ? scale : 'linear',
+    chart: chart && CHART_TYPES.includes(chart) ? chart : 'line'
+  }
+}
+
+// Defaults are left out so a plain dashboard keeps a clean URL
+export function writeViewState(state: ViewState) {
+  const params = new URLSearchParams()
+  if (state.companies.length > 0) params.set('companies', state.companies.join(','))
+  if (state.metric) params.set('metric', state.metric)
+  if (state.period !== 'annual') params.set('period', state.period)
+  if (state.currency !== 'INR') params.set('currency', state.currency)
+  if (state.numbers !== 'indian') params.set('numbers', state.numbers)
+  if (state.yearRange) {
+    const [from, to] = state.yearRange
+    if (Number.isFinite(from)) params.set('from', positionKey(from))
+    if (Number.isFinite(to)) params.set('to', positionKey(to))
+  }
+  if (state.scale !== 'linear') params.set('scale', state.scale)
+  if (state.chart !== 'line') params.set('chart', state.chart)
+  const search = params.toString().replace(/%2C/gi, ',')
+  return search ? `?${search}` : ''
+}
+
+// Matches URL company tokens to known companies by ticker, ISIN or name;
+// unknown tokens are dropped
+export function resolveCompanies<T extends { name: string; ticker: string; isin: string }>(
+  tokens: string[],
+  companies: T[]
+) {
+  const resolved: T[] = []
+  for (const token of tokens) {
+    const lower = token.toLowerCase()
+    const match = companies.find((c) =>
+      c.ticker.toLowerCase() === lower || c.name.toLowerCase() === lower || (c.isin && c.isin.toLowerCase() === lower)
+    )
+    if (match && !resolved.includes(match)) resolved.push(match)
+  }
+  return resolved
+}
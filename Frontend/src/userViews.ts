@@ -0,0 +1,117 @@
+// Watchlists and dashboards saved on the server for one user, plus the
+// conversions between a dashboard panel and the main chart's view state
+import { useCallback, useEffect, useState } from 'react'
+import { api, type Dashboard, type DashboardPanel, type Watchlist } from './api'
+import type { ViewState } from './urlState'
+
+const USER_STORAGE_KEY = 'financial-dashboard.user'
+export const DEFAULT_USER = 'default'
+// Same rule as the server's `user` path parameter, which refuses __proto__ and constructor
+export const USER_PATTERN = /^(?!__proto__$|constructor$)[A-Za-z0-9._-]{1,64}$/i
+
+export function readStoredUser() {
+  try {
+    const user = window.localStorage.getItem(USER_STORAGE_KEY)
+    return user && USER_PATTERN.test(user) ? user : DEFAULT_USER
+  } catch {
+    return DEFAULT_USER
+  }
+}
+
+export function storeUser(user: string) {
+  try {
+    window.localStorage.setItem(USER_STORAGE_KEY, user)
+  } catch {
+    // Private mode: the name only lasts for this session
+  }
+}
+
+// `view.companies` should already be tickers; open ends of a zoom range are stored as null.
+// Panels are always drawn as line charts, so the chart type isn't kept.
+export function viewToPanel(view: ViewState): DashboardPanel {
+  const [from, to] = view.yearRange ?? [null, null]
+  return {
+    companies: view.companies,
+    metric: view.metric,
+    period: view.period,
+    from: from !== null && Number.isFinite(from) ? from : null,
+    to: to !== null && Number.isFinite(to) ? to : null,
+    scale: view.scale,
+    width: 1
+  }
+}
+
+export function panelToView(panel: DashboardPanel, base: Pick<ViewState, 'currency' | 'numbers'>): ViewState {
+  const hasRange = (panel.from ?? null) !== null || (panel.to ?? null) !== null
+  return {
+    ...base,
+    companies: panel.companies,
+    metric: panel.metric,
+    period: panel.period ?? 'annual',
+    yearRange: hasRange ? [panel.from ?? -Infinity, panel.to ?? Infinity] : null,
+    scale: panel.scale ?? 'linear',
+    chart: 'line'
+  }
+}
+
+// Swaps in a saved item, or appends it when it's new
+const replace = <T extends { id: string }>(items: T[], item: T) =>
+  items.some((i) => i.id === item.id) ? items.map((i) => (i.id === item.id ? item : i)) : [...items, item]
+
+// Loads the user's saved items and keeps the lists in step with every change.
+// Failed changes reject so the caller can report them.
+export function useSavedViews(user: string) {
+  const [watchlists, setWatchlists] = useState<Watchlist[]>([])
+  const [dashboards, setDashboards] = useState<Dashboard[]>([])
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const controller = new AbortController()
+    setError(null)
+    Promise.all([
+      api.listWatchlists({ user }, { signal: controller.signal }),
+      api.listDashboards({ user }, { signal: controller.signal })
+    ])
+      .then(([w, d]) => {
+        setWatchlists(w.watchlists)
+        setDashboards(d.dashboards)
+      })
+      .catch((e) => {
+        if (controller.signal.aborted) return
+        setWatchlists([])
+        setDashboards([])
+        setError(e instanceof Error ? e.message : 'Could not load saved views')
+      })
+    return () => controller.abort()
+  }, [user])
+
+  const saveWatchlist = useCallback(async (name: string, companies: string[]) => {
+    const { watchlist } = await api.createWatchlist({ user }, { name, companies })
+    setWatchlists((prev) => replace(prev, watchlist))
+    return watchlist
+  }, [user])
+
+  const deleteWatchlist = useCallback(async (id: string) => {
+    await api.deleteWatchlist({ user, id })
+    setWatchlists((prev) => prev.filter((w) => w.id !== id))
+  }, [user])
+
+  const createDashboard = useCallback(async (name: string, panels: DashboardPanel[]) => {
+    const { dashboard } = await api.createDashboard({ user }, { name, panels })
+    setDashboards((prev) => replace(prev, dashboard))
+    return dashboard
+  }, [user])
+
+  const updateDashboard = useCallback(async (id: string, panels: DashboardPanel[]) => {
+    const { dashboard } = await api.updateDashboard({ user, id }, { panels })
+    setDashboards((prev) => replace(prev, dashboard))
+    return dashboard
+  }, [user])
+
+  const deleteDashboard = useCallback(async (id: string) => {
+    await api.deleteDashboard({ user, id })
+    setDashboards((prev) => prev.filter((d) => d.id !== id))
+  }, [user])
+
+  return { watchlists, dashboards, error, saveWatchlist, deleteWatchlist, createDashboard, updateDashboard, deleteDashboard }
+}